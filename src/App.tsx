@@ -3,16 +3,22 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
-import { AuthProvider, useAuth } from "./hooks/useAuth";
+import { AuthProvider, useAuth, AppRole } from "./hooks/useAuth";
+import { useAchievementAnnouncements } from "./hooks/useAchievementAnnouncements";
 import { Navbar } from "./components/Navbar";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Events from "./pages/Events";
 import Gallery from "./pages/Gallery";
+import ArtworkDetail from "./pages/ArtworkDetail";
 import Profile from "./pages/Profile";
+import Leaderboard from "./pages/Leaderboard";
 import Admin from "./pages/Admin";
+import Duel from "./pages/Duel";
 import NotFound from "./pages/NotFound";
 import EventDetail from "./components/EventDetail";
+import EventResults from "./pages/EventResults";
+import Tournament from "./pages/Tournament";
 
 const queryClient = new QueryClient();
 
@@ -34,8 +40,31 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
+function RequireRole({ role, children }: { role: AppRole; children: React.ReactNode }) {
+  const { loading, hasRole } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!hasRole(role)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">You don't have permission to view this page.</p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
+
 function AppContent() {
   const { user } = useAuth();
+  useAchievementAnnouncements();
   
   return (
     <div className="min-h-screen bg-gradient-background">
@@ -66,6 +95,22 @@ function AppContent() {
             </ProtectedRoute>
           } 
         />
+        <Route 
+          path="/events/:eventId/results" 
+          element={
+            <ProtectedRoute>
+              <EventResults />
+            </ProtectedRoute>
+          } 
+        />
+        <Route 
+          path="/duels/:duelId" 
+          element={
+            <ProtectedRoute>
+              <Duel />
+            </ProtectedRoute>
+          } 
+        />
         <Route 
           path="/gallery" 
           element={
@@ -74,6 +119,30 @@ function AppContent() {
             </ProtectedRoute>
           } 
         />
+        <Route 
+          path="/artworks/:artworkId" 
+          element={
+            <ProtectedRoute>
+              <ArtworkDetail />
+            </ProtectedRoute>
+          } 
+        />
+        <Route 
+          path="/tournaments/:tournamentId" 
+          element={
+            <ProtectedRoute>
+              <Tournament />
+            </ProtectedRoute>
+          } 
+        />
+        <Route 
+          path="/leaderboard" 
+          element={
+            <ProtectedRoute>
+              <Leaderboard />
+            </ProtectedRoute>
+          } 
+        />
         <Route 
           path="/profile" 
           element={
@@ -82,7 +151,16 @@ function AppContent() {
             </ProtectedRoute>
           } 
         />
-        <Route path="/admin" element={<Admin />} />
+        <Route 
+          path="/admin" 
+          element={
+            <ProtectedRoute>
+              <RequireRole role="admin">
+                <Admin />
+              </RequireRole>
+            </ProtectedRoute>
+          } 
+        />
         <Route path="*" element={<NotFound />} />
       </Routes>
     </div>
@@ -0,0 +1,33 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { AchievementBadge, achievementIcon, sortAchievements } from '@/lib/achievements';
+
+interface AchievementBadgesProps {
+  achievements: AchievementBadge[];
+}
+
+// Compact row of unlocked badges for artist cards
+export default function AchievementBadges({ achievements }: AchievementBadgesProps) {
+  if (achievements.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-1">
+      {sortAchievements(achievements).map((achievement) => {
+        const Icon = achievementIcon(achievement);
+
+        return (
+          <Tooltip key={achievement.id}>
+            <TooltipTrigger asChild>
+              <span className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-primary/15 text-primary">
+                <Icon className="h-3 w-3" />
+              </span>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p className="font-medium">{achievement.name}</p>
+              <p className="text-xs text-muted-foreground">{achievement.description}</p>
+            </TooltipContent>
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { useState } from 'react';
+import { ResponsiveImage, blurhashDataUrl, imageSrcSet } from '@/lib/images';
+
+interface ArtworkImageProps {
+  image: ResponsiveImage;
+  alt: string;
+  // Rendered width of the image, for picking a variant from the srcset
+  sizes: string;
+  className?: string;
+}
+
+// Lazily loaded artwork image that paints its blurhash until the right
+// variant for the layout has loaded
+export default function ArtworkImage({ image, alt, sizes, className }: ArtworkImageProps) {
+  const [loaded, setLoaded] = useState(false);
+
+  const placeholder = !loaded && image.blurhash && image.image_width && image.image_height
+    ? blurhashDataUrl(image.blurhash, image.image_width, image.image_height)
+    : undefined;
+
+  return (
+    <img
+      src={image.medium_url ?? image.image_url}
+      srcSet={imageSrcSet(image)}
+      sizes={sizes}
+      width={image.image_width ?? undefined}
+      height={image.image_height ?? undefined}
+      alt={alt}
+      loading="lazy"
+      decoding="async"
+      onLoad={() => setLoaded(true)}
+      className={`bg-cover bg-center ${className ?? ''}`}
+      style={placeholder ? { backgroundImage: `url(${placeholder})` } : undefined}
+    />
+  );
+}
@@ -4,48 +4,69 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Upload } from 'lucide-react';
+import { Upload, X } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { formatPoints, useScoringRules } from '@/hooks/useScoringRules';
+import {
+  ACCEPTED_TIMELAPSE_FORMATS,
+  ACCEPTED_TIMELAPSE_TYPES,
+  ATTACHMENT_KIND_LABELS,
+  MAX_WIP_STAGES,
+  SOURCE_FILE_EXTENSIONS,
+} from '@/lib/attachments';
+import {
+  ACCEPTED_IMAGE_FORMATS,
+  ACCEPTED_IMAGE_TYPES,
+  AttachmentFile,
+  uploadAttachments,
+  uploadImage,
+  validateAttachmentFile,
+  validateImageFile,
+} from '@/lib/uploads';
 
 interface ArtworkUploadProps {
   eventId: string;
   eventTitle: string;
   currentTheme: string;
+  // The event only accepts artworks with process media attached
+  requireProcessMedia?: boolean;
   onArtworkUploaded: () => void;
 }
 
-export default function ArtworkUpload({ eventId, eventTitle, currentTheme, onArtworkUploaded }: ArtworkUploadProps) {
+export default function ArtworkUpload({
+  eventId,
+  eventTitle,
+  currentTheme,
+  requireProcessMedia = false,
+  onArtworkUploaded,
+}: ArtworkUploadProps) {
   const { user } = useAuth();
+  const rules = useScoringRules(eventId);
   const [isOpen, setIsOpen] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [progress, setProgress] = useState(0);
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<AttachmentFile[]>([]);
+  const [uploadingAttachments, setUploadingAttachments] = useState(false);
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const wipCount = attachments.filter(attachment => attachment.kind === 'wip').length;
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      // Validate file type
-      const validTypes = ['image/jpeg', 'image/png', 'image/webp'];
-      if (!validTypes.includes(file.type)) {
-        toast({
-          title: "Invalid file type",
-          description: "Please upload a JPG, PNG, or WebP image",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Validate file size (5MB max)
-      const maxSize = 5 * 1024 * 1024; // 5MB
-      if (file.size > maxSize) {
+      // Checks the real format from the file's bytes, its size and dimensions
+      const problem = await validateImageFile(file);
+      if (problem) {
         toast({
-          title: "File too large",
-          description: "Please upload an image smaller than 5MB",
+          title: "Invalid image",
+          description: problem,
           variant: "destructive",
         });
         return;
@@ -60,6 +81,44 @@ export default function ArtworkUpload({ eventId, eventTitle, currentTheme, onArt
     }
   };
 
+  // WIP stages add up to MAX_WIP_STAGES; a new timelapse or source file
+  // replaces the one already picked
+  const handleAttachmentChange = (kind: AttachmentFile['kind']) => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+
+    if (kind === 'wip' && wipCount + files.length > MAX_WIP_STAGES) {
+      toast({
+        title: "Too many stages",
+        description: `You can attach up to ${MAX_WIP_STAGES} work-in-progress stages`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    for (const file of files) {
+      const problem = await validateAttachmentFile(file, kind);
+      if (problem) {
+        toast({
+          title: "Invalid file",
+          description: `${file.name}: ${problem}`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    const added = files.map(file => ({ kind, file }));
+    setAttachments(current => kind === 'wip'
+      ? [...current, ...added]
+      : [...current.filter(attachment => attachment.kind !== kind), ...added]
+    );
+  };
+
+  const removeAttachment = (removed: AttachmentFile) => {
+    setAttachments(current => current.filter(attachment => attachment !== removed));
+  };
+
   const uploadArtwork = async () => {
     if (!user) {
       toast({
@@ -79,7 +138,17 @@ export default function ArtworkUpload({ eventId, eventTitle, currentTheme, onArt
       return;
     }
 
+    if (requireProcessMedia && attachments.length === 0) {
+      toast({
+        title: "Process media required",
+        description: "This event asks for WIP stages, a timelapse or a source file with every artwork",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setUploading(true);
+    setProgress(0);
 
     try {
       // Verify the user has a profile
@@ -94,63 +163,34 @@ export default function ArtworkUpload({ eventId, eventTitle, currentTheme, onArt
         throw new Error('Error verifying your account. Please try signing out and back in.');
       }
 
-      // Create a unique file path
-      const fileExt = imageFile.name.split('.').pop()?.toLowerCase() || 'png';
-      const fileName = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}.${fileExt}`;
-      const filePath = `artworks/${user.id}/${fileName}`;
-
-      // Upload the file to storage
-      const { error: uploadError } = await supabase.storage
-        .from('artworks')
-        .upload(filePath, imageFile, {
-          cacheControl: '3600',
-          upsert: false,
-          contentType: imageFile.type
-        });
+      // Upload the process media, then resize the image into the thumbnail,
+      // medium and full variants and upload those; submit_artwork() stores
+      // the artwork and its attachments together, and every file is removed
+      // if it fails
+      setUploadingAttachments(attachments.length > 0);
+      await uploadAttachments(attachments, { userId: user.id, onProgress: setProgress }, async (uploaded) => {
+        setUploadingAttachments(false);
 
-      if (uploadError) {
-        console.error('Upload error:', uploadError);
-        throw new Error(uploadError.message || 'Failed to upload image');
-      }
+        await uploadImage(imageFile, { bucket: 'artworks', userId: user.id, onProgress: setProgress }, async (image) => {
+          const { error: insertError } = await supabase.rpc('submit_artwork', {
+            p_event_id: eventId,
+            p_title: title,
+            p_description: description,
+            p_image: { ...image },
+            p_attachments: uploaded.map(attachment => ({ ...attachment })),
+          });
 
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('artworks')
-        .getPublicUrl(filePath);
-
-      // Create artwork record in database
-      const { error: insertError } = await supabase
-        .from('artworks')
-        .insert({
-          title: title.trim(),
-          description: description.trim() || null,
-          image_url: publicUrl,
-          event_id: eventId,
-          user_id: user.id,
+          if (insertError) {
+            console.error('Insert error:', insertError);
+            throw new Error(insertError.message || 'Failed to save artwork details');
+          }
         });
+      });
 
-      if (insertError) {
-        console.error('Insert error:', insertError);
-        // Clean up the uploaded file if the database insert fails
-        await supabase.storage.from('artworks').remove([filePath]);
-        throw new Error(insertError.message || 'Failed to save artwork details');
-      }
-
-      // Update user points for artwork upload (5 points)
-      try {
-        await supabase.rpc('update_user_points', {
-          p_user_id: user.id,
-          p_event_id: eventId,
-          p_artwork_points: 5
-        });
-      } catch (pointsError) {
-        console.warn('Points update warning:', pointsError);
-        // Don't fail the upload if points update fails
-      }
-
+      // Points for the submission are awarded by the database ledger
       toast({
         title: "🎉 Congratulations!",
-        description: "Your artwork has been uploaded successfully and you earned 5 points!",
+        description: `Your artwork has been uploaded successfully and you earned ${formatPoints(rules.submission_points)}!`,
       });
 
       // Reset form
@@ -158,6 +198,7 @@ export default function ArtworkUpload({ eventId, eventTitle, currentTheme, onArt
       setDescription('');
       setImageFile(null);
       setImagePreview(null);
+      setAttachments([]);
       setIsOpen(false);
       onArtworkUploaded();
 
@@ -170,6 +211,7 @@ export default function ArtworkUpload({ eventId, eventTitle, currentTheme, onArt
       });
     } finally {
       setUploading(false);
+      setUploadingAttachments(false);
     }
   };
 
@@ -181,7 +223,7 @@ export default function ArtworkUpload({ eventId, eventTitle, currentTheme, onArt
           Submit Artwork
         </Button>
       </DialogTrigger>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Submit Artwork</DialogTitle>
           <DialogDescription>
@@ -219,14 +261,14 @@ export default function ArtworkUpload({ eventId, eventTitle, currentTheme, onArt
             <Input
               id="artwork-image"
               type="file"
-              accept="image/*"
+              accept={ACCEPTED_IMAGE_TYPES.join(',')}
               onChange={handleImageChange}
               required
               disabled={uploading}
               className="cursor-pointer"
             />
             <p className="text-xs text-muted-foreground mt-1">
-              Accepted formats: JPG, PNG, WebP (max 5MB)
+              Accepted formats: {ACCEPTED_IMAGE_FORMATS} (max 5MB). Location and camera details are removed before upload.
             </p>
           </div>
 
@@ -247,10 +289,90 @@ export default function ArtworkUpload({ eventId, eventTitle, currentTheme, onArt
             </Card>
           )}
 
+          <div className="space-y-3">
+            <div>
+              <Label>Process Media{requireProcessMedia ? ' *' : ''}</Label>
+              <p className="text-xs text-muted-foreground">
+                {requireProcessMedia
+                  ? 'This event requires WIP stages, a timelapse or a source file with every artwork.'
+                  : 'Optionally show how you made it with WIP stages, a timelapse or a source file.'}
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="artwork-wip">WIP Stages ({wipCount}/{MAX_WIP_STAGES})</Label>
+              <Input
+                id="artwork-wip"
+                type="file"
+                accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                multiple
+                onChange={handleAttachmentChange('wip')}
+                disabled={uploading || wipCount >= MAX_WIP_STAGES}
+                className="cursor-pointer"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="artwork-timelapse">Timelapse</Label>
+              <Input
+                id="artwork-timelapse"
+                type="file"
+                accept={ACCEPTED_TIMELAPSE_TYPES.join(',')}
+                onChange={handleAttachmentChange('timelapse')}
+                disabled={uploading}
+                className="cursor-pointer"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                {ACCEPTED_TIMELAPSE_FORMATS} (max 50MB)
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="artwork-source">Source File</Label>
+              <Input
+                id="artwork-source"
+                type="file"
+                accept={SOURCE_FILE_EXTENSIONS.map(extension => `.${extension}`).join(',')}
+                onChange={handleAttachmentChange('source')}
+                disabled={uploading}
+                className="cursor-pointer"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Layered files up to 50MB. Only you and the moderators can download them.
+              </p>
+            </div>
+
+            {attachments.length > 0 && (
+              <ul className="space-y-1">
+                {attachments.map((attachment) => (
+                  <li
+                    key={`${attachment.kind}-${attachment.file.name}-${attachment.file.lastModified}`}
+                    className="flex items-center justify-between gap-2 rounded border px-3 py-1 text-sm"
+                  >
+                    <span className="truncate">
+                      <span className="text-muted-foreground">{ATTACHMENT_KIND_LABELS[attachment.kind]}:</span> {attachment.file.name}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeAttachment(attachment)}
+                      disabled={uploading}
+                      aria-label={`Remove ${attachment.file.name}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {uploading && <Progress value={progress} />}
+
           <div className="flex gap-2 pt-4">
             <Button 
               onClick={uploadArtwork} 
-              disabled={uploading || !imageFile || !title.trim()}
+              disabled={uploading || !imageFile || !title.trim() || (requireProcessMedia && attachments.length === 0)}
               className="flex-1"
             >
               {uploading ? (
@@ -259,7 +381,7 @@ export default function ArtworkUpload({ eventId, eventTitle, currentTheme, onArt
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
-                  Uploading...
+                  {uploadingAttachments ? 'Uploading process media...' : 'Uploading...'} {progress}%
                 </>
               ) : (
                 'Submit Artwork'
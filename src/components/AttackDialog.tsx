@@ -1,71 +1,138 @@
 import { useState } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
 import { Sword, Zap } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { formatPoints, useScoringRules } from '@/hooks/useScoringRules';
+import { Attack, MAX_ATTACK_MESSAGE_LENGTH } from '@/lib/attacks';
+import { ACCEPTED_IMAGE_TYPES, UploadedImage, uploadImage, validateImageFile } from '@/lib/uploads';
 
 interface AttackDialogProps {
   isOpen: boolean;
   onClose: () => void;
   artworkId: string;
-  artworkTitle: string;
+  // Set when countering one of the attacks on the artwork
+  parentAttack?: Pick<Attack, 'id' | 'depth'>;
+  targetTitle: string;
   eventId: string;
   onAttackSuccess: () => void;
 }
 
-export default function AttackDialog({ 
-  isOpen, 
-  onClose, 
-  artworkId, 
-  artworkTitle, 
+export default function AttackDialog({
+  isOpen,
+  onClose,
+  artworkId,
+  parentAttack,
+  targetTitle,
   eventId,
-  onAttackSuccess 
+  onAttackSuccess
 }: AttackDialogProps) {
   const { user } = useAuth();
-  const [description, setDescription] = useState('');
+  const rules = useScoringRules(eventId);
+  const [message, setMessage] = useState('');
+  const [title, setTitle] = useState('');
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [isAttacking, setIsAttacking] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  // A counter-artwork earns fight-back points instead of the plain attack
+  // points; counters add the chain bonus for their depth
+  const chainBonus = parentAttack ? (parentAttack.depth + 1) * rules.chain_depth_bonus_points : 0;
+  const attackPoints = (imageFile ? rules.fight_back_points : rules.attack_launched_points) + chainBonus;
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] ?? null;
+    setImageFile(null);
+    setImagePreview(null);
+
+    if (file) {
+      const problem = await validateImageFile(file);
+      if (problem) {
+        toast({
+          title: "Invalid image",
+          description: problem,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setImageFile(file);
+      const reader = new FileReader();
+      reader.onload = () => {
+        setImagePreview(reader.result as string);
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const resetForm = () => {
+    setMessage('');
+    setTitle('');
+    setImageFile(null);
+    setImagePreview(null);
+  };
 
   const handleAttack = async () => {
     if (!user) return;
 
+    if (imageFile && !title.trim()) {
+      toast({
+        title: "Missing information",
+        description: "Please give your counter-artwork a title",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsAttacking(true);
+    setProgress(0);
 
     try {
-      // Add attack interaction
-      const { error: interactionError } = await supabase
-        .from('artwork_interactions')
-        .insert({
-          artwork_id: artworkId,
-          user_id: user.id,
-          interaction_type: 'attack',
+      const launchAttack = async (image?: UploadedImage) => {
+        const { error } = await supabase.rpc('launch_attack', {
+          p_artwork_id: artworkId,
+          p_message: message.trim() || undefined,
+          p_title: image ? title.trim() : undefined,
+          p_image_url: image?.image_url,
+          p_thumbnail_url: image?.thumbnail_url,
+          p_medium_url: image?.medium_url,
+          p_image_width: image?.image_width,
+          p_image_height: image?.image_height,
+          p_blurhash: image?.blurhash,
+          p_perceptual_hash: image?.perceptual_hash,
+          p_parent_attack_id: parentAttack?.id,
         });
 
-      if (interactionError) throw interactionError;
+        if (error) throw new Error(error.message);
+      };
 
-      // Award 3 points to attacker
-      await supabase.rpc('update_user_points', {
-        p_user_id: user.id,
-        p_event_id: eventId,
-        p_attack_points: 3
-      });
+      // A counter-artwork's files are removed if the attack is rejected
+      if (imageFile) {
+        await uploadImage(imageFile, { bucket: 'fight-artworks', userId: user.id, onProgress: setProgress }, launchAttack);
+      } else {
+        await launchAttack();
+      }
 
       toast({
         title: "Attack successful!",
-        description: `You attacked "${artworkTitle}" and earned 3 points!`,
+        description: `You attacked "${targetTitle}" and earned ${formatPoints(attackPoints)}!`,
       });
 
-      setDescription('');
+      resetForm();
       onClose();
       onAttackSuccess();
     } catch (error) {
       console.error('Error attacking artwork:', error);
       toast({
         title: "Attack failed",
-        description: "Failed to attack this artwork. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to attack this artwork. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -75,17 +142,17 @@ export default function AttackDialog({
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent>
+      <DialogContent className="max-w-2xl">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Sword className="h-5 w-5 text-destructive" />
-            Attack Artwork
+            {parentAttack ? 'Counter' : 'Attack'} "{targetTitle}"
           </DialogTitle>
           <DialogDescription>
-            You're about to attack "{artworkTitle}"
+            Send a battle message, and optionally a counter-artwork that challenges {parentAttack ? 'this attack' : 'this piece'}
           </DialogDescription>
         </DialogHeader>
-        
+
         <div className="space-y-4">
           <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-lg">
             <div className="flex items-center gap-2 mb-2">
@@ -93,26 +160,63 @@ export default function AttackDialog({
               <span className="font-medium text-destructive">Battle Action</span>
             </div>
             <p className="text-sm text-muted-foreground">
-              Attacking will earn you 3 points and show your attack in the gallery thread.
+              An attack earns you {formatPoints(rules.attack_launched_points + chainBonus)}, or {formatPoints(rules.fight_back_points + chainBonus)} with a counter-artwork. It shows up in the artwork's battle tree.
             </p>
           </div>
 
           <div>
-            <Label htmlFor="attack-description">Attack Message (Optional)</Label>
+            <Label htmlFor="attack-message">Battle Message (Optional)</Label>
             <Textarea
-              id="attack-description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Add a battle message (optional)..."
+              id="attack-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Add a battle message..."
               rows={3}
+              maxLength={MAX_ATTACK_MESSAGE_LENGTH}
+              disabled={isAttacking}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="attack-image">Counter-Artwork (Optional)</Label>
+            <Input
+              id="attack-image"
+              type="file"
+              accept={ACCEPTED_IMAGE_TYPES.join(',')}
+              onChange={handleImageChange}
               disabled={isAttacking}
             />
           </div>
 
+          {imageFile && (
+            <div>
+              <Label htmlFor="attack-title">Counter-Artwork Title *</Label>
+              <Input
+                id="attack-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Give your counter-artwork a title..."
+                disabled={isAttacking}
+              />
+            </div>
+          )}
+
+          {imagePreview && (
+            <div className="aspect-square w-full max-w-sm mx-auto relative overflow-hidden rounded-lg">
+              <img
+                src={imagePreview}
+                alt="Counter-artwork preview"
+                className="w-full h-full object-cover"
+              />
+            </div>
+          )}
+
+          {isAttacking && imageFile && <Progress value={progress} />}
+
           <div className="flex gap-2 pt-4">
-            <Button 
+            <Button
               onClick={handleAttack}
-              disabled={isAttacking}
+              disabled={isAttacking || (!!imageFile && !title.trim())}
               variant="destructive"
               className="flex-1"
             >
@@ -122,17 +226,17 @@ export default function AttackDialog({
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
-                  Attacking...
+                  {imageFile ? `Uploading... ${progress}%` : 'Attacking...'}
                 </>
               ) : (
                 <>
                   <Sword className="h-4 w-4 mr-2" />
-                  Launch Attack (+3 pts)
+                  Launch Attack (+{attackPoints} pts)
                 </>
               )}
             </Button>
-            <Button 
-              variant="outline" 
+            <Button
+              variant="outline"
               onClick={onClose}
               disabled={isAttacking}
             >
@@ -143,4 +247,4 @@ export default function AttackDialog({
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
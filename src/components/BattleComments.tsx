@@ -0,0 +1,293 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { MessageSquare, Pencil, Reply, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type BattleCommentRow = Database['public']['Tables']['battle_comments']['Row'];
+
+interface BattleComment extends BattleCommentRow {
+  profiles: {
+    username: string;
+    display_name: string;
+  } | null;
+}
+
+interface BattleCommentsProps {
+  artworkId: string;
+  // Threads about an attack are kept apart from the artwork's own thread
+  attackId?: string;
+}
+
+// Mirrors the length check on battle_comments.body
+const MAX_COMMENT_LENGTH = 1000;
+
+export default function BattleComments({ artworkId, attackId }: BattleCommentsProps) {
+  const { user, hasRole } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [comments, setComments] = useState<BattleComment[]>([]);
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const isModerator = hasRole('moderator') || hasRole('admin');
+
+  const fetchComments = async () => {
+    setLoading(true);
+
+    let query = supabase
+      .from('battle_comments')
+      .select('*, profiles:author_id (username, display_name)')
+      .eq('artwork_id', artworkId)
+      .order('created_at', { ascending: true });
+
+    query = attackId ? query.eq('attack_id', attackId) : query.is('attack_id', null);
+
+    const { data, error } = await query;
+
+    if (error) {
+      toast({
+        title: "Error loading comments",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setComments(data || []);
+    }
+    setLoading(false);
+  };
+
+  const toggleOpen = () => {
+    if (!isOpen) {
+      fetchComments();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const postComment = async (body: string, parentId: string | null) => {
+    if (!user || !body.trim()) return false;
+
+    setSaving(true);
+    const { error } = await supabase.from('battle_comments').insert({
+      artwork_id: artworkId,
+      attack_id: attackId ?? null,
+      parent_id: parentId,
+      author_id: user.id,
+      body: body.trim(),
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error posting comment",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    fetchComments();
+    return true;
+  };
+
+  const submitComment = async () => {
+    if (await postComment(draft, null)) {
+      setDraft('');
+    }
+  };
+
+  const submitReply = async (parentId: string) => {
+    if (await postComment(replyDraft, parentId)) {
+      setReplyTo(null);
+      setReplyDraft('');
+    }
+  };
+
+  const startReply = (commentId: string) => {
+    setEditingId(null);
+    setReplyTo(commentId);
+    setReplyDraft('');
+  };
+
+  const startEdit = (comment: BattleComment) => {
+    setReplyTo(null);
+    setEditingId(comment.id);
+    setEditDraft(comment.body);
+  };
+
+  const saveEdit = async (commentId: string) => {
+    if (!editDraft.trim()) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('battle_comments')
+      .update({ body: editDraft.trim() })
+      .eq('id', commentId);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error editing comment",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setEditingId(null);
+      fetchComments();
+    }
+  };
+
+  const deleteComment = async (commentId: string) => {
+    if (!confirm('Delete this comment? Replies to it will be removed as well.')) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('battle_comments')
+      .delete()
+      .eq('id', commentId);
+
+    if (error) {
+      toast({
+        title: "Error deleting comment",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      fetchComments();
+    }
+  };
+
+  const repliesTo = (parentId: string | null) => comments.filter(comment => comment.parent_id === parentId);
+
+  const renderComment = (comment: BattleComment) => {
+    const isAuthor = comment.author_id === user?.id;
+
+    return (
+      <div key={comment.id} className="space-y-2">
+        <div className="text-sm">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">{comment.profiles?.display_name || 'Unknown Artist'}</span>
+            <span>{new Date(comment.created_at).toLocaleString()}</span>
+            {comment.updated_at !== comment.created_at && <span>(edited)</span>}
+          </div>
+
+          {editingId === comment.id ? (
+            <div className="space-y-2 mt-1">
+              <Textarea
+                value={editDraft}
+                onChange={(e) => setEditDraft(e.target.value)}
+                maxLength={MAX_COMMENT_LENGTH}
+                rows={2}
+                disabled={saving}
+              />
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => saveEdit(comment.id)} disabled={saving || !editDraft.trim()}>
+                  Save
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setEditingId(null)} disabled={saving}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="whitespace-pre-wrap break-words">{comment.body}</p>
+          )}
+
+          <div className="flex items-center gap-1">
+            {user && (
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => startReply(comment.id)}>
+                <Reply className="h-3 w-3 mr-1" />
+                Reply
+              </Button>
+            )}
+            {isAuthor && (
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => startEdit(comment)}>
+                <Pencil className="h-3 w-3 mr-1" />
+                Edit
+              </Button>
+            )}
+            {(isAuthor || isModerator) && (
+              <Button variant="ghost" size="sm" className="h-7 px-2 hover:text-destructive" onClick={() => deleteComment(comment.id)}>
+                <Trash2 className="h-3 w-3 mr-1" />
+                {isAuthor ? 'Delete' : 'Remove'}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {replyTo === comment.id && (
+          <div className="space-y-2 ml-4">
+            <Textarea
+              value={replyDraft}
+              onChange={(e) => setReplyDraft(e.target.value)}
+              placeholder="Write a reply..."
+              maxLength={MAX_COMMENT_LENGTH}
+              rows={2}
+              disabled={saving}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => submitReply(comment.id)} disabled={saving || !replyDraft.trim()}>
+                Reply
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setReplyTo(null)} disabled={saving}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {repliesTo(comment.id).length > 0 && (
+          <div className="ml-4 pl-3 border-l space-y-3">
+            {repliesTo(comment.id).map(renderComment)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <Button variant="ghost" size="sm" className="h-7 px-2 text-muted-foreground" onClick={toggleOpen}>
+        <MessageSquare className="h-4 w-4 mr-1" />
+        {isOpen ? 'Hide comments' : 'Comments'}
+        {isOpen && !loading && ` (${comments.length})`}
+      </Button>
+
+      {isOpen && (
+        loading ? (
+          <p className="text-sm text-muted-foreground">Loading comments...</p>
+        ) : (
+          <div className="space-y-3">
+            {repliesTo(null).map(renderComment)}
+
+            {user ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  placeholder={attackId ? 'Comment on this attack...' : 'Talk some trash...'}
+                  maxLength={MAX_COMMENT_LENGTH}
+                  rows={2}
+                  disabled={saving}
+                />
+                <Button size="sm" onClick={submitComment} disabled={saving || !draft.trim()}>
+                  Post
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Sign in to join the conversation</p>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Scale, Sword } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { AttackWithAttacker, childAttacks } from '@/lib/attacks';
+import { isDuelOpen } from '@/lib/duels';
+import BattleComments from './BattleComments';
+
+interface BattleTreeProps {
+  artworkId: string;
+  // Every attack on the artwork, counters included
+  attacks: AttackWithAttacker[];
+  onCounter: (attack: AttackWithAttacker) => void;
+}
+
+export default function BattleTree({ artworkId, attacks, onCounter }: BattleTreeProps) {
+  const { user } = useAuth();
+
+  const hasCountered = (attackId: string) => {
+    return childAttacks(attacks, attackId).some(counter => counter.attacker_id === user?.id);
+  };
+
+  const renderAttack = (attack: AttackWithAttacker) => {
+    const counters = childAttacks(attacks, attack.id);
+
+    return (
+      <div key={attack.id} className="space-y-1">
+        <div className="flex items-center gap-3">
+          {attack.image_url ? (
+            <img
+              src={attack.thumbnail_url ?? attack.image_url}
+              alt={attack.title ?? ''}
+              loading="lazy"
+              className="h-12 w-12 rounded object-cover"
+            />
+          ) : (
+            <div className="h-12 w-12 rounded bg-destructive/10 flex items-center justify-center">
+              <Sword className="h-4 w-4 text-destructive" />
+            </div>
+          )}
+          <div className="min-w-0 flex-1">
+            {attack.title && (
+              <p className="text-sm font-medium truncate">{attack.title}</p>
+            )}
+            {attack.message && (
+              <p className="text-sm text-muted-foreground line-clamp-2">{attack.message}</p>
+            )}
+            <p className="text-xs text-muted-foreground truncate">
+              {attack.profiles?.display_name || 'Unknown Artist'} • {new Date(attack.created_at).toLocaleDateString()}
+            </p>
+          </div>
+          {attack.duels && (
+            <Button variant="ghost" size="sm" className="h-7 px-2" asChild>
+              <Link to={`/duels/${attack.duels.id}`}>
+                <Scale className="h-3 w-3 mr-1" />
+                {isDuelOpen(attack.duels) ? 'Vote' : 'Duel'}
+              </Link>
+            </Button>
+          )}
+          {user && attack.attacker_id !== user.id && !hasCountered(attack.id) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 hover:text-destructive"
+              onClick={() => onCounter(attack)}
+            >
+              <Sword className="h-3 w-3 mr-1" />
+              Counter
+            </Button>
+          )}
+        </div>
+        <BattleComments artworkId={artworkId} attackId={attack.id} />
+
+        {counters.length > 0 && (
+          <div className="ml-4 pl-3 border-l space-y-2">
+            {counters.map(renderAttack)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      {childAttacks(attacks, null).map(renderAttack)}
+    </div>
+  );
+}
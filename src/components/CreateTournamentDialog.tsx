@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Swords } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { JOIN_POLICY_LABELS, JoinPolicy } from '@/lib/events';
+import { DEFAULT_TEAM_COLORS } from '@/lib/teams';
+import { NO_SEASON, Season } from '@/lib/seasons';
+import { TOURNAMENT_FORMAT_LABELS, TOURNAMENT_TEAM_COUNTS, TournamentFormat } from '@/lib/tournaments';
+
+interface CreateTournamentDialogProps {
+  seasons: Season[];
+  onCreated: () => void;
+}
+
+export default function CreateTournamentDialog({ seasons, onCreated }: CreateTournamentDialogProps) {
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<TournamentFormat>('single_elimination');
+  const [teamCount, setTeamCount] = useState(4);
+  const [creating, setCreating] = useState(false);
+
+  const createTournament = async (formData: FormData) => {
+    const seasonId = formData.get('tournament_season_id') as string;
+
+    setCreating(true);
+
+    // Teams are listed in seed order; the bracket and first-round events
+    // are built by the database
+    const { data: tournamentId, error } = await supabase.rpc('create_tournament', {
+      p_name: formData.get('tournament_name') as string,
+      p_description: formData.get('tournament_description') as string,
+      p_format: format,
+      p_theme: formData.get('tournament_theme') as string,
+      p_join_policy: formData.get('tournament_join_policy') as string,
+      p_start_time: new Date(formData.get('tournament_start_time') as string).toISOString(),
+      p_round_duration_minutes: parseInt(formData.get('tournament_round_duration') as string, 10) || 1440,
+      p_round_break_minutes: parseInt(formData.get('tournament_round_break') as string, 10) || 0,
+      p_season_id: seasonId && seasonId !== NO_SEASON ? seasonId : null,
+      p_teams: Array.from({ length: teamCount }, (_, index) => ({
+        name: formData.get(`tournament_team_name_${index}`) as string,
+        color: formData.get(`tournament_team_color_${index}`) as string,
+        avatar_url: formData.get(`tournament_team_avatar_${index}`) as string,
+      })),
+    });
+
+    setCreating(false);
+
+    if (error) {
+      toast({
+        title: "Error creating tournament",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Tournament created successfully" });
+    setIsOpen(false);
+    onCreated();
+    navigate(`/tournaments/${tournamentId}`);
+  };
+
+  // Double elimination needs a losers bracket to play in
+  const teamCounts = TOURNAMENT_TEAM_COUNTS.filter(count => format === 'single_elimination' || count >= 4);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Swords className="h-4 w-4" />
+          Create Tournament
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Create Tournament</DialogTitle>
+          <DialogDescription>
+            Every match is its own event. Winners advance automatically once both feeder events end.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            const formData = new FormData(e.target as HTMLFormElement);
+            createTournament(formData);
+          }}
+          className="space-y-4"
+        >
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="tournament_name">Tournament Name</Label>
+              <Input id="tournament_name" name="tournament_name" required />
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="tournament_description">Description</Label>
+              <Textarea id="tournament_description" name="tournament_description" required />
+            </div>
+            <div>
+              <Label htmlFor="tournament_theme">Theme</Label>
+              <Input id="tournament_theme" name="tournament_theme" required />
+            </div>
+            <div>
+              <Label htmlFor="tournament_format">Format</Label>
+              <Select
+                value={format}
+                onValueChange={(value) => {
+                  setFormat(value as TournamentFormat);
+                  setTeamCount(count => Math.max(count, value === 'double_elimination' ? 4 : 2));
+                }}
+              >
+                <SelectTrigger id="tournament_format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TOURNAMENT_FORMAT_LABELS) as TournamentFormat[]).map((option) => (
+                    <SelectItem key={option} value={option}>{TOURNAMENT_FORMAT_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="tournament_start_time">First Round Starts</Label>
+              <Input id="tournament_start_time" name="tournament_start_time" type="datetime-local" required />
+            </div>
+            <div>
+              <Label htmlFor="tournament_join_policy">First Round Joining</Label>
+              <Select name="tournament_join_policy" defaultValue="user_choice">
+                <SelectTrigger id="tournament_join_policy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(JOIN_POLICY_LABELS) as JoinPolicy[]).map((policy) => (
+                    <SelectItem key={policy} value={policy}>{JOIN_POLICY_LABELS[policy]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="tournament_round_duration">Match Length (minutes)</Label>
+              <Input id="tournament_round_duration" name="tournament_round_duration" type="number" min={1} defaultValue={1440} />
+            </div>
+            <div>
+              <Label htmlFor="tournament_round_break">Break Before Next Match (minutes)</Label>
+              <Input id="tournament_round_break" name="tournament_round_break" type="number" min={0} defaultValue={60} />
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="tournament_season_id">Season</Label>
+              <Select name="tournament_season_id" defaultValue={NO_SEASON}>
+                <SelectTrigger id="tournament_season_id">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SEASON}>No season</SelectItem>
+                  {seasons.map((season) => (
+                    <SelectItem key={season.id} value={season.id}>{season.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Separator />
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Teams, by seed</Label>
+              <Select value={String(teamCount)} onValueChange={(value) => setTeamCount(parseInt(value, 10))}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {teamCounts.map((count) => (
+                    <SelectItem key={count} value={String(count)}>{count} teams</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {Array.from({ length: teamCount }, (_, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                <div>
+                  <Label htmlFor={`tournament_team_name_${index}`}>Seed {index + 1}</Label>
+                  <Input id={`tournament_team_name_${index}`} name={`tournament_team_name_${index}`} required />
+                </div>
+                <div>
+                  <Label htmlFor={`tournament_team_avatar_${index}`}>Profile Picture URL</Label>
+                  <Input id={`tournament_team_avatar_${index}`} name={`tournament_team_avatar_${index}`} type="url" />
+                </div>
+                <Input
+                  name={`tournament_team_color_${index}`}
+                  type="color"
+                  defaultValue={DEFAULT_TEAM_COLORS[index % DEFAULT_TEAM_COLORS.length]}
+                  className="w-12 p-1"
+                  aria-label={`Seed ${index + 1} color`}
+                />
+              </div>
+            ))}
+          </div>
+          <Button type="submit" className="w-full" disabled={creating}>Create Tournament</Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
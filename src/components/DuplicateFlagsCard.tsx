@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Copy, ImageOff } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { DuplicateFlag, FlaggedImage, duplicateSimilarity } from '@/lib/duplicates';
+
+interface PendingFlag extends Pick<DuplicateFlag, 'id' | 'distance' | 'created_at'> {
+  events: { title: string } | null;
+  artwork: FlaggedImage | null;
+  attack: FlaggedImage | null;
+  matched_artwork: FlaggedImage | null;
+  matched_attack: FlaggedImage | null;
+}
+
+function FlaggedImagePreview({ image, label }: { image: FlaggedImage | null; label: string }) {
+  const src = image?.thumbnail_url ?? image?.image_url;
+
+  return (
+    <div className="flex items-center gap-3 min-w-0">
+      {src ? (
+        <img src={src} alt={image?.title ?? ''} loading="lazy" className="h-16 w-16 rounded object-cover" />
+      ) : (
+        <div className="h-16 w-16 rounded bg-muted flex items-center justify-center">
+          <ImageOff className="h-4 w-4 text-muted-foreground" />
+        </div>
+      )}
+      <div className="min-w-0">
+        <p className="text-xs uppercase text-muted-foreground">{label}</p>
+        <p className="font-medium truncate">{image?.title || 'Untitled'}</p>
+        <p className="text-sm text-muted-foreground truncate">by {image?.profiles?.display_name || 'Unknown Artist'}</p>
+      </div>
+    </div>
+  );
+}
+
+// Near-duplicate uploads waiting for a moderator to dismiss the flag or
+// remove the upload
+export default function DuplicateFlagsCard() {
+  const { user } = useAuth();
+  const [flags, setFlags] = useState<PendingFlag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  // Bumped to refetch after removing an upload, which drops all its flags
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchFlags = async () => {
+      const { data, error } = await supabase
+        .from('duplicate_flags')
+        .select(`
+          id,
+          distance,
+          created_at,
+          events (title),
+          artwork:artworks!duplicate_flags_artwork_id_fkey (id, title, image_url, thumbnail_url, profiles:user_id (display_name)),
+          attack:attacks!duplicate_flags_attack_id_fkey (id, title, image_url, thumbnail_url, profiles:attacker_id (display_name)),
+          matched_artwork:artworks!duplicate_flags_matched_artwork_id_fkey (id, title, image_url, thumbnail_url, profiles:user_id (display_name)),
+          matched_attack:attacks!duplicate_flags_matched_attack_id_fkey (id, title, image_url, thumbnail_url, profiles:attacker_id (display_name))
+        `)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error fetching duplicate flags:', error);
+        toast({ title: "Error fetching possible duplicates", variant: "destructive" });
+      } else {
+        setFlags((data || []) as PendingFlag[]);
+      }
+      setLoading(false);
+    };
+
+    fetchFlags();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshCount]);
+
+  const dismissFlag = async (flag: PendingFlag) => {
+    setReviewingId(flag.id);
+
+    const { error } = await supabase
+      .from('duplicate_flags')
+      .update({ status: 'dismissed', reviewed_by: user?.id, reviewed_at: new Date().toISOString() })
+      .eq('id', flag.id);
+
+    setReviewingId(null);
+
+    if (error) {
+      toast({ title: "Error dismissing flag", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    setFlags(current => current.filter(other => other.id !== flag.id));
+  };
+
+  // Removing the upload also removes its flags
+  const removeUpload = async (flag: PendingFlag) => {
+    setReviewingId(flag.id);
+
+    const { error } = flag.artwork
+      ? await supabase.from('artworks').delete().eq('id', flag.artwork.id)
+      : await supabase.from('attacks').delete().eq('id', flag.attack?.id ?? '');
+
+    setReviewingId(null);
+
+    if (error) {
+      toast({ title: "Error removing upload", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Upload removed" });
+    setRefreshCount(count => count + 1);
+  };
+
+  if (loading || flags.length === 0) return null;
+
+  return (
+    <Card className="border-destructive/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Copy className="h-5 w-5 text-destructive" />
+          Possible Duplicates
+          <Badge variant="destructive">{flags.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          These uploads look very similar to an earlier artwork or counter-artwork
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {flags.map((flag) => (
+          <div key={flag.id} className="flex flex-col gap-3 rounded-lg border p-3 md:flex-row md:items-center">
+            <div className="grid flex-1 gap-3 sm:grid-cols-2">
+              <FlaggedImagePreview image={flag.artwork ?? flag.attack} label={flag.artwork ? 'New artwork' : 'New counter-artwork'} />
+              <FlaggedImagePreview
+                image={flag.matched_artwork ?? flag.matched_attack}
+                label={flag.matched_artwork ? 'Earlier artwork' : 'Earlier counter-artwork'}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="text-right mr-2">
+                <p className="font-semibold">{duplicateSimilarity(flag.distance)}% similar</p>
+                <p className="text-xs text-muted-foreground">{flag.events?.title}</p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => dismissFlag(flag)} disabled={reviewingId === flag.id}>
+                Not a duplicate
+              </Button>
+              <Button variant="destructive" size="sm" onClick={() => removeUpload(flag)} disabled={reviewingId === flag.id}>
+                Remove upload
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
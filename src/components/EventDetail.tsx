@@ -10,6 +10,8 @@ import { toast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import EventGallery from './EventGallery';
 import ArtworkUpload from './ArtworkUpload';
+import { JOIN_POLICY_LABELS, JoinPolicy, areTeamChangesOpen, getCurrentTheme, isEventJoinable, isEventLive } from '@/lib/events';
+import { EventTeam, getTeamColor, sortTeams } from '@/lib/teams';
 
 interface Event {
   id: string;
@@ -21,15 +23,16 @@ interface Event {
   end_time: string;
   midway_time: string | null;
   status: string;
-  team_a_name: string;
-  team_a_pfp: string | null;
-  team_b_name: string;
-  team_b_pfp: string | null;
+  join_policy: JoinPolicy;
+  max_team_size: number | null;
+  team_change_grace_minutes: number;
+  judged: boolean;
+  require_process_media: boolean;
 }
 
 interface Participant {
   user_id: string;
-  team: 'A' | 'B';
+  team_id: string;
   profiles: {
     display_name: string;
     username: string;
@@ -41,13 +44,14 @@ export default function EventDetail() {
   const navigate = useNavigate();
   const { user } = useAuth();
   const [event, setEvent] = useState<Event | null>(null);
+  const [teams, setTeams] = useState<EventTeam[]>([]);
   const [participants, setParticipants] = useState<Participant[]>([]);
-  const [userParticipation, setUserParticipation] = useState<'A' | 'B' | null>(null);
+  const [userParticipation, setUserParticipation] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [joining, setJoining] = useState(false);
-  const [teamPoints, setTeamPoints] = useState<{ teamA: number; teamB: number }>({ teamA: 0, teamB: 0 });
+  const [teamPoints, setTeamPoints] = useState<Record<string, number>>({});
 
-  const joinEvent = async () => {
+  const joinEvent = async (teamId?: string) => {
     if (!user) {
       toast({
         title: "Cannot join event",
@@ -59,7 +63,7 @@ export default function EventDetail() {
 
     if (!event) return;
 
-    if (event.status !== 'upcoming' && event.status !== 'ongoing') {
+    if (!isEventJoinable(event.status)) {
       toast({
         title: "Cannot join event",
         description: "This event is no longer accepting participants",
@@ -71,32 +75,24 @@ export default function EventDetail() {
     setJoining(true);
 
     try {
-      // Count current participants for each team
-      const teamACounts = participants.filter(p => p.team === 'A').length;
-      const teamBCounts = participants.filter(p => p.team === 'B').length;
-      
-      // Assign to team with fewer members (balanced assignment)
-      const assignedTeam = teamACounts <= teamBCounts ? 'A' : 'B';
-
-      const { error } = await supabase
-        .from('event_participants')
-        .insert({
-          user_id: user.id,
-          event_id: event.id,
-          team: assignedTeam,
-        });
+      // The database picks or checks the team according to the join policy
+      const { data: assignedTeamId, error } = await supabase.rpc('join_event', {
+        p_event_id: event.id,
+        p_team_id: teamId,
+      });
 
-      if (error) throw error;
+      if (error) throw new Error(error.message);
 
       // Update local state
-      setUserParticipation(assignedTeam);
+      setUserParticipation(assignedTeamId);
       
       // Refresh participants list
       await fetchParticipants();
 
+      const assignedTeam = teams.find(team => team.id === assignedTeamId);
       toast({
         title: "Success!",
-        description: `You've been added to Team ${assignedTeam}: ${assignedTeam === 'A' ? event.team_a_name : event.team_b_name}`,
+        description: `You've been added to Team ${assignedTeam?.name}`,
       });
     } catch (error) {
       console.error('Error joining event:', error);
@@ -110,50 +106,112 @@ export default function EventDetail() {
     }
   };
 
+  const leaveEvent = async () => {
+    if (!event) return;
+
+    if (!confirm('Leave this event? Your artworks will be withdrawn from it and no longer count for your team.')) {
+      return;
+    }
+
+    setJoining(true);
+
+    const { error } = await supabase.rpc('leave_event', {
+      p_event_id: event.id,
+    });
+
+    if (error) {
+      toast({
+        title: "Error leaving event",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setUserParticipation(null);
+      await fetchParticipants();
+      fetchTeamPoints();
+      toast({
+        title: "You left the event",
+        description: "You can join again while the event is open",
+      });
+    }
+    setJoining(false);
+  };
+
+  const switchTeam = async (team: EventTeam) => {
+    if (!event) return;
+
+    setJoining(true);
+
+    const { error } = await supabase.rpc('switch_team', {
+      p_event_id: event.id,
+      p_team_id: team.id,
+    });
+
+    if (error) {
+      toast({
+        title: "Error switching team",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setUserParticipation(team.id);
+      await fetchParticipants();
+      fetchTeamPoints();
+      toast({
+        title: "Team switched",
+        description: `You're now on Team ${team.name}. Your artworks and points came with you.`,
+      });
+    }
+    setJoining(false);
+  };
+
   useEffect(() => {
     if (eventId) {
       fetchEvent();
+      fetchTeams();
       fetchParticipants();
       fetchTeamPoints();
     }
   }, [eventId]);
 
-  const fetchTeamPoints = async () => {
+  const fetchTeams = async () => {
     if (!eventId) return;
 
-    try {
-      // Get all user points for this event
-      const { data: userPoints, error: pointsError } = await supabase
-        .from('user_points')
-        .select('user_id, points_total')
-        .eq('event_id', eventId);
+    const { data, error } = await supabase
+      .from('event_teams')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('position');
+
+    if (error) {
+      console.error('Error fetching teams:', error);
+    } else {
+      setTeams(data || []);
+    }
+  };
 
-      if (pointsError) throw pointsError;
+  const fetchTeamPoints = async () => {
+    if (!eventId) return;
 
-      // Get all participants to know which team they're on
-      const { data: participants, error: participantsError } = await supabase
-        .from('event_participants')
-        .select('user_id, team')
+    try {
+      // Team totals are summed by the database, judge points included once a
+      // judged event has ended
+      const { data, error } = await supabase
+        .from('leaderboard_event_teams')
+        .select('team_id, points')
         .eq('event_id', eventId);
 
-      if (participantsError) throw participantsError;
+      if (error) throw error;
 
-      // Calculate team totals
-      let teamATotal = 0;
-      let teamBTotal = 0;
+      const totals: Record<string, number> = {};
 
-      participants?.forEach(participant => {
-        const userPoint = userPoints?.find(p => p.user_id === participant.user_id);
-        const points = userPoint?.points_total || 0;
-        
-        if (participant.team === 'A') {
-          teamATotal += points;
-        } else {
-          teamBTotal += points;
+      data?.forEach(team => {
+        if (team.team_id) {
+          totals[team.team_id] = team.points ?? 0;
         }
       });
 
-      setTeamPoints({ teamA: teamATotal, teamB: teamBTotal });
+      setTeamPoints(totals);
     } catch (error) {
       console.error('Error fetching team points:', error);
     }
@@ -175,7 +233,7 @@ export default function EventDetail() {
       if (error) throw error;
       
       if (data) {
-        setEvent(data);
+        setEvent(data as Event);
       } else {
         toast({
           title: "Event not found",
@@ -204,7 +262,7 @@ export default function EventDetail() {
       // First, get all participants for the event
       const { data: participantsData, error: participantsError } = await supabase
         .from('event_participants')
-        .select('user_id, team')
+        .select('user_id, team_id')
         .eq('event_id', eventId);
 
       if (participantsError) throw participantsError;
@@ -231,7 +289,7 @@ export default function EventDetail() {
       // Combine the data
       const participantsWithProfiles = participantsData.map(participant => ({
         user_id: participant.user_id,
-        team: participant.team,
+        team_id: participant.team_id,
         profiles: profilesMap.get(participant.user_id) || null
       }));
 
@@ -240,7 +298,7 @@ export default function EventDetail() {
       // Check if current user is already participating
       if (user) {
         const userParticipant = participantsData.find(p => p.user_id === user.id);
-        setUserParticipation(userParticipant?.team as 'A' | 'B' || null);
+        setUserParticipation(userParticipant?.team_id || null);
       }
     } catch (error) {
       console.error('Error fetching participants:', error);
@@ -257,33 +315,9 @@ export default function EventDetail() {
   const canUploadArtwork = () => {
     if (!event || !userParticipation) return false;
     
-    // Can upload if event is ongoing and midway theme is revealed (if it exists)
-    if (event.status !== 'ongoing') return false;
-    
-    // If there's a midway time, check if it has passed
-    if (event.midway_time) {
-      const midwayTime = new Date(event.midway_time);
-      const now = new Date();
-      return now >= midwayTime;
-    }
-    
-    // If no midway time, can upload immediately when event starts
-    return true;
-  };
-
-  const getCurrentTheme = () => {
-    if (!event) return '';
-    
-    if (event.midway_time && event.midway_theme) {
-      const midwayTime = new Date(event.midway_time);
-      const now = new Date();
-      
-      if (now >= midwayTime) {
-        return event.midway_theme;
-      }
-    }
-    
-    return event.theme;
+    // Uploads are open for the whole event; the database tags each artwork
+    // with the theme phase it was submitted in
+    return isEventLive(event.status);
   };
 
   if (loading) {
@@ -309,8 +343,8 @@ export default function EventDetail() {
     );
   }
 
-  const teamAParticipants = participants.filter(p => p.team === 'A');
-  const teamBParticipants = participants.filter(p => p.team === 'B');
+  const orderedTeams = sortTeams(teams);
+  const teamChangesOpen = areTeamChangesOpen(event);
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -329,15 +363,30 @@ export default function EventDetail() {
             <div>
               <CardTitle className="text-2xl flex items-center gap-2">
                 {event.title}
-                <Badge variant={event.status === 'upcoming' ? 'default' : event.status === 'ongoing' ? 'destructive' : 'secondary'}>
+                <Badge variant={event.status === 'upcoming' ? 'default' : isEventLive(event.status) ? 'destructive' : 'secondary'}>
                   {event.status}
                 </Badge>
               </CardTitle>
               <CardDescription className="mt-2">{event.description}</CardDescription>
             </div>
-            {!userParticipation && (event.status === 'upcoming' || event.status === 'ongoing') && (
-              <Button onClick={joinEvent} disabled={joining}>
-                {joining ? 'Joining...' : 'Join Event'}
+            {!userParticipation && isEventJoinable(event.status) && (
+              event.join_policy === 'auto_balance' || event.join_policy === 'invite_only' ? (
+                <Button onClick={() => joinEvent()} disabled={joining}>
+                  {joining ? 'Joining...' : 'Join Event'}
+                </Button>
+              ) : (
+                <Badge variant="outline">{JOIN_POLICY_LABELS[event.join_policy]}</Badge>
+              )
+            )}
+            {userParticipation && teamChangesOpen && (
+              <Button variant="outline" onClick={leaveEvent} disabled={joining}>
+                Leave Event
+              </Button>
+            )}
+            {event.status === 'ended' && (
+              <Button onClick={() => navigate(`/events/${event.id}/results`)}>
+                <Trophy className="h-4 w-4 mr-2" />
+                Final Results
               </Button>
             )}
           </div>
@@ -365,56 +414,74 @@ export default function EventDetail() {
               )}
               <div>
                 <span className="font-medium text-sm">Current Theme:</span>
-                <span className="ml-2 text-sm font-semibold text-primary">{getCurrentTheme()}</span>
+                <span className="ml-2 text-sm font-semibold text-primary">{getCurrentTheme(event)}</span>
               </div>
             </div>
 
             {/* Teams */}
             <div className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
-                <Card className="border-2 border-primary/20">
-                  <CardContent className="p-4 text-center">
-                    <h3 className="font-semibold text-primary">{event.team_a_name}</h3>
-                    <div className="flex items-center justify-center gap-1 mt-2">
-                      <Users className="h-4 w-4" />
-                      <span className="text-sm">{teamAParticipants.length} members</span>
-                    </div>
-                    <div className="flex items-center justify-center gap-1 mt-1">
-                      <Trophy className="h-4 w-4 text-primary" />
-                      <span className="text-sm font-semibold">{teamPoints.teamA} points</span>
-                    </div>
-                    {userParticipation === 'A' && (
-                      <Badge variant="default" className="mt-2">Your Team</Badge>
-                    )}
-                  </CardContent>
-                </Card>
-                <Card className="border-2 border-accent/20">
-                  <CardContent className="p-4 text-center">
-                    <h3 className="font-semibold text-accent">{event.team_b_name}</h3>
-                    <div className="flex items-center justify-center gap-1 mt-2">
-                      <Users className="h-4 w-4" />
-                      <span className="text-sm">{teamBParticipants.length} members</span>
-                    </div>
-                    <div className="flex items-center justify-center gap-1 mt-1">
-                      <Trophy className="h-4 w-4 text-accent" />
-                      <span className="text-sm font-semibold">{teamPoints.teamB} points</span>
-                    </div>
-                    {userParticipation === 'B' && (
-                      <Badge variant="secondary" className="mt-2">Your Team</Badge>
-                    )}
-                  </CardContent>
-                </Card>
+                {orderedTeams.map((team) => {
+                  const color = getTeamColor(team);
+                  const memberCount = participants.filter(p => p.team_id === team.id).length;
+                  const isFull = event.max_team_size !== null && memberCount >= event.max_team_size;
+
+                  return (
+                    <Card key={team.id} className="border-2" style={{ borderColor: `${color}33` }}>
+                      <CardContent className="p-4 text-center">
+                        {team.avatar_url && (
+                          <img src={team.avatar_url} alt={team.name} className="h-10 w-10 rounded-full object-cover mx-auto mb-2" />
+                        )}
+                        <h3 className="font-semibold" style={{ color }}>{team.name}</h3>
+                        <div className="flex items-center justify-center gap-1 mt-2">
+                          <Users className="h-4 w-4" />
+                          <span className="text-sm">
+                            {memberCount}{event.max_team_size !== null && ` / ${event.max_team_size}`} members
+                          </span>
+                        </div>
+                        <div className="flex items-center justify-center gap-1 mt-1">
+                          <Trophy className="h-4 w-4" style={{ color }} />
+                          <span className="text-sm font-semibold">{teamPoints[team.id] || 0} points</span>
+                        </div>
+                        {userParticipation === team.id && (
+                          <Badge variant="default" className="mt-2">Your Team</Badge>
+                        )}
+                        {!userParticipation && event.join_policy === 'user_choice' && isEventJoinable(event.status) && (
+                          <Button
+                            size="sm"
+                            className="mt-2"
+                            onClick={() => joinEvent(team.id)}
+                            disabled={joining || isFull}
+                          >
+                            {isFull ? 'Full' : 'Join'}
+                          </Button>
+                        )}
+                        {userParticipation && userParticipation !== team.id && teamChangesOpen && event.join_policy !== 'admin_assign' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="mt-2"
+                            onClick={() => switchTeam(team)}
+                            disabled={joining || isFull}
+                          >
+                            {isFull ? 'Full' : 'Switch'}
+                          </Button>
+                        )}
+                      </CardContent>
+                    </Card>
+                  );
+                })}
               </div>
             </div>
           </div>
 
-          {/* Artwork Upload Message */}
-          {userParticipation && !canUploadArtwork() && event.status === 'ongoing' && event.midway_time && (
+          {/* Midway Theme Message */}
+          {canUploadArtwork() && event.status === 'ongoing' && event.midway_theme && event.midway_time && (
             <div className="mt-6 pt-6 border-t">
               <Card className="border-accent/20 bg-accent/5">
                 <CardContent className="p-4 text-center">
                   <p className="text-sm text-muted-foreground">
-                    Artwork uploads will be available after the midway theme is revealed
+                    A midway theme will be revealed later. Artworks submitted after it count toward the midway theme
                   </p>
                   <p className="text-xs text-muted-foreground mt-1">
                     Midway time: {new Date(event.midway_time).toLocaleString()}
@@ -433,7 +500,8 @@ export default function EventDetail() {
             <ArtworkUpload
               eventId={event.id}
               eventTitle={event.title}
-              currentTheme={event.midway_theme || event.theme}
+              currentTheme={getCurrentTheme(event)}
+              requireProcessMedia={event.require_process_media}
               onArtworkUploaded={() => {
                 fetchTeamPoints();
               }}
@@ -442,40 +510,35 @@ export default function EventDetail() {
         )}
         
         <Tabs defaultValue="all" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
-            <TabsTrigger value="all">All Artworks</TabsTrigger>
-            <TabsTrigger value="team-a">Team {event.team_a_name}</TabsTrigger>
-            <TabsTrigger value="team-b">Team {event.team_b_name}</TabsTrigger>
+          <TabsList className="flex flex-wrap h-auto w-full">
+            <TabsTrigger value="all" className="flex-1">All Artworks</TabsTrigger>
+            {orderedTeams.map((team) => (
+              <TabsTrigger key={team.id} value={team.id} className="flex-1">Team {team.name}</TabsTrigger>
+            ))}
           </TabsList>
           
           <TabsContent value="all">
             <EventGallery
               eventId={event.id}
               eventTitle={event.title}
-              teamAName={event.team_a_name}
-              teamBName={event.team_b_name}
+              eventStatus={event.status}
+              judged={event.judged}
+              teams={orderedTeams}
             />
           </TabsContent>
           
-          <TabsContent value="team-a">
-            <EventGallery
-              eventId={event.id}
-              eventTitle={event.title}
-              teamAName={event.team_a_name}
-              teamBName={event.team_b_name}
-              teamFilter="A"
-            />
-          </TabsContent>
-          
-          <TabsContent value="team-b">
-            <EventGallery
-              eventId={event.id}
-              eventTitle={event.title}
-              teamAName={event.team_a_name}
-              teamBName={event.team_b_name}
-              teamFilter="B"
-            />
-          </TabsContent>
+          {orderedTeams.map((team) => (
+            <TabsContent key={team.id} value={team.id}>
+              <EventGallery
+                eventId={event.id}
+                eventTitle={event.title}
+                eventStatus={event.status}
+                judged={event.judged}
+                teams={orderedTeams}
+                teamFilter={team.id}
+              />
+            </TabsContent>
+          ))}
         </Tabs>
       </div>
     </div>
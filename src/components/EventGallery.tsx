@@ -1,52 +1,53 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Heart, User, Trophy, Upload, Sword, MessageCircle } from 'lucide-react';
+import { Heart, User, Trophy, Upload, Sword, MessageCircle, Gavel } from 'lucide-react';
 import ArtworkUpload from './ArtworkUpload';
-import AttackArtworkDialog from './AttackArtworkDialog';
+import AttackDialog from './AttackDialog';
+import JudgeScoreDialog from './JudgeScoreDialog';
 import { toast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-
-interface Artwork {
+import { formatPoints, useScoringRules } from '@/hooks/useScoringRules';
+import { Attack, AttackWithAttacker } from '@/lib/attacks';
+import { THEME_PHASE_LABELS, ThemePhase } from '@/lib/events';
+import { EventTeam } from '@/lib/teams';
+import { JudgeScore, JudgingCriterion, artworkJudgePoints, sortCriteria } from '@/lib/judging';
+import { leadingTeamId } from '@/lib/results';
+import { ProfileAchievements, unlockedBadges } from '@/lib/achievements';
+import { ARTWORK_CARD_SIZES, ResponsiveImage } from '@/lib/images';
+import TeamBadge from './TeamBadge';
+import AchievementBadges from './AchievementBadges';
+import ArtworkImage from './ArtworkImage';
+import BattleComments from './BattleComments';
+import BattleTree from './BattleTree';
+
+interface Artwork extends ResponsiveImage {
   id: string;
   title: string;
   description: string | null;
-  image_url: string;
   likes_count: number;
   attacks_count: number;
   created_at: string;
   user_id: string;
-  profiles: {
+  theme_phase: ThemePhase;
+  profiles: ({
     username: string;
     display_name: string;
-  } | null;
+  } & ProfileAchievements) | null;
   event_participants: {
-    team: 'A' | 'B';
+    team_id: string;
   }[] | null;
 }
 
 interface Interaction {
   artwork_id: string;
-  interaction_type: 'like' | 'attack';
-}
-
-interface FightArtwork {
-  id: string;
-  title: string;
-  image_url: string;
-  target_artwork_id: string;
-  attacker_id: string;
-  created_at: string;
-  profiles: {
-    username: string;
-    display_name: string;
-  } | null;
+  interaction_type: 'like';
 }
 
 interface TeamScore {
-  team: 'A' | 'B';
   totalPoints: number;
   memberCount: number;
 }
@@ -54,34 +55,48 @@ interface TeamScore {
 interface EventGalleryProps {
   eventId: string;
   eventTitle: string;
-  teamAName: string;
-  teamBName: string;
-  teamFilter?: 'A' | 'B';
+  eventStatus: string;
+  judged: boolean;
+  teams: EventTeam[];
+  teamFilter?: string;
 }
 
-export default function EventGallery({ eventId, eventTitle, teamAName, teamBName, teamFilter }: EventGalleryProps) {
-  const { user } = useAuth();
+export default function EventGallery({ eventId, eventTitle, eventStatus, judged, teams, teamFilter }: EventGalleryProps) {
+  const { user, hasRole } = useAuth();
+  const rules = useScoringRules(eventId);
   const [artworks, setArtworks] = useState<Artwork[]>([]);
   const [interactions, setInteractions] = useState<Interaction[]>([]);
-  const [teamScores, setTeamScores] = useState<TeamScore[]>([]);
-  const [fightArtworks, setFightArtworks] = useState<FightArtwork[]>([]);
+  const [teamScores, setTeamScores] = useState<Record<string, TeamScore>>({});
+  const [finalWinnerId, setFinalWinnerId] = useState<string | null>(null);
+  const [attacks, setAttacks] = useState<AttackWithAttacker[]>([]);
   const [loading, setLoading] = useState(true);
   const [attackDialog, setAttackDialog] = useState<{
     isOpen: boolean;
     artworkId: string;
-    artworkTitle: string;
+    parentAttack?: Pick<Attack, 'id' | 'depth'>;
+    targetTitle: string;
   }>({
     isOpen: false,
     artworkId: '',
-    artworkTitle: '',
+    targetTitle: '',
   });
+  const [criteria, setCriteria] = useState<JudgingCriterion[]>([]);
+  const [judgeScores, setJudgeScores] = useState<Pick<JudgeScore, 'artwork_id' | 'criterion_id' | 'judge_id' | 'score'>[]>([]);
+  const [judgeTarget, setJudgeTarget] = useState<{ artworkId: string; title: string } | null>(null);
+
+  const isJudge = judged && hasRole('judge') && eventStatus !== 'ended';
+  const showJudgePoints = judged && eventStatus === 'ended';
 
   useEffect(() => {
     fetchArtworks();
-    fetchFightArtworks();
+    fetchAttacks();
+    fetchTeamScores();
     if (user) {
       fetchInteractions();
     }
+    if (judged) {
+      fetchJudging();
+    }
   }, [eventId, user]);
 
   const fetchArtworks = async () => {
@@ -92,9 +107,10 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
         .from('artworks')
         .select(`
           *,
-          profiles:user_id (username, display_name)
+          profiles:user_id (username, display_name, user_achievements (achievements (id, name, description, icon, position)))
         `)
         .eq('event_id', eventId)
+        .is('withdrawn_at', null)
         .order('created_at', { ascending: false });
 
       if (artworksError) throw artworksError;
@@ -111,7 +127,7 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
       // Fetch team information for all users in one query
       const { data: participantsData, error: participantsError } = await supabase
         .from('event_participants')
-        .select('user_id, team')
+        .select('user_id, team_id')
         .eq('event_id', eventId)
         .in('user_id', userIds);
 
@@ -120,21 +136,21 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
       // Create a map of user_id to team
       const userTeamMap = new Map();
       participantsData?.forEach(participant => {
-        userTeamMap.set(participant.user_id, participant.team);
+        userTeamMap.set(participant.user_id, participant.team_id);
       });
 
       // Combine the data
       const artworksWithTeams = artworksData.map(artwork => ({
         ...artwork,
         event_participants: userTeamMap.has(artwork.user_id) 
-          ? [{ team: userTeamMap.get(artwork.user_id) }] 
+          ? [{ team_id: userTeamMap.get(artwork.user_id) }] 
           : null
       }));
 
       // Apply team filter if specified
       const filteredArtworks = teamFilter
         ? artworksWithTeams.filter(artwork => 
-            artwork.event_participants?.some(p => p.team === teamFilter)
+            artwork.event_participants?.some(p => p.team_id === teamFilter)
           )
         : artworksWithTeams;
 
@@ -158,7 +174,8 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
       const { data, error } = await supabase
         .from('artwork_interactions')
         .select('artwork_id, interaction_type')
-        .eq('user_id', user.id);
+        .eq('user_id', user.id)
+        .eq('interaction_type', 'like');
 
       if (error) {
         console.error('Error fetching interactions:', error);
@@ -171,9 +188,11 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
   };
 
   const fetchTeamScores = async () => {
+    // Team totals are summed by the database, judge points included once a
+    // judged event has ended
     const { data, error } = await supabase
-      .from('user_points')
-      .select('*')
+      .from('leaderboard_event_teams')
+      .select('team_id, points, members')
       .eq('event_id', eventId);
 
     if (error) {
@@ -181,71 +200,78 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
       return;
     }
 
-    // Get team participants
-    const { data: participants, error: participantsError } = await supabase
-      .from('event_participants')
-      .select('user_id, team')
-      .eq('event_id', eventId);
+    const scores: Record<string, TeamScore> = {};
 
-    if (participantsError) {
-      console.error('Error fetching participants:', participantsError);
-      return;
-    }
+    data?.forEach(team => {
+      if (team.team_id) {
+        scores[team.team_id] = {
+          totalPoints: team.points ?? 0,
+          memberCount: team.members ?? 0,
+        };
+      }
+    });
 
-    // Calculate team scores
-    const teamA = { team: 'A' as const, totalPoints: 0, memberCount: 0 };
-    const teamB = { team: 'B' as const, totalPoints: 0, memberCount: 0 };
+    setTeamScores(scores);
 
-    participants?.forEach(participant => {
-      const userPoints = data?.find(p => p.user_id === participant.user_id);
-      const points = userPoints?.points_total || 0;
-      
-      if (participant.team === 'A') {
-        teamA.totalPoints += points;
-        teamA.memberCount++;
-      } else {
-        teamB.totalPoints += points;
-        teamB.memberCount++;
+    if (eventStatus === 'ended') {
+      const { data: results, error: resultsError } = await supabase
+        .from('event_results')
+        .select('winning_team_id')
+        .eq('event_id', eventId)
+        .maybeSingle();
+
+      if (resultsError) {
+        console.error('Error fetching event results:', resultsError);
+        return;
       }
-    });
 
-    setTeamScores([teamA, teamB]);
+      setFinalWinnerId(results?.winning_team_id ?? null);
+    }
   };
 
-  const fetchFightArtworks = async () => {
-    try {
-      // First get fight artworks
-      const { data: fightData, error } = await supabase
-        .from('fight_artworks')
-        .select('*')
-        .order('created_at', { ascending: false });
+  // Until the event ends judges only get their own scores back
+  const fetchJudging = async () => {
+    const { data: criteriaData, error: criteriaError } = await supabase
+      .from('judging_criteria')
+      .select('*')
+      .eq('event_id', eventId);
 
-      if (error) throw error;
+    if (criteriaError) {
+      console.error('Error fetching judging criteria:', criteriaError);
+      return;
+    }
 
-      if (!fightData || fightData.length === 0) {
-        setFightArtworks([]);
-        return;
-      }
+    const { data: scoresData, error: scoresError } = await supabase
+      .from('judge_scores')
+      .select('artwork_id, criterion_id, judge_id, score')
+      .eq('event_id', eventId);
 
-      // Get attacker profiles
-      const attackerIds = fightData.map(f => f.attacker_id);
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('id, username, display_name')
-        .in('id', attackerIds);
+    if (scoresError) {
+      console.error('Error fetching judge scores:', scoresError);
+      return;
+    }
 
-      if (profilesError) throw profilesError;
+    setCriteria(sortCriteria(criteriaData || []));
+    setJudgeScores(scoresData || []);
+  };
 
-      // Combine data
-      const profilesMap = new Map(profilesData?.map(p => [p.id, p]) || []);
-      const fightsWithProfiles = fightData.map(fight => ({
-        ...fight,
-        profiles: profilesMap.get(fight.attacker_id) || null
-      }));
+  const myJudgeScores = (artworkId: string) => {
+    return judgeScores.filter(score => score.artwork_id === artworkId && score.judge_id === user?.id);
+  };
+
+  const fetchAttacks = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('attacks')
+        .select('*, profiles:attacker_id (username, display_name), duels (id, closes_at, resolved_at, winner)')
+        .eq('event_id', eventId)
+        .order('created_at', { ascending: true });
 
-      setFightArtworks(fightsWithProfiles as FightArtwork[]);
+      if (error) throw error;
+
+      setAttacks(data || []);
     } catch (error) {
-      console.error('Error fetching fight artworks:', error);
+      console.error('Error fetching attacks:', error);
     }
   };
 
@@ -259,53 +285,14 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
       return;
     }
 
-    try {
-      // Add 3 points to the user's score for uploading artwork
-      const { data: currentPoints, error: fetchError } = await supabase
-        .from('user_points')
-        .select('artwork_points, points_total')
-        .eq('user_id', user.id)
-        .eq('event_id', eventId)
-        .single();
-
-      // Handle the case where the user doesn't have points record yet
-      const currentArtworkPoints = currentPoints?.artwork_points || 0;
-      const currentTotalPoints = currentPoints?.points_total || 0;
-
-      // Update user points with the new artwork points
-      const { error: updateError } = await supabase
-        .from('user_points')
-        .upsert({
-          user_id: user.id,
-          event_id: eventId,
-          artwork_points: currentArtworkPoints + 3, // 3 points for uploading artwork
-          points_total: currentTotalPoints + 3,
-          updated_at: new Date().toISOString()
-        }, {
-          onConflict: 'user_id,event_id'
-        });
-
-      if (updateError) throw updateError;
+    // Points for the submission are awarded by the database ledger
+    setArtworks(prev => [newArtwork, ...prev] as Artwork[]);
+    await fetchTeamScores();
 
-      // Add the new artwork to the local state
-      setArtworks(prev => [newArtwork, ...prev] as Artwork[]);
-      
-      // Refresh team scores to reflect the new points
-      await fetchTeamScores();
-      
-      // Show success message
-      toast({
-        title: 'Artwork uploaded!',
-        description: 'Your artwork has been submitted successfully. +3 points awarded!',
-      });
-    } catch (error) {
-      console.error('Error handling upload success:', error);
-      toast({
-        title: 'Error',
-        description: 'Failed to update points. Your artwork was uploaded, but points may not have been awarded.',
-        variant: 'destructive',
-      });
-    }
+    toast({
+      title: 'Artwork uploaded!',
+      description: 'Your artwork has been submitted successfully.',
+    });
   };
 
   const handleLikeToggle = async (artworkId: string) => {
@@ -334,16 +321,16 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
     // Get user's team
     const { data: userParticipant } = await supabase
       .from('event_participants')
-      .select('team')
+      .select('team_id')
       .eq('user_id', user.id)
       .eq('event_id', eventId)
       .single();
 
     // Get artwork owner's team
-    const artworkTeam = artwork.event_participants?.[0]?.team;
+    const artworkTeam = artwork.event_participants?.[0]?.team_id;
 
     // Prevent user from liking artwork from their own team
-    if (userParticipant?.team && artworkTeam && userParticipant.team === artworkTeam) {
+    if (userParticipant?.team_id && artworkTeam && userParticipant.team_id === artworkTeam) {
       toast({
         title: "Not allowed",
         description: "You cannot like artwork from your own team",
@@ -379,32 +366,6 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
             : artwork
         ));
 
-        // Remove like points from artwork owner
-        const artwork = artworks.find(a => a.id === artworkId);
-        if (artwork) {
-          const { data: existingPoints } = await supabase
-            .from('user_points')
-            .select('like_points, points_total')
-            .eq('user_id', artwork.user_id)
-            .eq('event_id', eventId)
-            .single();
-
-          if (existingPoints) {
-            const { error: pointsError } = await supabase
-              .from('user_points')
-              .update({
-                like_points: Math.max(0, existingPoints.like_points - 1),
-                points_total: Math.max(0, existingPoints.points_total - 1)
-              })
-              .eq('user_id', artwork.user_id)
-              .eq('event_id', eventId);
-
-            if (pointsError) {
-              console.error('Error updating like points:', pointsError);
-            }
-          }
-        }
-
         toast({
           title: "Unliked",
           description: "You unliked this artwork",
@@ -431,42 +392,13 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
             : artwork
         ));
 
-        // Add like points to artwork owner (+1 point)
-        const artwork = artworks.find(a => a.id === artworkId);
-        if (artwork) {
-          const { data: existingPoints } = await supabase
-            .from('user_points')
-            .select('like_points, points_total')
-            .eq('user_id', artwork.user_id)
-            .eq('event_id', eventId)
-            .single();
-
-          const currentLikePoints = existingPoints?.like_points || 0;
-          const currentTotal = existingPoints?.points_total || 0;
-
-          const { error: likePointsError } = await supabase
-            .from('user_points')
-            .upsert({
-              user_id: artwork.user_id,
-              event_id: eventId,
-              like_points: currentLikePoints + 1,
-              points_total: currentTotal + 1
-            }, {
-              onConflict: 'user_id,event_id'
-            });
-
-          if (likePointsError) {
-            console.error('Error updating like points:', likePointsError);
-          }
-        }
-
         toast({
           title: "🎉 Congratulations!",
-          description: "You liked this artwork and the artist earned 1 point!",
+          description: `You liked this artwork and the artist earned ${formatPoints(rules.like_received_points)}!`,
         });
       }
 
-      // Refresh team scores
+      // Refresh team scores; like points are written by the database ledger
       await fetchTeamScores();
     } catch (error) {
       console.error('Error toggling like:', error);
@@ -504,16 +436,16 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
     // Get user's team
     const { data: userParticipant } = await supabase
       .from('event_participants')
-      .select('team')
+      .select('team_id')
       .eq('user_id', user.id)
       .eq('event_id', eventId)
       .single();
 
     // Get artwork owner's team
-    const artworkTeam = artwork.event_participants?.[0]?.team;
+    const artworkTeam = artwork.event_participants?.[0]?.team_id;
 
     // Prevent user from attacking artwork from their own team
-    if (userParticipant?.team && artworkTeam && userParticipant.team === artworkTeam) {
+    if (userParticipant?.team_id && artworkTeam && userParticipant.team_id === artworkTeam) {
       toast({
         title: "Not allowed",
         description: "You cannot attack artwork from your own team",
@@ -523,7 +455,7 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
     }
 
     // Check if already attacked
-    if (hasInteracted(artworkId, 'attack')) {
+    if (hasAttacked(artworkId)) {
       toast({
         title: "Already attacked",
         description: "You have already attacked this artwork",
@@ -535,7 +467,16 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
     setAttackDialog({
       isOpen: true,
       artworkId,
-      artworkTitle,
+      targetTitle: artworkTitle,
+    });
+  };
+
+  const handleCounterClick = (attack: AttackWithAttacker) => {
+    setAttackDialog({
+      isOpen: true,
+      artworkId: attack.target_artwork_id,
+      parentAttack: attack,
+      targetTitle: attack.title || `attack by ${attack.profiles?.display_name || 'Unknown Artist'}`,
     });
   };
 
@@ -543,32 +484,39 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
     fetchArtworks();
     fetchInteractions();
     fetchTeamScores();
-    fetchFightArtworks();
+    fetchAttacks();
   };
 
-  const hasInteracted = (artworkId: string, type: 'like' | 'attack') => {
-    return interactions.some(i => i.artwork_id === artworkId && i.interaction_type === type);
+  const hasLiked = (artworkId: string) => {
+    return interactions.some(i => i.artwork_id === artworkId);
+  };
+
+  const hasAttacked = (artworkId: string) => {
+    return attacks.some(attack =>
+      attack.target_artwork_id === artworkId && !attack.parent_attack_id && attack.attacker_id === user?.id
+    );
+  };
+
+  const attacksOn = (artworkId: string) => {
+    return attacks.filter(attack => attack.target_artwork_id === artworkId);
   };
 
   const getTeamBadge = (artwork: Artwork) => {
-    if (artwork.event_participants && artwork.event_participants.length > 0) {
-      const team = artwork.event_participants[0]?.team;
-      if (!team) return null;
-      
-      return (
-        <Badge 
-          variant={team === 'A' ? 'default' : 'secondary'}
-          className={team === 'A' ? 'bg-primary text-primary-foreground' : 'bg-accent text-accent-foreground'}
-        >
-          Team {team}
-        </Badge>
-      );
-    }
-    return null;
+    const teamId = artwork.event_participants?.[0]?.team_id;
+    const team = teams.find(t => t.id === teamId);
+    if (!team) return null;
+
+    return <TeamBadge team={team} />;
   };
 
-  const winningTeam = teamScores.length > 0 ? 
-    teamScores.reduce((a, b) => a.totalPoints > b.totalPoints ? a : b) : null;
+  const scoreCards = teams.map(team => ({
+    team,
+    ...(teamScores[team.id] || { totalPoints: 0, memberCount: 0 }),
+  }));
+
+  const winningTeamId = eventStatus === 'ended'
+    ? finalWinnerId
+    : leadingTeamId(scoreCards.map(score => ({ teamId: score.team.id, points: score.totalPoints })));
 
   if (loading) {
     return (
@@ -590,18 +538,18 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
       {/* Main Content */}
       <div className="container mx-auto px-4">
         {/* Team Scores */}
-        <div className="grid grid-cols-2 gap-4 my-6">
-        {teamScores.map((team) => (
-                <Card key={team.team} className={`border-2 ${team === winningTeam ? 'border-primary border-solid shadow-red' : ''}`}>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 my-6">
+        {scoreCards.map((score) => (
+                <Card key={score.team.id} className={`border-2 ${score.team.id === winningTeamId ? 'border-primary border-solid shadow-red' : ''}`}>
                   <CardContent className="p-4 text-center">
                     <div className="flex items-center justify-center gap-2 mb-2">
-                      {team === winningTeam && <Trophy className="h-5 w-5 text-gold" />}
+                      {score.team.id === winningTeamId && <Trophy className="h-5 w-5 text-gold" />}
                       <h3 className="font-semibold">
-                        {team.team === 'A' ? teamAName : teamBName}
+                        {score.team.name}
                       </h3>
                     </div>
-                    <p className="text-2xl font-bold text-primary">{team.totalPoints} pts</p>
-                    <p className="text-sm text-muted-foreground">{team.memberCount} members</p>
+                    <p className="text-2xl font-bold text-primary">{score.totalPoints} pts</p>
+                    <p className="text-sm text-muted-foreground">{score.memberCount} members</p>
                   </CardContent>
                 </Card>
         ))}
@@ -612,19 +560,30 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
         {artworks.map((artwork) => (
           <Card key={artwork.id} className="overflow-hidden hover:shadow-red transition-shadow duration-300">
             <div className="aspect-square relative">
-              <img
-                src={artwork.image_url}
+              <ArtworkImage
+                image={artwork}
                 alt={artwork.title}
+                sizes={ARTWORK_CARD_SIZES}
                 className="w-full h-full object-cover"
               />
               <div className="absolute top-2 right-2">
                 {getTeamBadge(artwork)}
               </div>
+              <div className="absolute bottom-2 left-2">
+                <Badge
+                  variant="outline"
+                  className={artwork.theme_phase === 'midway' ? 'bg-accent text-accent-foreground' : 'bg-background/80'}
+                >
+                  {THEME_PHASE_LABELS[artwork.theme_phase]}
+                </Badge>
+              </div>
             </div>
             <CardContent className="p-4">
               <div className="space-y-3">
                 <div>
-                  <h3 className="font-semibold text-lg">{artwork.title}</h3>
+                  <h3 className="font-semibold text-lg">
+                    <Link to={`/artworks/${artwork.id}`} className="hover:underline">{artwork.title}</Link>
+                  </h3>
                   {artwork.description && (
                     <p className="text-sm text-muted-foreground">{artwork.description}</p>
                   )}
@@ -633,8 +592,16 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <User className="h-4 w-4" />
                   <span>{artwork.profiles?.display_name || 'Unknown Artist'}</span>
+                  <AchievementBadges achievements={unlockedBadges(artwork.profiles)} />
                 </div>
 
+                {showJudgePoints && artworkJudgePoints(judgeScores, artwork.id) !== null && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Gavel className="h-4 w-4 text-primary" />
+                    <span>Judges: {artworkJudgePoints(judgeScores, artwork.id)?.toFixed(1)} pts</span>
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between pt-2">
                   <div className="flex items-center gap-4">
                     <Button
@@ -642,10 +609,10 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
                       size="sm"
                       onClick={() => handleLikeToggle(artwork.id)}
                       className="flex items-center gap-1 hover:text-red-500"
-                      disabled={artwork.user_id === user?.id || hasInteracted(artwork.id, 'like')}
+                      disabled={artwork.user_id === user?.id || hasLiked(artwork.id)}
                     >
                       <Heart 
-                        className={`h-4 w-4 ${hasInteracted(artwork.id, 'like') ? 'fill-red-500 text-red-500' : ''}`} 
+                        className={`h-4 w-4 ${hasLiked(artwork.id) ? 'fill-red-500 text-red-500' : ''}`} 
                       />
                       <span>{artwork.likes_count}</span>
                     </Button>
@@ -655,11 +622,23 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
                       size="sm"
                       onClick={() => handleAttackClick(artwork.id, artwork.title)}
                       className="flex items-center gap-1 hover:text-destructive"
-                      disabled={artwork.user_id === user?.id || hasInteracted(artwork.id, 'attack')}
+                      disabled={artwork.user_id === user?.id || hasAttacked(artwork.id)}
                     >
                       <Sword className="h-4 w-4" />
                       <span>{artwork.attacks_count}</span>
                     </Button>
+
+                    {isJudge && artwork.user_id !== user?.id && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setJudgeTarget({ artworkId: artwork.id, title: artwork.title })}
+                        className="flex items-center gap-1"
+                      >
+                        <Gavel className={`h-4 w-4 ${myJudgeScores(artwork.id).length > 0 ? 'text-primary' : ''}`} />
+                        <span>{myJudgeScores(artwork.id).length > 0 ? 'Rescore' : 'Judge'}</span>
+                      </Button>
+                    )}
                   </div>
 
                   <div className="text-xs text-muted-foreground">
@@ -667,15 +646,24 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
                   </div>
                 </div>
 
-                {/* Attack Thread */}
-                {artwork.attacks_count > 0 && (
-                  <div className="mt-3 pt-3 border-t">
+                {/* Battle Tree */}
+                {attacksOn(artwork.id).length > 0 && (
+                  <div className="mt-3 pt-3 border-t space-y-2">
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                       <MessageCircle className="h-4 w-4" />
-                      <span>Under attack • {artwork.attacks_count} battle{artwork.attacks_count > 1 ? 's' : ''}</span>
+                      <span>Under attack • {artwork.attacks_count} battle{artwork.attacks_count === 1 ? '' : 's'}</span>
                     </div>
+                    <BattleTree
+                      artworkId={artwork.id}
+                      attacks={attacksOn(artwork.id)}
+                      onCounter={handleCounterClick}
+                    />
                   </div>
                 )}
+
+                <div className="mt-3 pt-3 border-t">
+                  <BattleComments artworkId={artwork.id} />
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -683,15 +671,29 @@ export default function EventGallery({ eventId, eventTitle, teamAName, teamBName
       </div>
 
       {/* Attack Dialog */}
-      <AttackArtworkDialog
+      <AttackDialog
         isOpen={attackDialog.isOpen}
-        onClose={() => setAttackDialog({ isOpen: false, artworkId: '', artworkTitle: '' })}
-        targetArtworkId={attackDialog.artworkId}
-        targetArtworkTitle={attackDialog.artworkTitle}
+        onClose={() => setAttackDialog({ isOpen: false, artworkId: '', targetTitle: '' })}
+        artworkId={attackDialog.artworkId}
+        parentAttack={attackDialog.parentAttack}
+        targetTitle={attackDialog.targetTitle}
         eventId={eventId}
         onAttackSuccess={handleAttackSuccess}
       />
 
+      {/* Judge Dialog */}
+      {judgeTarget && (
+        <JudgeScoreDialog
+          isOpen={!!judgeTarget}
+          onClose={() => setJudgeTarget(null)}
+          artworkId={judgeTarget.artworkId}
+          artworkTitle={judgeTarget.title}
+          criteria={criteria}
+          scores={myJudgeScores(judgeTarget.artworkId)}
+          onScored={fetchJudging}
+        />
+      )}
+
       {artworks.length === 0 && (
         <div className="text-center py-12">
           <h3 className="text-lg font-medium mb-2">No artworks yet</h3>
@@ -0,0 +1,305 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Trash2, Users } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { EventTeam } from '@/lib/teams';
+import TeamBadge from './TeamBadge';
+
+interface EventParticipantsDialogProps {
+  eventId: string;
+  eventTitle: string;
+  teams: EventTeam[];
+}
+
+interface Member {
+  user_id: string;
+  team_id: string | null;
+  display_name: string;
+}
+
+const ANY_TEAM = 'any';
+
+export default function EventParticipantsDialog({ eventId, eventTitle, teams }: EventParticipantsDialogProps) {
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [participants, setParticipants] = useState<Member[]>([]);
+  const [invites, setInvites] = useState<Member[]>([]);
+  const [username, setUsername] = useState('');
+  const [teamChoice, setTeamChoice] = useState(ANY_TEAM);
+
+  const fetchMembers = async () => {
+    setLoading(true);
+
+    const [{ data: participantsData, error: participantsError }, { data: invitesData, error: invitesError }] = await Promise.all([
+      supabase.from('event_participants').select('user_id, team_id').eq('event_id', eventId),
+      supabase.from('event_invites').select('user_id, team_id').eq('event_id', eventId),
+    ]);
+
+    if (participantsError || invitesError) {
+      toast({
+        title: "Error loading participants",
+        description: (participantsError || invitesError)?.message,
+        variant: "destructive",
+      });
+      setLoading(false);
+      return;
+    }
+
+    const userIds = [...(participantsData || []), ...(invitesData || [])].map(p => p.user_id);
+    const { data: profilesData } = await supabase
+      .from('profiles')
+      .select('user_id, display_name, username')
+      .in('user_id', userIds);
+
+    const namesMap = new Map(profilesData?.map(profile => [profile.user_id, profile.display_name || profile.username]) || []);
+    const withNames = (rows: { user_id: string; team_id: string | null }[]) =>
+      rows.map(row => ({ ...row, display_name: namesMap.get(row.user_id) || 'Unknown Artist' }));
+
+    setParticipants(withNames(participantsData || []));
+    setInvites(withNames(invitesData || []));
+    setLoading(false);
+  };
+
+  const findUserId = async () => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('user_id')
+      .eq('username', username.trim())
+      .maybeSingle();
+
+    if (error || !data) {
+      toast({
+        title: "User not found",
+        description: `No artist with the username "${username.trim()}"`,
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    return data.user_id;
+  };
+
+  const assignTeam = async (userId: string, teamId: string) => {
+    const { error } = await supabase.rpc('assign_event_team', {
+      p_event_id: eventId,
+      p_user_id: userId,
+      p_team_id: teamId,
+    });
+
+    if (error) {
+      toast({
+        title: "Error assigning team",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    fetchMembers();
+    return true;
+  };
+
+  const addParticipant = async () => {
+    if (teamChoice === ANY_TEAM) {
+      toast({
+        title: "Choose a team",
+        description: "Pick the team to place this artist on",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const userId = await findUserId();
+    if (userId && await assignTeam(userId, teamChoice)) {
+      setUsername('');
+      toast({ title: "Participant added" });
+    }
+  };
+
+  const inviteUser = async () => {
+    const userId = await findUserId();
+    if (!userId) return;
+
+    const { error } = await supabase.from('event_invites').insert({
+      event_id: eventId,
+      user_id: userId,
+      team_id: teamChoice === ANY_TEAM ? null : teamChoice,
+      invited_by: user?.id,
+    });
+
+    if (error) {
+      toast({
+        title: "Error inviting artist",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setUsername('');
+      toast({ title: "Invite sent" });
+      fetchMembers();
+    }
+  };
+
+  const removeInvite = async (userId: string) => {
+    const { error } = await supabase
+      .from('event_invites')
+      .delete()
+      .eq('event_id', eventId)
+      .eq('user_id', userId);
+
+    if (error) {
+      toast({
+        title: "Error removing invite",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      fetchMembers();
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      fetchMembers();
+    }
+  };
+
+  const teamFor = (teamId: string | null) => teams.find(team => team.id === teamId);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Users className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Participants</DialogTitle>
+          <DialogDescription>
+            Place artists on teams and manage invites for "{eventTitle}"
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[1fr_1fr] gap-2 items-end">
+          <div>
+            <Label htmlFor={`${eventId}-username`}>Username</Label>
+            <Input
+              id={`${eventId}-username`}
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Team</Label>
+            <Select value={teamChoice} onValueChange={setTeamChoice}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_TEAM}>Any team</SelectItem>
+                {teams.map((team) => (
+                  <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={addParticipant} disabled={!username.trim()} className="flex-1">
+            Add to Team
+          </Button>
+          <Button variant="outline" onClick={inviteUser} disabled={!username.trim()} className="flex-1">
+            Invite
+          </Button>
+        </div>
+
+        <Separator />
+
+        {loading ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">Loading participants...</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Artist</TableHead>
+                  <TableHead>Team</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {participants.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={2} className="text-center text-muted-foreground">No participants yet</TableCell>
+                  </TableRow>
+                ) : participants.map((participant) => (
+                  <TableRow key={participant.user_id}>
+                    <TableCell>{participant.display_name}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={participant.team_id ?? undefined}
+                        onValueChange={(teamId) => assignTeam(participant.user_id, teamId)}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {teams.map((team) => (
+                            <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {invites.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invited</TableHead>
+                    <TableHead>Team</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invites.map((invite) => {
+                    const team = teamFor(invite.team_id);
+
+                    return (
+                      <TableRow key={invite.user_id}>
+                        <TableCell>{invite.display_name}</TableCell>
+                        <TableCell>
+                          {team ? <TeamBadge team={team} /> : <span className="text-muted-foreground">Any team</span>}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => removeInvite(invite.user_id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
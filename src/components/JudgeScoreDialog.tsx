@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Gavel } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { JudgeScore, JudgingCriterion } from '@/lib/judging';
+
+interface JudgeScoreDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  artworkId: string;
+  artworkTitle: string;
+  criteria: JudgingCriterion[];
+  // The judge's earlier scores for this artwork, if any
+  scores: Pick<JudgeScore, 'criterion_id' | 'score'>[];
+  onScored: () => void;
+}
+
+export default function JudgeScoreDialog({
+  isOpen,
+  onClose,
+  artworkId,
+  artworkTitle,
+  criteria,
+  scores,
+  onScored
+}: JudgeScoreDialogProps) {
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const valueFor = (criterion: JudgingCriterion) => {
+    return draft[criterion.id] ?? scores.find(score => score.criterion_id === criterion.id)?.score.toString() ?? '';
+  };
+
+  const isComplete = criteria.every(criterion => valueFor(criterion) !== '');
+
+  const handleClose = () => {
+    setDraft({});
+    onClose();
+  };
+
+  const submitScores = async () => {
+    setSaving(true);
+
+    const { error } = await supabase.rpc('score_artwork', {
+      p_artwork_id: artworkId,
+      p_scores: Object.fromEntries(criteria.map(criterion => [criterion.id, parseInt(valueFor(criterion), 10)])),
+    });
+
+    if (error) {
+      toast({
+        title: "Error saving scores",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Scores saved",
+        description: `Your scores for "${artworkTitle}" stay hidden until the event ends.`,
+      });
+      handleClose();
+      onScored();
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gavel className="h-5 w-5 text-primary" />
+            Judge "{artworkTitle}"
+          </DialogTitle>
+          <DialogDescription>
+            Score the artwork against each criterion of the event's rubric
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {criteria.map(criterion => (
+            <div key={criterion.id}>
+              <Label htmlFor={`score-${criterion.id}`}>
+                {criterion.name} (0-{criterion.max_score})
+              </Label>
+              <Input
+                id={`score-${criterion.id}`}
+                type="number"
+                min={0}
+                max={criterion.max_score}
+                value={valueFor(criterion)}
+                onChange={(e) => setDraft({ ...draft, [criterion.id]: e.target.value })}
+                disabled={saving}
+              />
+            </div>
+          ))}
+
+          <div className="flex gap-2 pt-4">
+            <Button onClick={submitScores} disabled={saving || !isComplete} className="flex-1">
+              {saving ? 'Saving...' : scores.length > 0 ? 'Update Scores' : 'Submit Scores'}
+            </Button>
+            <Button variant="outline" onClick={handleClose} disabled={saving}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,11 @@
 import { Link, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
-import { Home, Calendar, Image, User, LogOut } from 'lucide-react';
+import { Home, Calendar, Image, Medal, User, LogOut, Shield } from 'lucide-react';
 import ghostMascot from '@/assets/teal-ghost-mascot.png';
 
 export function Navbar() {
-  const { user, signOut } = useAuth();
+  const { user, signOut, hasRole } = useAuth();
   const location = useLocation();
 
   const isActive = (path: string) => location.pathname === path;
@@ -63,6 +63,18 @@ export function Navbar() {
                 <span>Gallery</span>
               </Link>
               
+              <Link
+                to="/leaderboard"
+                className={`flex items-center space-x-2 px-3 py-2 rounded-md transition-colors ${
+                  isActive('/leaderboard') 
+                    ? 'bg-primary text-primary-foreground' 
+                    : 'hover:bg-accent hover:text-accent-foreground'
+                }`}
+              >
+                <Medal className="h-4 w-4" />
+                <span>Leaderboard</span>
+              </Link>
+              
               <Link
                 to="/profile"
                 className={`flex items-center space-x-2 px-3 py-2 rounded-md transition-colors ${
@@ -75,6 +87,20 @@ export function Navbar() {
                 <span>Profile</span>
               </Link>
 
+              {hasRole('admin') && (
+                <Link
+                  to="/admin"
+                  className={`flex items-center space-x-2 px-3 py-2 rounded-md transition-colors ${
+                    isActive('/admin') 
+                      ? 'bg-primary text-primary-foreground' 
+                      : 'hover:bg-accent hover:text-accent-foreground'
+                  }`}
+                >
+                  <Shield className="h-4 w-4" />
+                  <span>Admin</span>
+                </Link>
+              )}
+
               <Button
                 onClick={handleSignOut}
                 variant="ghost"
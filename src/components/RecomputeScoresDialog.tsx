@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RefreshCw } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type ScoreDiff = Database['public']['Functions']['preview_event_score_recompute']['Returns'][number];
+
+// serialization_failure, raised when the scores changed after the preview
+const SCORES_CHANGED = '40001';
+
+interface RecomputeScoresDialogProps {
+  eventId: string;
+  eventTitle: string;
+  onApplied: () => void;
+}
+
+const hasChanged = (row: ScoreDiff) =>
+  row.current_artwork_points !== row.new_artwork_points ||
+  row.current_like_points !== row.new_like_points ||
+  row.current_attack_points !== row.new_attack_points;
+
+function PointsChange({ before, after }: { before: number; after: number }) {
+  if (before === after) {
+    return <span className="text-muted-foreground">{after}</span>;
+  }
+
+  return (
+    <span>
+      <span className="text-muted-foreground line-through mr-1">{before}</span>
+      <span className={after > before ? 'text-green-500 font-semibold' : 'text-destructive font-semibold'}>{after}</span>
+    </span>
+  );
+}
+
+export default function RecomputeScoresDialog({ eventId, eventTitle, onApplied }: RecomputeScoresDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [diff, setDiff] = useState<ScoreDiff[]>([]);
+
+  const fetchPreview = async () => {
+    setLoading(true);
+
+    const { data, error } = await supabase.rpc('preview_event_score_recompute', {
+      p_event_id: eventId,
+    });
+
+    if (error) {
+      console.error('Error previewing recompute:', error);
+      toast({
+        title: "Error previewing scores",
+        description: error.message,
+        variant: "destructive",
+      });
+      setDiff([]);
+    } else {
+      setDiff(data || []);
+    }
+    setLoading(false);
+  };
+
+  const applyRecompute = async () => {
+    setApplying(true);
+
+    // The database refuses if these rows no longer match its own diff
+    const { data, error } = await supabase.rpc('apply_event_score_recompute', {
+      p_event_id: eventId,
+      p_preview: changedRows,
+    });
+
+    if (error) {
+      console.error('Error applying recompute:', error);
+      toast({
+        title: "Error recomputing scores",
+        description: error.message,
+        variant: "destructive",
+      });
+      // Points moved since the preview; show the new one
+      if (error.code === SCORES_CHANGED) {
+        fetchPreview();
+      }
+    } else {
+      toast({
+        title: "Scores recomputed",
+        description: `Updated points for ${data} participant${data === 1 ? '' : 's'}`,
+      });
+      setIsOpen(false);
+      onApplied();
+    }
+    setApplying(false);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      fetchPreview();
+    }
+  };
+
+  const changedRows = diff.filter(hasChanged);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Recompute Scores</DialogTitle>
+          <DialogDescription>
+            Rebuild points for "{eventTitle}" from its artworks, likes and attacks using the event's scoring rules
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">Calculating scores...</p>
+          </div>
+        ) : changedRows.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">All {diff.length} participant scores are already correct</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Badge variant="destructive">{changedRows.length} changed</Badge>
+              <Badge variant="secondary">{diff.length - changedRows.length} unchanged</Badge>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Artist</TableHead>
+                  <TableHead className="text-right">Artwork</TableHead>
+                  <TableHead className="text-right">Likes</TableHead>
+                  <TableHead className="text-right">Attacks</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changedRows.map((row) => (
+                  <TableRow key={row.user_id}>
+                    <TableCell>{row.display_name || 'Unknown Artist'}</TableCell>
+                    <TableCell className="text-right">
+                      <PointsChange before={row.current_artwork_points} after={row.new_artwork_points} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <PointsChange before={row.current_like_points} after={row.new_like_points} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <PointsChange before={row.current_attack_points} after={row.new_attack_points} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <PointsChange before={row.current_points_total} after={row.new_points_total} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="flex gap-2 pt-4">
+          <Button
+            onClick={applyRecompute}
+            disabled={loading || applying || changedRows.length === 0}
+            className="flex-1"
+          >
+            {applying ? 'Applying...' : `Apply to ${changedRows.length} participant${changedRows.length === 1 ? '' : 's'}`}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setIsOpen(false)}
+            disabled={applying}
+          >
+            Cancel
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { CalendarRange, Edit, Plus, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { SEASON_STANDINGS_LABELS, Season, SeasonStandingsMode, formatSeasonRange } from '@/lib/seasons';
+
+interface SeasonsDialogProps {
+  seasons: Season[];
+  onChanged: () => void;
+}
+
+export default function SeasonsDialog({ seasons, onChanged }: SeasonsDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // null while creating a new season
+  const [editingSeason, setEditingSeason] = useState<Season | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const saveSeason = async (formData: FormData) => {
+    const seasonData = {
+      name: formData.get('season_name') as string,
+      description: formData.get('season_description') as string || null,
+      start_date: formData.get('season_start_date') as string,
+      end_date: formData.get('season_end_date') as string,
+      standings_mode: formData.get('season_standings_mode') as string,
+    };
+
+    if (seasonData.end_date < seasonData.start_date) {
+      toast({
+        title: "Invalid season dates",
+        description: "The season can't end before it starts.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    const { error } = editingSeason
+      ? await supabase.from('seasons').update(seasonData).eq('id', editingSeason.id)
+      : await supabase.from('seasons').insert([seasonData]);
+
+    if (error) {
+      toast({
+        title: editingSeason ? "Error updating season" : "Error creating season",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: editingSeason ? "Season updated successfully" : "Season created successfully" });
+      setEditingSeason(null);
+      onChanged();
+    }
+    setSaving(false);
+  };
+
+  const deleteSeason = async (season: Season) => {
+    if (!confirm(`Delete ${season.name}? Its events are kept but no longer belong to a season.`)) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('seasons')
+      .delete()
+      .eq('id', season.id);
+
+    if (error) {
+      toast({
+        title: "Error deleting season",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Season deleted successfully" });
+      if (editingSeason?.id === season.id) {
+        setEditingSeason(null);
+      }
+      onChanged();
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        setEditingSeason(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <CalendarRange className="h-4 w-4" />
+          Seasons
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Seasons</DialogTitle>
+          <DialogDescription>Group events into seasons with their own standings</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {seasons.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No seasons yet</p>
+          ) : (
+            seasons.map((season) => (
+              <div key={season.id} className="flex items-center justify-between gap-2 rounded-lg bg-muted/40 p-3">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{season.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatSeasonRange(season)} • {season.standings_mode === 'placements' ? 'Placements' : 'Points'}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setEditingSeason(season)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => deleteSeason(season)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <Separator />
+
+        {/* Keyed so the form's default values follow the season being edited */}
+        <form
+          key={editingSeason?.id ?? 'new'}
+          onSubmit={(e) => {
+            e.preventDefault();
+            const formData = new FormData(e.target as HTMLFormElement);
+            saveSeason(formData);
+          }}
+          className="space-y-4"
+        >
+          <h3 className="font-semibold flex items-center gap-2">
+            {editingSeason ? <Edit className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+            {editingSeason ? `Edit ${editingSeason.name}` : 'New Season'}
+          </h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="season_name">Name</Label>
+              <Input id="season_name" name="season_name" defaultValue={editingSeason?.name} required />
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="season_description">Description (Optional)</Label>
+              <Textarea id="season_description" name="season_description" defaultValue={editingSeason?.description ?? ''} />
+            </div>
+            <div>
+              <Label htmlFor="season_start_date">Start Date</Label>
+              <Input id="season_start_date" name="season_start_date" type="date" defaultValue={editingSeason?.start_date} required />
+            </div>
+            <div>
+              <Label htmlFor="season_end_date">End Date</Label>
+              <Input id="season_end_date" name="season_end_date" type="date" defaultValue={editingSeason?.end_date} required />
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="season_standings_mode">Standings</Label>
+              <Select name="season_standings_mode" defaultValue={editingSeason?.standings_mode ?? 'points'}>
+                <SelectTrigger id="season_standings_mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SEASON_STANDINGS_LABELS) as SeasonStandingsMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>{SEASON_STANDINGS_LABELS[mode]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {editingSeason && (
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setEditingSeason(null)}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" className="flex-1" disabled={saving}>
+              {editingSeason ? 'Save Season' : 'Create Season'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,18 @@
+import { Badge } from '@/components/ui/badge';
+import { EventTeam, getTeamColor } from '@/lib/teams';
+
+interface TeamBadgeProps {
+  team: Pick<EventTeam, 'name' | 'color' | 'position'>;
+  className?: string;
+}
+
+export default function TeamBadge({ team, className }: TeamBadgeProps) {
+  return (
+    <Badge
+      className={`border-transparent text-white ${className ?? ''}`}
+      style={{ backgroundColor: getTeamColor(team) }}
+    >
+      {team.name}
+    </Badge>
+  );
+}
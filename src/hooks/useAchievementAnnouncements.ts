@@ -0,0 +1,61 @@
+import { useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+
+// Toasts the signed-in user's unseen unlocks: any left from while they were
+// away, then each new one as the database streams it in
+export function useAchievementAnnouncements() {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+
+    const announce = async () => {
+      const { data, error } = await supabase
+        .from('user_achievements')
+        .select('achievement_id, achievements (name, description)')
+        .eq('user_id', user.id)
+        .is('seen_at', null);
+
+      if (error) {
+        console.error('Error fetching achievements:', error);
+        return;
+      }
+      if (cancelled || !data || data.length === 0) return;
+
+      data.forEach((unlock) => {
+        toast({
+          title: `Achievement unlocked: ${unlock.achievements?.name ?? unlock.achievement_id}`,
+          description: unlock.achievements?.description,
+        });
+      });
+
+      const { error: seenError } = await supabase.rpc('mark_achievements_seen', {
+        p_achievement_ids: data.map(unlock => unlock.achievement_id),
+      });
+
+      if (seenError) {
+        console.error('Error marking achievements seen:', seenError);
+      }
+    };
+
+    announce();
+
+    const channel = supabase
+      .channel(`achievements:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'user_achievements', filter: `user_id=eq.${user.id}` },
+        () => announce()
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+}
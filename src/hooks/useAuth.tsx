@@ -1,11 +1,16 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type AppRole = Database['public']['Enums']['app_role'];
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  roles: AppRole[];
   loading: boolean;
+  hasRole: (role: AppRole) => boolean;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signUp: (email: string, password: string, username: string, displayName: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
@@ -16,7 +21,11 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [sessionLoading, setSessionLoading] = useState(true);
+  // The user whose roles are loaded; until it matches the signed-in user,
+  // roles are still loading
+  const [rolesUserId, setRolesUserId] = useState<string | null>(null);
 
   useEffect(() => {
     // Set up auth state listener
@@ -24,7 +33,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       (event, session) => {
         setSession(session);
         setUser(session?.user ?? null);
-        setLoading(false);
+        setSessionLoading(false);
       }
     );
 
@@ -32,12 +41,45 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
-      setLoading(false);
+      setSessionLoading(false);
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setRoles([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    // Roles only gate the UI; RLS enforces them on every write
+    supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Error fetching roles:', error);
+          setRoles([]);
+        } else {
+          setRoles((data || []).map(r => r.role));
+        }
+        setRolesUserId(userId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const hasRole = (role: AppRole) => roles.includes(role);
+
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({
       email,
@@ -70,7 +112,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const value = {
     user,
     session,
-    loading,
+    roles,
+    loading: sessionLoading || (!!userId && rolesUserId !== userId),
+    hasRole,
     signIn,
     signUp,
     signOut,
@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ScoringRules {
+  submission_points: number;
+  like_received_points: number;
+  attack_launched_points: number;
+  attack_received_points: number;
+  fight_back_points: number;
+  midway_bonus_points: number;
+  chain_depth_bonus_points: number;
+  duel_win_points: number;
+  judge_weight_percent: number;
+}
+
+// Mirrors the column defaults of the scoring_rules table
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  submission_points: 5,
+  like_received_points: 1,
+  attack_launched_points: 3,
+  attack_received_points: 0,
+  fight_back_points: 3,
+  midway_bonus_points: 0,
+  chain_depth_bonus_points: 0,
+  duel_win_points: 3,
+  judge_weight_percent: 50,
+};
+
+export const SCORING_RULE_LABELS: Record<keyof ScoringRules, string> = {
+  submission_points: 'Artwork submission',
+  like_received_points: 'Like received',
+  attack_launched_points: 'Attack launched',
+  attack_received_points: 'Attack received',
+  fight_back_points: 'Fight-back artwork',
+  midway_bonus_points: 'Midway theme bonus',
+  chain_depth_bonus_points: 'Counter-attack bonus per chain level',
+  duel_win_points: 'Duel won',
+  judge_weight_percent: 'Judge score weight in judged events (%)',
+};
+
+export function formatPoints(points: number) {
+  return `${points} point${points === 1 ? '' : 's'}`;
+}
+
+export function useScoringRules(eventId: string | undefined) {
+  const [rules, setRules] = useState<ScoringRules>(DEFAULT_SCORING_RULES);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    let cancelled = false;
+
+    supabase
+      .from('scoring_rules')
+      .select('submission_points, like_received_points, attack_launched_points, attack_received_points, fight_back_points, midway_bonus_points, chain_depth_bonus_points, duel_win_points, judge_weight_percent')
+      .eq('event_id', eventId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching scoring rules:', error);
+          return;
+        }
+        if (!cancelled && data) {
+          setRules(data);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId]);
+
+  return rules;
+}
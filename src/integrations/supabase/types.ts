@@ -14,6 +14,93 @@ export type Database = {
   }
   public: {
     Tables: {
+      achievements: {
+        Row: {
+          created_at: string
+          description: string
+          icon: string
+          id: string
+          metric: string
+          name: string
+          position: number
+          threshold: number
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          icon: string
+          id: string
+          metric: string
+          name: string
+          position?: number
+          threshold: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          icon?: string
+          id?: string
+          metric?: string
+          name?: string
+          position?: number
+          threshold?: number
+        }
+        Relationships: []
+      }
+      artwork_attachments: {
+        Row: {
+          artwork_id: string
+          content_type: string
+          created_at: string
+          file_name: string
+          file_url: string
+          id: string
+          kind: string
+          position: number
+          size_bytes: number
+          user_id: string
+        }
+        Insert: {
+          artwork_id: string
+          content_type: string
+          created_at?: string
+          file_name: string
+          file_url: string
+          id?: string
+          kind: string
+          position?: number
+          size_bytes: number
+          user_id: string
+        }
+        Update: {
+          artwork_id?: string
+          content_type?: string
+          created_at?: string
+          file_name?: string
+          file_url?: string
+          id?: string
+          kind?: string
+          position?: number
+          size_bytes?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "artwork_attachments_artwork_id_fkey"
+            columns: ["artwork_id"]
+            isOneToOne: false
+            referencedRelation: "artworks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "artwork_attachments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       artwork_interactions: {
         Row: {
           artwork_id: string
@@ -44,226 +131,1302 @@ export type Database = {
             referencedRelation: "artworks"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      artworks: {
+        Row: {
+          attacks_count: number
+          blurhash: string | null
+          created_at: string
+          description: string | null
+          event_id: string
+          id: string
+          image_height: number | null
+          image_url: string
+          image_width: number | null
+          likes_count: number
+          medium_url: string | null
+          perceptual_hash: string | null
+          theme_phase: string
+          thumbnail_url: string | null
+          title: string
+          updated_at: string
+          user_id: string
+          withdrawn_at: string | null
+        }
+        Insert: {
+          attacks_count?: number
+          blurhash?: string | null
+          created_at?: string
+          description?: string | null
+          event_id: string
+          id?: string
+          image_height?: number | null
+          image_url: string
+          image_width?: number | null
+          likes_count?: number
+          medium_url?: string | null
+          perceptual_hash?: string | null
+          theme_phase?: string
+          thumbnail_url?: string | null
+          title: string
+          updated_at?: string
+          user_id: string
+          withdrawn_at?: string | null
+        }
+        Update: {
+          attacks_count?: number
+          blurhash?: string | null
+          created_at?: string
+          description?: string | null
+          event_id?: string
+          id?: string
+          image_height?: number | null
+          image_url?: string
+          image_width?: number | null
+          likes_count?: number
+          medium_url?: string | null
+          perceptual_hash?: string | null
+          theme_phase?: string
+          thumbnail_url?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+          withdrawn_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "artworks_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
           {
-            foreignKeyName: "artwork_interactions_artwork_id_fkey"
+            foreignKeyName: "artworks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      attacks: {
+        Row: {
+          attacker_id: string
+          blurhash: string | null
+          created_at: string
+          depth: number
+          event_id: string
+          id: string
+          image_height: number | null
+          image_url: string | null
+          image_width: number | null
+          medium_url: string | null
+          message: string | null
+          parent_attack_id: string | null
+          perceptual_hash: string | null
+          target_artwork_id: string
+          theme_phase: string
+          thumbnail_url: string | null
+          title: string | null
+        }
+        Insert: {
+          attacker_id: string
+          blurhash?: string | null
+          created_at?: string
+          depth?: number
+          event_id: string
+          id?: string
+          image_height?: number | null
+          image_url?: string | null
+          image_width?: number | null
+          medium_url?: string | null
+          message?: string | null
+          parent_attack_id?: string | null
+          perceptual_hash?: string | null
+          target_artwork_id: string
+          theme_phase?: string
+          thumbnail_url?: string | null
+          title?: string | null
+        }
+        Update: {
+          attacker_id?: string
+          blurhash?: string | null
+          created_at?: string
+          depth?: number
+          event_id?: string
+          id?: string
+          image_height?: number | null
+          image_url?: string | null
+          image_width?: number | null
+          medium_url?: string | null
+          message?: string | null
+          parent_attack_id?: string | null
+          perceptual_hash?: string | null
+          target_artwork_id?: string
+          theme_phase?: string
+          thumbnail_url?: string | null
+          title?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attacks_attacker_id_fkey"
+            columns: ["attacker_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "attacks_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attacks_parent_attack_id_target_artwork_id_fkey"
+            columns: ["parent_attack_id", "target_artwork_id"]
+            isOneToOne: false
+            referencedRelation: "attacks"
+            referencedColumns: ["id", "target_artwork_id"]
+          },
+          {
+            foreignKeyName: "attacks_target_artwork_id_fkey"
+            columns: ["target_artwork_id"]
+            isOneToOne: false
+            referencedRelation: "artworks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      battle_comments: {
+        Row: {
+          artwork_id: string
+          attack_id: string | null
+          author_id: string
+          body: string
+          created_at: string
+          id: string
+          parent_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          artwork_id: string
+          attack_id?: string | null
+          author_id: string
+          body: string
+          created_at?: string
+          id?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          artwork_id?: string
+          attack_id?: string | null
+          author_id?: string
+          body?: string
+          created_at?: string
+          id?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "battle_comments_artwork_id_fkey"
             columns: ["artwork_id"]
             isOneToOne: false
-            referencedRelation: "artworks_view"
+            referencedRelation: "artworks"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "battle_comments_attack_id_artwork_id_fkey"
+            columns: ["attack_id", "artwork_id"]
+            isOneToOne: false
+            referencedRelation: "attacks"
+            referencedColumns: ["id", "target_artwork_id"]
+          },
+          {
+            foreignKeyName: "battle_comments_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "battle_comments_parent_id_artwork_id_fkey"
+            columns: ["parent_id", "artwork_id"]
+            isOneToOne: false
+            referencedRelation: "battle_comments"
+            referencedColumns: ["id", "artwork_id"]
+          },
         ]
       }
-      artworks: {
+      duel_votes: {
+        Row: {
+          choice: string
+          created_at: string
+          duel_id: string
+          id: string
+          voter_id: string
+        }
+        Insert: {
+          choice: string
+          created_at?: string
+          duel_id: string
+          id?: string
+          voter_id: string
+        }
+        Update: {
+          choice?: string
+          created_at?: string
+          duel_id?: string
+          id?: string
+          voter_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "duel_votes_duel_id_fkey"
+            columns: ["duel_id"]
+            isOneToOne: false
+            referencedRelation: "duels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duel_votes_voter_id_fkey"
+            columns: ["voter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      duels: {
+        Row: {
+          attack_id: string
+          challenger_id: string
+          challenger_votes: number
+          closes_at: string
+          created_at: string
+          defender_id: string
+          defender_votes: number
+          event_id: string
+          id: string
+          resolved_at: string | null
+          winner: string | null
+        }
+        Insert: {
+          attack_id: string
+          challenger_id: string
+          challenger_votes?: number
+          closes_at: string
+          created_at?: string
+          defender_id: string
+          defender_votes?: number
+          event_id: string
+          id?: string
+          resolved_at?: string | null
+          winner?: string | null
+        }
+        Update: {
+          attack_id?: string
+          challenger_id?: string
+          challenger_votes?: number
+          closes_at?: string
+          created_at?: string
+          defender_id?: string
+          defender_votes?: number
+          event_id?: string
+          id?: string
+          resolved_at?: string | null
+          winner?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "duels_attack_id_fkey"
+            columns: ["attack_id"]
+            isOneToOne: true
+            referencedRelation: "attacks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duels_challenger_id_fkey"
+            columns: ["challenger_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "duels_defender_id_fkey"
+            columns: ["defender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "duels_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      duplicate_flags: {
+        Row: {
+          artwork_id: string | null
+          attack_id: string | null
+          created_at: string
+          distance: number
+          event_id: string
+          id: string
+          matched_artwork_id: string | null
+          matched_attack_id: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+        }
+        Insert: {
+          artwork_id?: string | null
+          attack_id?: string | null
+          created_at?: string
+          distance: number
+          event_id: string
+          id?: string
+          matched_artwork_id?: string | null
+          matched_attack_id?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Update: {
+          artwork_id?: string | null
+          attack_id?: string | null
+          created_at?: string
+          distance?: number
+          event_id?: string
+          id?: string
+          matched_artwork_id?: string | null
+          matched_attack_id?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "duplicate_flags_artwork_id_fkey"
+            columns: ["artwork_id"]
+            isOneToOne: false
+            referencedRelation: "artworks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_flags_attack_id_fkey"
+            columns: ["attack_id"]
+            isOneToOne: false
+            referencedRelation: "attacks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_flags_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_flags_matched_artwork_id_fkey"
+            columns: ["matched_artwork_id"]
+            isOneToOne: false
+            referencedRelation: "artworks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_flags_matched_attack_id_fkey"
+            columns: ["matched_attack_id"]
+            isOneToOne: false
+            referencedRelation: "attacks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_flags_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      event_artist_results: {
+        Row: {
+          event_id: string
+          points: number
+          team_id: string | null
+          user_id: string
+        }
+        Insert: {
+          event_id: string
+          points: number
+          team_id?: string | null
+          user_id: string
+        }
+        Update: {
+          event_id?: string
+          points?: number
+          team_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_artist_results_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "event_results"
+            referencedColumns: ["event_id"]
+          },
+          {
+            foreignKeyName: "event_artist_results_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      event_invites: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          invited_by: string | null
+          team_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          invited_by?: string | null
+          team_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          invited_by?: string | null
+          team_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_invites_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_invites_team_id_event_id_fkey"
+            columns: ["team_id", "event_id"]
+            isOneToOne: false
+            referencedRelation: "event_teams"
+            referencedColumns: ["id", "event_id"]
+          },
+        ]
+      }
+      event_participants: {
+        Row: {
+          event_id: string
+          id: string
+          joined_at: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          event_id: string
+          id?: string
+          joined_at?: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          event_id?: string
+          id?: string
+          joined_at?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_participants_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_participants_team_id_fkey"
+            columns: ["team_id", "event_id"]
+            isOneToOne: false
+            referencedRelation: "event_teams"
+            referencedColumns: ["id", "event_id"]
+          },
+        ]
+      }
+      event_participation_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          event_id: string
+          from_team_id: string | null
+          id: string
+          to_team_id: string | null
+          user_id: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          event_id: string
+          from_team_id?: string | null
+          id?: string
+          to_team_id?: string | null
+          user_id: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          event_id?: string
+          from_team_id?: string | null
+          id?: string
+          to_team_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_participation_log_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_results: {
+        Row: {
+          created_at: string
+          decided_by: string
+          event_id: string
+          most_attacked_artwork: Json | null
+          most_liked_artwork: Json | null
+          mvp: Json | null
+          team_standings: Json
+          top_artists: Json
+          winning_team_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          decided_by: string
+          event_id: string
+          most_attacked_artwork?: Json | null
+          most_liked_artwork?: Json | null
+          mvp?: Json | null
+          team_standings?: Json
+          top_artists?: Json
+          winning_team_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          decided_by?: string
+          event_id?: string
+          most_attacked_artwork?: Json | null
+          most_liked_artwork?: Json | null
+          mvp?: Json | null
+          team_standings?: Json
+          top_artists?: Json
+          winning_team_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_results_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: true
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_results_winning_team_id_event_id_fkey"
+            columns: ["winning_team_id", "event_id"]
+            isOneToOne: false
+            referencedRelation: "event_teams"
+            referencedColumns: ["id", "event_id"]
+          },
+        ]
+      }
+      event_status_transitions: {
+        Row: {
+          event_id: string
+          from_status: string
+          id: string
+          scheduled_for: string | null
+          source: string
+          to_status: string
+          transitioned_at: string
+        }
+        Insert: {
+          event_id: string
+          from_status: string
+          id?: string
+          scheduled_for?: string | null
+          source?: string
+          to_status: string
+          transitioned_at?: string
+        }
+        Update: {
+          event_id?: string
+          from_status?: string
+          id?: string
+          scheduled_for?: string | null
+          source?: string
+          to_status?: string
+          transitioned_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_status_transitions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_teams: {
+        Row: {
+          avatar_url: string | null
+          color: string | null
+          created_at: string
+          event_id: string
+          id: string
+          name: string
+          position: number
+        }
+        Insert: {
+          avatar_url?: string | null
+          color?: string | null
+          created_at?: string
+          event_id: string
+          id?: string
+          name: string
+          position: number
+        }
+        Update: {
+          avatar_url?: string | null
+          color?: string | null
+          created_at?: string
+          event_id?: string
+          id?: string
+          name?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_teams_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      events: {
+        Row: {
+          created_at: string
+          description: string
+          duel_duration_minutes: number
+          end_time: string
+          id: string
+          join_policy: string
+          judged: boolean
+          max_team_size: number | null
+          midway_theme: string | null
+          midway_time: string | null
+          require_process_media: boolean
+          season_id: string | null
+          start_time: string
+          status: string
+          team_change_grace_minutes: number
+          theme: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          duel_duration_minutes?: number
+          end_time: string
+          id?: string
+          join_policy?: string
+          judged?: boolean
+          max_team_size?: number | null
+          midway_theme?: string | null
+          midway_time?: string | null
+          require_process_media?: boolean
+          season_id?: string | null
+          start_time: string
+          status?: string
+          team_change_grace_minutes?: number
+          theme: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          duel_duration_minutes?: number
+          end_time?: string
+          id?: string
+          join_policy?: string
+          judged?: boolean
+          max_team_size?: number | null
+          midway_theme?: string | null
+          midway_time?: string | null
+          require_process_media?: boolean
+          season_id?: string | null
+          start_time?: string
+          status?: string
+          team_change_grace_minutes?: number
+          theme?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "events_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      judge_scores: {
+        Row: {
+          artwork_id: string
+          created_at: string
+          criterion_id: string
+          event_id: string
+          id: string
+          judge_id: string
+          score: number
+          updated_at: string
+        }
+        Insert: {
+          artwork_id: string
+          created_at?: string
+          criterion_id: string
+          event_id: string
+          id?: string
+          judge_id: string
+          score: number
+          updated_at?: string
+        }
+        Update: {
+          artwork_id?: string
+          created_at?: string
+          criterion_id?: string
+          event_id?: string
+          id?: string
+          judge_id?: string
+          score?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "judge_scores_artwork_id_event_id_fkey"
+            columns: ["artwork_id", "event_id"]
+            isOneToOne: false
+            referencedRelation: "artworks"
+            referencedColumns: ["id", "event_id"]
+          },
+          {
+            foreignKeyName: "judge_scores_criterion_id_event_id_fkey"
+            columns: ["criterion_id", "event_id"]
+            isOneToOne: false
+            referencedRelation: "judging_criteria"
+            referencedColumns: ["id", "event_id"]
+          },
+          {
+            foreignKeyName: "judge_scores_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "judge_scores_judge_id_fkey"
+            columns: ["judge_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      judging_criteria: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          max_score: number
+          name: string
+          position: number
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          max_score?: number
+          name: string
+          position: number
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          max_score?: number
+          name?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "judging_criteria_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      point_events: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string
+          event_id: string
+          id: string
+          reason: string
+          source_id: string | null
+          source_table: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category: string
+          created_at?: string
+          event_id: string
+          id?: string
+          reason: string
+          source_id?: string | null
+          source_table?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string
+          event_id?: string
+          id?: string
+          reason?: string
+          source_id?: string | null
+          source_table?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "point_events_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          display_name: string
+          id: string
+          updated_at: string
+          user_id: string
+          username: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          display_name: string
+          id?: string
+          updated_at?: string
+          user_id: string
+          username: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          display_name?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+          username?: string
+        }
+        Relationships: []
+      }
+      scoring_rules: {
+        Row: {
+          attack_launched_points: number
+          attack_received_points: number
+          chain_depth_bonus_points: number
+          created_at: string
+          duel_win_points: number
+          event_id: string
+          fight_back_points: number
+          judge_weight_percent: number
+          like_received_points: number
+          midway_bonus_points: number
+          submission_points: number
+          updated_at: string
+        }
+        Insert: {
+          attack_launched_points?: number
+          attack_received_points?: number
+          chain_depth_bonus_points?: number
+          created_at?: string
+          duel_win_points?: number
+          event_id: string
+          fight_back_points?: number
+          judge_weight_percent?: number
+          like_received_points?: number
+          midway_bonus_points?: number
+          submission_points?: number
+          updated_at?: string
+        }
+        Update: {
+          attack_launched_points?: number
+          attack_received_points?: number
+          chain_depth_bonus_points?: number
+          created_at?: string
+          duel_win_points?: number
+          event_id?: string
+          fight_back_points?: number
+          judge_weight_percent?: number
+          like_received_points?: number
+          midway_bonus_points?: number
+          submission_points?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scoring_rules_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: true
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seasons: {
+        Row: {
+          created_at: string
+          description: string | null
+          end_date: string
+          id: string
+          name: string
+          standings_mode: string
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          end_date: string
+          id?: string
+          name: string
+          standings_mode?: string
+          start_date: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          end_date?: string
+          id?: string
+          name?: string
+          standings_mode?: string
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tournament_matches: {
         Row: {
-          attacks_count: number
+          bracket: string
           created_at: string
-          description: string | null
-          event_id: string
+          event_id: string | null
           id: string
-          image_url: string
-          likes_count: number
-          title: string
-          updated_at: string
-          user_id: string
+          label: string
+          loser_id: string | null
+          position: number
+          round: number
+          team_a_from: string | null
+          team_a_from_match_id: string | null
+          team_a_id: string | null
+          team_b_from: string | null
+          team_b_from_match_id: string | null
+          team_b_id: string | null
+          tournament_id: string
+          winner_id: string | null
         }
         Insert: {
-          attacks_count?: number
+          bracket: string
           created_at?: string
-          description?: string | null
-          event_id: string
+          event_id?: string | null
           id?: string
-          image_url: string
-          likes_count?: number
-          title: string
-          updated_at?: string
-          user_id: string
+          label: string
+          loser_id?: string | null
+          position: number
+          round: number
+          team_a_from?: string | null
+          team_a_from_match_id?: string | null
+          team_a_id?: string | null
+          team_b_from?: string | null
+          team_b_from_match_id?: string | null
+          team_b_id?: string | null
+          tournament_id: string
+          winner_id?: string | null
         }
         Update: {
-          attacks_count?: number
+          bracket?: string
           created_at?: string
-          description?: string | null
-          event_id?: string
+          event_id?: string | null
           id?: string
-          image_url?: string
-          likes_count?: number
-          title?: string
-          updated_at?: string
-          user_id?: string
+          label?: string
+          loser_id?: string | null
+          position?: number
+          round?: number
+          team_a_from?: string | null
+          team_a_from_match_id?: string | null
+          team_a_id?: string | null
+          team_b_from?: string | null
+          team_b_from_match_id?: string | null
+          team_b_id?: string | null
+          tournament_id?: string
+          winner_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "artworks_event_id_fkey"
+            foreignKeyName: "tournament_matches_event_id_fkey"
             columns: ["event_id"]
-            isOneToOne: false
+            isOneToOne: true
             referencedRelation: "events"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "artworks_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "tournament_matches_loser_id_tournament_id_fkey"
+            columns: ["loser_id", "tournament_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["user_id"]
+            referencedRelation: "tournament_teams"
+            referencedColumns: ["id", "tournament_id"]
+          },
+          {
+            foreignKeyName: "tournament_matches_team_a_from_match_id_fkey"
+            columns: ["team_a_from_match_id"]
+            isOneToOne: false
+            referencedRelation: "tournament_matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_matches_team_a_id_tournament_id_fkey"
+            columns: ["team_a_id", "tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournament_teams"
+            referencedColumns: ["id", "tournament_id"]
+          },
+          {
+            foreignKeyName: "tournament_matches_team_b_from_match_id_fkey"
+            columns: ["team_b_from_match_id"]
+            isOneToOne: false
+            referencedRelation: "tournament_matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_matches_team_b_id_tournament_id_fkey"
+            columns: ["team_b_id", "tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournament_teams"
+            referencedColumns: ["id", "tournament_id"]
+          },
+          {
+            foreignKeyName: "tournament_matches_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_matches_winner_id_tournament_id_fkey"
+            columns: ["winner_id", "tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournament_teams"
+            referencedColumns: ["id", "tournament_id"]
           },
         ]
       }
-      event_participants: {
+      tournament_teams: {
         Row: {
-          event_id: string
+          avatar_url: string | null
+          color: string | null
           id: string
-          joined_at: string
-          team: string
-          user_id: string
+          name: string
+          seed: number
+          tournament_id: string
         }
         Insert: {
-          event_id: string
+          avatar_url?: string | null
+          color?: string | null
           id?: string
-          joined_at?: string
-          team: string
-          user_id: string
+          name: string
+          seed: number
+          tournament_id: string
         }
         Update: {
-          event_id?: string
+          avatar_url?: string | null
+          color?: string | null
           id?: string
-          joined_at?: string
-          team?: string
-          user_id?: string
+          name?: string
+          seed?: number
+          tournament_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "event_participants_event_id_fkey"
-            columns: ["event_id"]
+            foreignKeyName: "tournament_teams_tournament_id_fkey"
+            columns: ["tournament_id"]
             isOneToOne: false
-            referencedRelation: "events"
+            referencedRelation: "tournaments"
             referencedColumns: ["id"]
           },
         ]
       }
-      events: {
+      tournaments: {
         Row: {
+          champion_id: string | null
           created_at: string
           description: string
-          end_time: string
+          format: string
           id: string
-          midway_theme: string | null
-          midway_time: string | null
+          join_policy: string
+          name: string
+          round_break_minutes: number
+          round_duration_minutes: number
+          season_id: string | null
           start_time: string
-          status: string
-          team_a_name: string
-          team_a_pfp: string | null
-          team_b_name: string
-          team_b_pfp: string | null
           theme: string
-          title: string
           updated_at: string
         }
         Insert: {
+          champion_id?: string | null
           created_at?: string
           description: string
-          end_time: string
+          format: string
           id?: string
-          midway_theme?: string | null
-          midway_time?: string | null
+          join_policy?: string
+          name: string
+          round_break_minutes?: number
+          round_duration_minutes?: number
+          season_id?: string | null
           start_time: string
-          status?: string
-          team_a_name: string
-          team_a_pfp?: string | null
-          team_b_name: string
-          team_b_pfp?: string | null
           theme: string
-          title: string
           updated_at?: string
         }
         Update: {
+          champion_id?: string | null
           created_at?: string
           description?: string
-          end_time?: string
+          format?: string
           id?: string
-          midway_theme?: string | null
-          midway_time?: string | null
+          join_policy?: string
+          name?: string
+          round_break_minutes?: number
+          round_duration_minutes?: number
+          season_id?: string | null
           start_time?: string
-          status?: string
-          team_a_name?: string
-          team_a_pfp?: string | null
-          team_b_name?: string
-          team_b_pfp?: string | null
           theme?: string
-          title?: string
           updated_at?: string
         }
-        Relationships: []
-      }
-      fight_artworks: {
-        Row: {
-          attacker_id: string
-          created_at: string
-          id: string
-          image_url: string
-          target_artwork_id: string
-          title: string
-        }
-        Insert: {
-          attacker_id: string
-          created_at?: string
-          id?: string
-          image_url: string
-          target_artwork_id: string
-          title: string
-        }
-        Update: {
-          attacker_id?: string
-          created_at?: string
-          id?: string
-          image_url?: string
-          target_artwork_id?: string
-          title?: string
-        }
         Relationships: [
           {
-            foreignKeyName: "fight_artworks_target_artwork_id_fkey"
-            columns: ["target_artwork_id"]
+            foreignKeyName: "tournaments_champion_id_fkey"
+            columns: ["champion_id", "id"]
             isOneToOne: false
-            referencedRelation: "artworks"
-            referencedColumns: ["id"]
+            referencedRelation: "tournament_teams"
+            referencedColumns: ["id", "tournament_id"]
           },
           {
-            foreignKeyName: "fight_artworks_target_artwork_id_fkey"
-            columns: ["target_artwork_id"]
+            foreignKeyName: "tournaments_season_id_fkey"
+            columns: ["season_id"]
             isOneToOne: false
-            referencedRelation: "artworks_view"
+            referencedRelation: "seasons"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      user_achievements: {
         Row: {
-          avatar_url: string | null
-          created_at: string
-          display_name: string
-          id: string
-          updated_at: string
+          achievement_id: string
+          event_id: string | null
+          seen_at: string | null
+          unlocked_at: string
           user_id: string
-          username: string
         }
         Insert: {
-          avatar_url?: string | null
-          created_at?: string
-          display_name: string
-          id?: string
-          updated_at?: string
+          achievement_id: string
+          event_id?: string | null
+          seen_at?: string | null
+          unlocked_at?: string
           user_id: string
-          username: string
         }
         Update: {
-          avatar_url?: string | null
-          created_at?: string
-          display_name?: string
-          id?: string
-          updated_at?: string
+          achievement_id?: string
+          event_id?: string | null
+          seen_at?: string | null
+          unlocked_at?: string
           user_id?: string
-          username?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_achievements_achievement_id_fkey"
+            columns: ["achievement_id"]
+            isOneToOne: false
+            referencedRelation: "achievements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_achievements_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_achievements_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
       }
       user_points: {
         Row: {
@@ -309,61 +1472,234 @@ export type Database = {
           },
         ]
       }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      artworks_view: {
+      leaderboard_artists: {
+        Row: {
+          display_name: string | null
+          events_played: number | null
+          points: number | null
+          rank: number | null
+          user_id: string | null
+          username: string | null
+        }
+        Relationships: []
+      }
+      leaderboard_event_artists: {
         Row: {
-          attacks_count: number | null
-          created_at: string | null
-          description: string | null
           display_name: string | null
           event_id: string | null
-          event_title: string | null
-          id: string | null
-          image_url: string | null
-          likes_count: number | null
-          participant_team: string | null
-          title: string | null
-          updated_at: string | null
+          points: number | null
+          rank: number | null
+          team_id: string | null
           user_id: string | null
           username: string | null
         }
-        Relationships: [
-          {
-            foreignKeyName: "artworks_event_id_fkey"
-            columns: ["event_id"]
-            isOneToOne: false
-            referencedRelation: "events"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "artworks_user_id_fkey"
-            columns: ["user_id"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["user_id"]
-          },
-        ]
+        Relationships: []
+      }
+      leaderboard_event_teams: {
+        Row: {
+          color: string | null
+          event_id: string | null
+          members: number | null
+          name: string | null
+          points: number | null
+          position: number | null
+          rank: number | null
+          team_id: string | null
+        }
+        Relationships: []
+      }
+      leaderboard_season_artists: {
+        Row: {
+          display_name: string | null
+          events_played: number | null
+          placement_points: number | null
+          points: number | null
+          rank: number | null
+          season_id: string | null
+          user_id: string | null
+          username: string | null
+        }
+        Relationships: []
+      }
+      leaderboard_season_teams: {
+        Row: {
+          events_played: number | null
+          name: string | null
+          placement_points: number | null
+          points: number | null
+          rank: number | null
+          season_id: string | null
+          wins: number | null
+        }
+        Relationships: []
+      }
+      leaderboard_teams: {
+        Row: {
+          event_id: string | null
+          event_title: string | null
+          name: string | null
+          points: number | null
+          rank: number | null
+          team_id: string | null
+          won: boolean | null
+        }
+        Relationships: []
       }
     }
     Functions: {
-      update_event_status: {
-        Args: Record<PropertyKey, never>
+      apply_event_score_recompute: {
+        Args: { p_event_id: string; p_preview: Json }
+        Returns: number
+      }
+      assign_event_team: {
+        Args: { p_event_id: string; p_team_id: string; p_user_id: string }
+        Returns: undefined
+      }
+      cast_duel_vote: {
+        Args: { p_choice: string; p_duel_id: string }
         Returns: undefined
       }
-      update_user_points: {
+      create_tournament: {
         Args: {
-          p_artwork_points?: number
-          p_attack_points?: number
-          p_event_id: string
-          p_like_points?: number
+          p_description: string
+          p_format: string
+          p_join_policy: string
+          p_name: string
+          p_round_break_minutes: number
+          p_round_duration_minutes: number
+          p_season_id: string | null
+          p_start_time: string
+          p_teams: Json
+          p_theme: string
+        }
+        Returns: string
+      }
+      get_achievement_progress: {
+        Args: { p_user_id: string }
+        Returns: {
+          achievement_id: string
+          progress: number
+        }[]
+      }
+      get_event_standings: {
+        Args: { p_event_id: string }
+        Returns: {
+          community_points: number
+          judge_points: number
+          total_points: number
+          user_id: string
+        }[]
+      }
+      has_role: {
+        Args: {
+          p_role: Database["public"]["Enums"]["app_role"]
           p_user_id: string
         }
+        Returns: boolean
+      }
+      image_hash_distance: {
+        Args: { p_hash_a: string; p_hash_b: string }
+        Returns: number
+      }
+      join_event: {
+        Args: { p_event_id: string; p_team_id?: string }
+        Returns: string
+      }
+      launch_attack: {
+        Args: {
+          p_artwork_id: string
+          p_blurhash?: string
+          p_image_height?: number
+          p_image_url?: string
+          p_image_width?: number
+          p_medium_url?: string
+          p_message?: string
+          p_parent_attack_id?: string
+          p_perceptual_hash?: string
+          p_thumbnail_url?: string
+          p_title?: string
+        }
+        Returns: string
+      }
+      leave_event: {
+        Args: { p_event_id: string }
+        Returns: undefined
+      }
+      mark_achievements_seen: {
+        Args: { p_achievement_ids: string[] }
+        Returns: undefined
+      }
+      placement_points: {
+        Args: { p_rank: number }
+        Returns: number
+      }
+      preview_event_score_recompute: {
+        Args: { p_event_id: string }
+        Returns: {
+          current_artwork_points: number
+          current_attack_points: number
+          current_like_points: number
+          current_points_total: number
+          display_name: string
+          new_artwork_points: number
+          new_attack_points: number
+          new_like_points: number
+          new_points_total: number
+          user_id: string
+        }[]
+      }
+      resolve_duels: {
+        Args: { p_now?: string }
+        Returns: number
+      }
+      score_artwork: {
+        Args: { p_artwork_id: string; p_scores: Json }
+        Returns: undefined
+      }
+      submit_artwork: {
+        Args: {
+          p_attachments?: Json
+          p_description: string
+          p_event_id: string
+          p_image: Json
+          p_title: string
+        }
+        Returns: string
+      }
+      switch_team: {
+        Args: { p_event_id: string; p_team_id: string }
         Returns: undefined
       }
+      update_event_status: {
+        Args: { p_now?: string }
+        Returns: number
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "moderator" | "judge" | "participant"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -490,6 +1826,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "moderator", "judge", "participant"],
+    },
   },
 } as const
@@ -0,0 +1,35 @@
+import { Award, LucideIcon, Palette, Shield, Shuffle, Swords, Trophy } from 'lucide-react';
+import type { Database } from '@/integrations/supabase/types';
+
+export type Achievement = Database['public']['Tables']['achievements']['Row'];
+export type UserAchievement = Database['public']['Tables']['user_achievements']['Row'];
+
+export type AchievementBadge = Pick<Achievement, 'id' | 'name' | 'description' | 'icon' | 'position'>;
+
+// Shape of `user_achievements (achievements (...))` embedded under a profile
+export interface ProfileAchievements {
+  user_achievements: { achievements: AchievementBadge | null }[];
+}
+
+// Keys stored in achievements.icon; unknown keys fall back to a plain award
+const ACHIEVEMENT_ICONS: Record<string, LucideIcon> = {
+  palette: Palette,
+  shield: Shield,
+  shuffle: Shuffle,
+  swords: Swords,
+  trophy: Trophy,
+};
+
+export function achievementIcon(achievement: Pick<Achievement, 'icon'>) {
+  return ACHIEVEMENT_ICONS[achievement.icon] ?? Award;
+}
+
+export function sortAchievements<T extends Pick<Achievement, 'position'>>(achievements: T[]) {
+  return [...achievements].sort((a, b) => a.position - b.position);
+}
+
+export function unlockedBadges(profile: ProfileAchievements | null) {
+  return (profile?.user_achievements ?? [])
+    .map(unlock => unlock.achievements)
+    .filter((achievement): achievement is AchievementBadge => achievement !== null);
+}
@@ -0,0 +1,73 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+// Process media an artist can attach to an artwork. Events with
+// require_process_media only accept artworks that come with at least one.
+export type ArtworkAttachment = Database['public']['Tables']['artwork_attachments']['Row'];
+
+export type AttachmentKind = 'wip' | 'timelapse' | 'source';
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+  wip: 'Work in progress',
+  timelapse: 'Timelapse',
+  source: 'Source file',
+};
+
+// Mirror the checks on artwork_attachments and the bucket's file_size_limit
+export const MAX_WIP_STAGES = 6;
+export const MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+export const ACCEPTED_TIMELAPSE_TYPES = ['video/mp4', 'video/webm', 'image/gif'];
+export const ACCEPTED_TIMELAPSE_FORMATS = 'MP4, WebM, or GIF';
+
+// Layered files from the common painting apps; stored as-is
+export const SOURCE_FILE_EXTENSIONS = ['psd', 'kra', 'procreate', 'clip', 'ora', 'xcf'];
+
+// Source files can carry metadata that can't be scanned for, so they live
+// in a private bucket that only their artist and moderators can read
+export const SOURCE_FILE_BUCKET = 'artwork-source-files';
+
+const SOURCE_FILE_OBJECT = /\/storage\/v1\/object\/authenticated\/artwork-source-files\/(.+)$/;
+
+// Timelapses are stored as uploaded, so they wait in a private bucket until
+// the server has scanned them for a location or XMP and moved them to the
+// public one
+export const PENDING_TIMELAPSE_BUCKET = 'pending-timelapses';
+
+const PENDING_TIMELAPSE_OBJECT = /\/storage\/v1\/object\/authenticated\/pending-timelapses\//;
+
+export function isAwaitingScan(attachment: ArtworkAttachment) {
+  return PENDING_TIMELAPSE_OBJECT.test(attachment.file_url);
+}
+
+// A short-lived link that downloads a source file under its original name
+export async function sourceFileDownloadUrl(attachment: ArtworkAttachment) {
+  const path = attachment.file_url.match(SOURCE_FILE_OBJECT)?.[1];
+  if (!path) throw new Error('This source file is no longer available');
+
+  const { data, error } = await supabase.storage
+    .from(SOURCE_FILE_BUCKET)
+    .createSignedUrl(decodeURIComponent(path), 60, { download: attachment.file_name });
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+export function fileExtension(fileName: string) {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase();
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// WIP stages first in the order they were added, then the timelapse and
+// the source file
+export function sortAttachments(attachments: ArtworkAttachment[]) {
+  const order: AttachmentKind[] = ['wip', 'timelapse', 'source'];
+  return [...attachments].sort((a, b) =>
+    order.indexOf(a.kind as AttachmentKind) - order.indexOf(b.kind as AttachmentKind) || a.position - b.position
+  );
+}
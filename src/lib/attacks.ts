@@ -0,0 +1,23 @@
+import type { Database } from '@/integrations/supabase/types';
+import type { Duel } from '@/lib/duels';
+
+// Attacks are created by the launch_attack() RPC, which checks the target,
+// stores the attack and records its points in one go
+export type Attack = Database['public']['Tables']['attacks']['Row'];
+
+// Mirrors the length check on attacks.message
+export const MAX_ATTACK_MESSAGE_LENGTH = 500;
+
+export interface AttackWithAttacker extends Attack {
+  profiles: {
+    username: string;
+    display_name: string;
+  } | null;
+  // Only attacks with a counter-artwork open a duel
+  duels: Pick<Duel, 'id' | 'closes_at' | 'resolved_at' | 'winner'> | null;
+}
+
+// Attacks on an artwork form a tree through parent_attack_id
+export function childAttacks<T extends Pick<Attack, 'parent_attack_id'>>(attacks: T[], parentAttackId: string | null) {
+  return attacks.filter(attack => attack.parent_attack_id === parentAttackId);
+}
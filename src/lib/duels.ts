@@ -0,0 +1,22 @@
+import type { Database } from '@/integrations/supabase/types';
+
+// Duels are opened by the database for every counter-artwork and closed by
+// the resolve_duels() scheduler, which stores the tallies and the winner.
+// Votes are cast through the cast_duel_vote() RPC.
+export type Duel = Database['public']['Tables']['duels']['Row'];
+
+export type DuelSide = 'defender' | 'challenger';
+
+export type DuelWinner = DuelSide | 'draw';
+
+export const DUEL_WINNER_LABELS: Record<DuelWinner, string> = {
+  defender: 'Defender wins',
+  challenger: 'Challenger wins',
+  draw: 'Draw',
+};
+
+// The scheduler may lag behind closes_at by up to a minute; cast_duel_vote()
+// stops accepting votes at closes_at either way
+export function isDuelOpen(duel: Pick<Duel, 'closes_at' | 'resolved_at'>) {
+  return !duel.resolved_at && Date.now() < new Date(duel.closes_at).getTime();
+}
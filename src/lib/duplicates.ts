@@ -0,0 +1,22 @@
+import type { Database } from '@/integrations/supabase/types';
+
+// duplicate_flags rows are written by the database when a new upload's
+// perceptual hash is close to an earlier one's; moderators dismiss them or
+// remove the upload
+export type DuplicateFlag = Database['public']['Tables']['duplicate_flags']['Row'];
+
+// An artwork or counter-artwork on either side of a flag
+export interface FlaggedImage {
+  id: string;
+  title: string | null;
+  image_url: string | null;
+  thumbnail_url: string | null;
+  profiles: {
+    display_name: string;
+  } | null;
+}
+
+// Perceptual hashes are 64 bits
+export function duplicateSimilarity(distance: number) {
+  return Math.round((1 - distance / 64) * 100);
+}
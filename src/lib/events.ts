@@ -0,0 +1,55 @@
+// events.status is advanced by the update_event_status() scheduler in the
+// database, so pages read the phase from it rather than comparing timestamps
+// against the browser clock.
+export type EventStatus = 'upcoming' | 'ongoing' | 'midway' | 'ended';
+
+interface EventPhaseFields {
+  status: string;
+  theme: string;
+  midway_theme: string | null;
+  midway_time: string | null;
+}
+
+export function isEventLive(status: string) {
+  return status === 'ongoing' || status === 'midway';
+}
+
+export function isEventJoinable(status: string) {
+  return status === 'upcoming' || isEventLive(status);
+}
+
+// Leaving and switching teams close team_change_grace_minutes after the
+// start; leave_event() and switch_team() check the same window server-side
+export function areTeamChangesOpen(event: { status: string; start_time: string; team_change_grace_minutes: number }) {
+  if (event.status === 'upcoming') return true;
+  if (!isEventLive(event.status)) return false;
+
+  return Date.now() < new Date(event.start_time).getTime() + event.team_change_grace_minutes * 60 * 1000;
+}
+
+export function isMidwayThemeActive(event: EventPhaseFields) {
+  if (!event.midway_theme) return false;
+  return event.status === 'midway' || (event.status === 'ended' && !!event.midway_time);
+}
+
+export function getCurrentTheme(event: EventPhaseFields) {
+  return isMidwayThemeActive(event) ? event.midway_theme : event.theme;
+}
+
+// Artworks record the phase they were submitted under; the database sets it
+export type ThemePhase = 'opening' | 'midway';
+
+export const THEME_PHASE_LABELS: Record<ThemePhase, string> = {
+  opening: 'Opening theme',
+  midway: 'Midway theme',
+};
+
+// Joining is done by the join_event() RPC, which enforces the event's policy
+export type JoinPolicy = 'auto_balance' | 'user_choice' | 'invite_only' | 'admin_assign';
+
+export const JOIN_POLICY_LABELS: Record<JoinPolicy, string> = {
+  auto_balance: 'Auto-balanced teams',
+  user_choice: 'Participants pick a team',
+  invite_only: 'Invite only',
+  admin_assign: 'Assigned by organisers',
+};
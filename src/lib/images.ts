@@ -0,0 +1,193 @@
+import { decode, encode } from 'blurhash';
+
+export type ImageVariant = 'thumbnail' | 'medium' | 'full';
+
+// Longest edge of each variant; smaller images are never upscaled
+export const IMAGE_VARIANT_SIZES: Record<ImageVariant, number> = {
+  thumbnail: 320,
+  medium: 960,
+  full: 2048,
+};
+
+// Tried in order; the first one the browser can encode is used for every
+// variant of an image
+const OUTPUT_FORMATS = ['image/avif', 'image/webp', 'image/jpeg'];
+
+// sizes for artwork cards in the md:grid-cols-2 lg:grid-cols-3 gallery grids
+export const ARTWORK_CARD_SIZES = '(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw';
+
+const ENCODE_QUALITY = 0.82;
+const BLURHASH_SIZE = 32;
+
+// Row columns describing an uploaded image and its variants
+export interface ResponsiveImage {
+  image_url: string;
+  thumbnail_url: string | null;
+  medium_url: string | null;
+  image_width: number | null;
+  image_height: number | null;
+  blurhash: string | null;
+}
+
+export interface ProcessedImage {
+  variants: Record<ImageVariant, Blob>;
+  contentType: string;
+  width: number;
+  height: number;
+  blurhash: string;
+  perceptualHash: string;
+}
+
+function scaledSize(width: number, height: number, maxEdge: number) {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+function drawScaled(bitmap: ImageBitmap, width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Your browser cannot process images');
+
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+  return { canvas, context };
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string) {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, ENCODE_QUALITY));
+}
+
+// Browsers fall back to PNG for formats they can't encode, so check what
+// actually came out
+async function encodeCanvas(canvas: HTMLCanvasElement, formats: string[]) {
+  for (const format of formats) {
+    const blob = await canvasToBlob(canvas, format);
+    if (blob?.type === format) return blob;
+  }
+  throw new Error('Your browser cannot process images');
+}
+
+// Difference hash: average the pixels into a 9x8 greyscale grid and record
+// whether each cell is brighter than its right-hand neighbour, giving 64
+// bits as 16 hex digits. Resized or re-encoded copies of an image hash the
+// same or a few bits apart. The verify-image-hash edge function computes the
+// same hash from the stored thumbnail, so keep the two in step.
+function differenceHash({ data, width, height }: ImageData) {
+  const sums = new Float64Array(9 * 8);
+  const counts = new Uint32Array(9 * 8);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor((y * 8) / height) * 9;
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const cell = row + Math.floor((x * 9) / width);
+      sums[cell] += data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+      counts[cell]++;
+    }
+  }
+
+  const brightness = (x: number, y: number) => sums[y * 9 + x] / counts[y * 9 + x];
+
+  let hash = '';
+  for (let y = 0; y < 8; y++) {
+    let bits = 0;
+    for (let x = 0; x < 8; x++) {
+      bits = (bits << 1) | (brightness(x, y) > brightness(x + 1, y) ? 1 : 0);
+    }
+    hash += bits.toString(16).padStart(2, '0');
+  }
+  return hash;
+}
+
+// Hashes the encoded thumbnail, as stored, rather than the original
+async function perceptualHash(thumbnail: Blob) {
+  const bitmap = await createImageBitmap(thumbnail);
+
+  try {
+    const { context } = drawScaled(bitmap, bitmap.width, bitmap.height);
+    return differenceHash(context.getImageData(0, 0, bitmap.width, bitmap.height));
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Resizes an upload into its variants and computes its placeholder and
+// perceptual hash.
+// EXIF orientation is applied while decoding, so the variants come out
+// upright; drawing to a canvas and re-encoding drops the metadata itself,
+// GPS location included.
+export async function processImage(file: File): Promise<ProcessedImage> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    const full = scaledSize(bitmap.width, bitmap.height, IMAGE_VARIANT_SIZES.full);
+    const fullBlob = await encodeCanvas(drawScaled(bitmap, full.width, full.height).canvas, OUTPUT_FORMATS);
+    const contentType = fullBlob.type;
+
+    const resize = async (variant: ImageVariant) => {
+      const size = scaledSize(bitmap.width, bitmap.height, IMAGE_VARIANT_SIZES[variant]);
+      return encodeCanvas(drawScaled(bitmap, size.width, size.height).canvas, [contentType]);
+    };
+
+    const placeholder = scaledSize(bitmap.width, bitmap.height, BLURHASH_SIZE);
+    const { context } = drawScaled(bitmap, placeholder.width, placeholder.height);
+    const pixels = context.getImageData(0, 0, placeholder.width, placeholder.height);
+
+    const thumbnail = await resize('thumbnail');
+
+    return {
+      variants: {
+        thumbnail,
+        medium: await resize('medium'),
+        full: fullBlob,
+      },
+      contentType,
+      width: full.width,
+      height: full.height,
+      blurhash: encode(pixels.data, placeholder.width, placeholder.height, 4, 3),
+      perceptualHash: await perceptualHash(thumbnail),
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// srcset for the stored variants, or undefined for images uploaded before
+// they existed
+export function imageSrcSet(image: ResponsiveImage) {
+  const { thumbnail_url, medium_url, image_url, image_width, image_height } = image;
+  if (!thumbnail_url || !medium_url || !image_width || !image_height) return undefined;
+
+  const thumbnail = scaledSize(image_width, image_height, IMAGE_VARIANT_SIZES.thumbnail);
+  const medium = scaledSize(image_width, image_height, IMAGE_VARIANT_SIZES.medium);
+
+  return `${thumbnail_url} ${thumbnail.width}w, ${medium_url} ${medium.width}w, ${image_url} ${image_width}w`;
+}
+
+const placeholderCache = new Map<string, string>();
+
+// Decodes a blurhash into a small data URL for use as a background
+export function blurhashDataUrl(blurhash: string, width: number, height: number) {
+  const size = scaledSize(width, height, BLURHASH_SIZE);
+  const key = `${blurhash}:${size.width}x${size.height}`;
+  const cached = placeholderCache.get(key);
+  if (cached) return cached;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+
+  const context = canvas.getContext('2d');
+  if (!context) return undefined;
+
+  const pixels = context.createImageData(size.width, size.height);
+  pixels.data.set(decode(blurhash, size.width, size.height));
+  context.putImageData(pixels, 0, 0);
+
+  const url = canvas.toDataURL();
+  placeholderCache.set(key, url);
+  return url;
+}
@@ -0,0 +1,32 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type JudgingCriterion = Database['public']['Tables']['judging_criteria']['Row'];
+
+// Judges write their scores through the score_artwork() RPC. Other users can
+// only read them once the event has ended.
+export type JudgeScore = Database['public']['Tables']['judge_scores']['Row'];
+
+// The rubric a new judged event starts with
+export const DEFAULT_JUDGING_CRITERIA = ['Theme adherence', 'Technique', 'Creativity'];
+
+export const MAX_JUDGING_CRITERIA = 8;
+
+export function sortCriteria<T extends Pick<JudgingCriterion, 'position'>>(criteria: T[]) {
+  return [...criteria].sort((a, b) => a.position - b.position);
+}
+
+// An artwork's judge points are its rubric total averaged over the judges
+// who scored it, the same way get_event_standings() counts them
+export function artworkJudgePoints(scores: Pick<JudgeScore, 'artwork_id' | 'judge_id' | 'score'>[], artworkId: string) {
+  const totals = new Map<string, number>();
+
+  scores
+    .filter(score => score.artwork_id === artworkId)
+    .forEach(score => {
+      totals.set(score.judge_id, (totals.get(score.judge_id) ?? 0) + score.score);
+    });
+
+  if (totals.size === 0) return null;
+
+  return [...totals.values()].reduce((sum, total) => sum + total, 0) / totals.size;
+}
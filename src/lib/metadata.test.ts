@@ -0,0 +1,79 @@
+import { readFile } from 'node:fs/promises';
+import { describe, expect, it } from 'vitest';
+import { processImage } from '@/lib/images';
+import { findImageMetadata, findTimelapseMetadata } from '@/lib/metadata';
+
+// Each fixture carries an EXIF block whose GPS IFD puts the photo in London
+const FIXTURES = [
+  { name: 'gps.jpg', type: 'image/jpeg' },
+  { name: 'gps.webp', type: 'image/webp' },
+  { name: 'gps.avif', type: 'image/avif' },
+];
+
+async function loadFixture(name: string, type: string) {
+  const bytes = await readFile(new URL(`../test/fixtures/${name}`, import.meta.url));
+  return new File([bytes], name, { type });
+}
+
+// The GPSInfo tag (0x8825) in IFD0, in either byte order
+async function hasGpsTag(blob: Blob) {
+  const bytes = Buffer.from(await blob.arrayBuffer());
+  return bytes.includes(Buffer.from([0x25, 0x88])) || bytes.includes(Buffer.from([0x88, 0x25]));
+}
+
+describe('findImageMetadata', () => {
+  it.each(FIXTURES)('finds the GPS-tagged EXIF block in $name', async ({ name, type }) => {
+    const file = await loadFixture(name, type);
+
+    expect(await hasGpsTag(file)).toBe(true);
+    expect(await findImageMetadata(file)).toBe('EXIF');
+  });
+});
+
+describe('processImage', () => {
+  it.each(FIXTURES)('stores $name without EXIF, XMP or IPTC in any variant', async ({ name, type }) => {
+    const image = await processImage(await loadFixture(name, type));
+
+    for (const variant of Object.values(image.variants)) {
+      expect(variant.type).toBe(image.contentType);
+      expect(await findImageMetadata(variant)).toBeNull();
+    }
+  });
+});
+
+// An MP4 box: 32-bit size, four-character type, then the payload
+function box(type: string, ...payload: (string | Uint8Array)[]) {
+  const body = Buffer.concat(payload.map(part => typeof part === 'string' ? Buffer.from(part, 'latin1') : part));
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + body.length);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+}
+
+const XMP_UUID = Buffer.from('be7acfcb97a942e89c71999491e3afac', 'hex');
+const XMP_PACKET = '<x:xmpmeta xmlns:x="adobe:ns:meta/"></x:xmpmeta>';
+const ftyp = box('ftyp', 'isom', '\0\0\x02\0', 'isomiso2mp41');
+
+describe('findTimelapseMetadata', () => {
+  it.each([
+    { label: 'an MP4 with a ©xyz location', video: [ftyp, box('moov', box('udta', box('©xyz', '+51.5000-000.1167/')))], expected: 'location' },
+    { label: 'an MP4 with a QuickTime location key', video: [ftyp, box('moov', box('meta', 'mdta', 'com.apple.quicktime.location.ISO6709'))], expected: 'location' },
+    { label: 'an MP4 with an XMP uuid box', video: [ftyp, box('uuid', XMP_UUID, XMP_PACKET), box('moov')], expected: 'XMP' },
+    { label: 'an MP4 with an XMP_ box', video: [ftyp, box('moov', box('udta', box('XMP_', XMP_PACKET)))], expected: 'XMP' },
+    { label: 'a clean MP4', video: [ftyp, box('moov', box('mvhd')), box('mdat', 'loci')], expected: null },
+  ])('reports $label', async ({ video, expected }) => {
+    expect(await findTimelapseMetadata(new Blob(video), 'video/mp4')).toBe(expected);
+  });
+
+  it('finds XMP in a GIF application extension', async () => {
+    const gif = Buffer.concat([
+      Buffer.from('GIF89a\x01\0\x01\0\0\0\0', 'latin1'),
+      Buffer.from('\x21\xff\x0bXMP DataXMP', 'latin1'),
+      Buffer.from(XMP_PACKET),
+      Buffer.from('\x3b', 'latin1'),
+    ]);
+
+    expect(await findTimelapseMetadata(new Blob([gif]), 'image/gif')).toBe('XMP');
+    expect(await findTimelapseMetadata(new Blob([gif.subarray(0, 13)]), 'image/gif')).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+// Finds EXIF, XMP and IPTC blocks in the formats uploads are stored in.
+// Re-encoding through a canvas drops them all, so this is a last check that
+// nothing like an artist's GPS location reaches storage.
+
+export type ImageMetadataKind = 'EXIF' | 'XMP' | 'IPTC';
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// APP1 holds EXIF or XMP and APP13 holds IPTC; the markers before the scan
+// data are the only place they can be
+function findJpegMetadata(bytes: Uint8Array): ImageMetadataKind | null {
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+
+    if (marker === 0xda) break;
+    if (marker === 0xe1 && ascii(bytes, offset + 4, 6) === 'Exif\0\0') return 'EXIF';
+    if (marker === 0xe1 && ascii(bytes, offset + 4, 28) === 'http://ns.adobe.com/xap/1.0/') return 'XMP';
+    if (marker === 0xed && ascii(bytes, offset + 4, 13) === 'Photoshop 3.0') return 'IPTC';
+
+    offset += 2 + length;
+  }
+
+  return null;
+}
+
+// WebP keeps metadata in its own RIFF chunks
+function findWebpMetadata(bytes: Uint8Array): ImageMetadataKind | null {
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const chunk = ascii(bytes, offset, 4);
+    const size = bytes[offset + 4] | (bytes[offset + 5] << 8) | (bytes[offset + 6] << 16) | (bytes[offset + 7] << 24);
+
+    if (chunk === 'EXIF') return 'EXIF';
+    if (chunk === 'XMP ') return 'XMP';
+
+    // Chunks are padded to an even size
+    offset += 8 + size + (size % 2);
+  }
+
+  return null;
+}
+
+// AVIF declares metadata as items in the meta box: an Exif item, or a mime
+// item carrying XMP
+function findAvifMetadata(bytes: Uint8Array): ImageMetadataKind | null {
+  let offset = 0;
+
+  while (offset + 8 <= bytes.length) {
+    const size = ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+    const type = ascii(bytes, offset + 4, 4);
+
+    if (type === 'meta') {
+      const meta = ascii(bytes, offset, Math.min(size || bytes.length - offset, 65536));
+      if (meta.includes('infe') && /Exif/.test(meta)) return 'EXIF';
+      if (meta.includes('application/rdf+xml')) return 'XMP';
+      return null;
+    }
+    if (size < 8) break;
+
+    offset += size;
+  }
+
+  return null;
+}
+
+export async function findImageMetadata(image: Blob): Promise<ImageMetadataKind | null> {
+  const bytes = new Uint8Array(await image.arrayBuffer());
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return findJpegMetadata(bytes);
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return findWebpMetadata(bytes);
+  if (ascii(bytes, 4, 4) === 'ftyp') return findAvifMetadata(bytes);
+  return null;
+}
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// What a timelapse can reveal: where it was filmed, or an XMP packet
+export type TimelapseMetadataKind = 'location' | 'XMP';
+
+// The usertype of the top-level uuid box MP4 keeps XMP in
+const XMP_UUID = '\xbe\x7a\xcf\xcb\x97\xa9\x42\xe8\x9c\x71\x99\x94\x91\xe3\xaf\xac';
+
+// GIFs keep XMP in an application extension block
+async function findGifMetadata(gif: Blob): Promise<TimelapseMetadataKind | null> {
+  const text = new TextDecoder('latin1').decode(await gif.arrayBuffer());
+  return text.includes('\x21\xff\x0bXMP DataXMP') ? 'XMP' : null;
+}
+
+// Phones record where an MP4 was shot as a '©xyz' or 'loci' box, or a
+// QuickTime location key, in the moov box's metadata; XMP sits in a
+// top-level uuid box or an 'XMP_' box beside them. Only the box headers and
+// the moov box are read, not the media data around them.
+async function findMp4Metadata(video: Blob): Promise<TimelapseMetadataKind | null> {
+  let offset = 0;
+
+  while (offset + 8 <= video.size) {
+    const header = new Uint8Array(await video.slice(offset, offset + 32).arrayBuffer());
+    const type = ascii(header, 4, 4);
+    let size = readUint32(header, 0);
+    let headerSize = 8;
+
+    // Sizes of 1 are followed by a 64-bit size, and 0 runs to the end
+    if (size === 1) {
+      size = readUint32(header, 8) * 2 ** 32 + readUint32(header, 12);
+      headerSize = 16;
+    }
+    if (size === 0) size = video.size - offset;
+
+    if (type === 'uuid' && ascii(header, headerSize, 16) === XMP_UUID) return 'XMP';
+    if (type === 'moov') {
+      const moov = new TextDecoder('latin1').decode(await video.slice(offset, offset + size).arrayBuffer());
+      if (moov.includes('©xyz') || moov.includes('loci') || moov.includes('com.apple.quicktime.location')) return 'location';
+      if (moov.includes('XMP_')) return 'XMP';
+    }
+    if (size < 8) break;
+
+    offset += size;
+  }
+
+  return null;
+}
+
+// Timelapses can't be re-encoded in the browser, so this only reports what
+// they carry. WebM has no place for EXIF, XMP, IPTC or a location.
+export async function findTimelapseMetadata(timelapse: Blob, type: string): Promise<TimelapseMetadataKind | null> {
+  if (type === 'image/gif') return findGifMetadata(timelapse);
+  if (type === 'video/mp4') return findMp4Metadata(timelapse);
+  return null;
+}
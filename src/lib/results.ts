@@ -0,0 +1,57 @@
+import type { Database } from '@/integrations/supabase/types';
+
+// event_results is written once by snapshot_event_results() when an event
+// ends; its JSON columns hold the shapes below
+export type EventResultsRow = Database['public']['Tables']['event_results']['Row'];
+
+export interface TeamStanding {
+  team_id: string;
+  name: string;
+  position: number;
+  points: number;
+  members: number;
+  artworks: number;
+  likes: number;
+}
+
+export interface ArtistStanding {
+  user_id: string;
+  display_name: string;
+  team_id: string;
+  points: number;
+}
+
+export interface ResultArtwork {
+  id: string;
+  title: string;
+  image_url: string;
+  user_id: string;
+  display_name: string;
+  count: number;
+}
+
+export interface EventResults extends Omit<EventResultsRow, 'team_standings' | 'top_artists' | 'mvp' | 'most_liked_artwork' | 'most_attacked_artwork'> {
+  team_standings: TeamStanding[];
+  top_artists: ArtistStanding[];
+  mvp: ArtistStanding | null;
+  most_liked_artwork: ResultArtwork | null;
+  most_attacked_artwork: ResultArtwork | null;
+}
+
+export type DecidedBy = 'points' | 'artworks' | 'likes' | 'draw';
+
+export const DECIDED_BY_LABELS: Record<DecidedBy, string> = {
+  points: 'Won on points',
+  artworks: 'Tied on points, won on artworks submitted',
+  likes: 'Tied on points and artworks, won on likes received',
+  draw: 'Draw: teams tied on points, artworks and likes',
+};
+
+// The live leader is only shown when one team is strictly ahead; the final
+// winner, tie-breaks included, comes from event_results
+export function leadingTeamId(scores: { teamId: string; points: number }[]) {
+  const top = Math.max(...scores.map(score => score.points));
+  const leaders = scores.filter(score => score.points === top);
+
+  return leaders.length === 1 ? leaders[0].teamId : null;
+}
@@ -0,0 +1,30 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type Season = Database['public']['Tables']['seasons']['Row'];
+
+// Select value for events and tournaments that don't belong to a season
+export const NO_SEASON = 'none';
+
+export type SeasonStandingsMode = 'points' | 'placements';
+
+export const SEASON_STANDINGS_LABELS: Record<SeasonStandingsMode, string> = {
+  points: 'Total points across the season',
+  placements: 'Placement points: 10 for first in an event down to 1 for tenth',
+};
+
+// start_date and end_date are plain dates, so format them without the
+// timezone shift new Date('YYYY-MM-DD') would apply
+export function formatSeasonDate(date: string) {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString();
+}
+
+export function formatSeasonRange(season: Pick<Season, 'start_date' | 'end_date'>) {
+  return `${formatSeasonDate(season.start_date)} – ${formatSeasonDate(season.end_date)}`;
+}
+
+// The season whose dates include today, if any
+export function currentSeason(seasons: Season[]) {
+  const today = new Date().toLocaleDateString('en-CA');
+  return seasons.find(season => season.start_date <= today && today <= season.end_date) ?? null;
+}
@@ -0,0 +1,27 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type EventTeam = Database['public']['Tables']['event_teams']['Row'];
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 8;
+
+// Fallback colors by team position; the first two match the original
+// red and gold used for Team A and Team B
+export const DEFAULT_TEAM_COLORS = [
+  '#E53935',
+  '#F9A825',
+  '#14B8A6',
+  '#3B82F6',
+  '#8B5CF6',
+  '#EC4899',
+  '#22C55E',
+  '#F97316',
+];
+
+export function getTeamColor(team: Pick<EventTeam, 'color' | 'position'>) {
+  return team.color ?? DEFAULT_TEAM_COLORS[(team.position - 1) % DEFAULT_TEAM_COLORS.length];
+}
+
+export function sortTeams<T extends Pick<EventTeam, 'position'>>(teams: T[]) {
+  return [...teams].sort((a, b) => a.position - b.position);
+}
@@ -0,0 +1,39 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type Tournament = Database['public']['Tables']['tournaments']['Row'];
+export type TournamentTeam = Database['public']['Tables']['tournament_teams']['Row'];
+export type TournamentMatch = Database['public']['Tables']['tournament_matches']['Row'];
+
+export type TournamentFormat = 'single_elimination' | 'double_elimination';
+
+export type TournamentBracket = 'winners' | 'losers' | 'grand_final';
+
+export const TOURNAMENT_FORMAT_LABELS: Record<TournamentFormat, string> = {
+  single_elimination: 'Single elimination',
+  double_elimination: 'Double elimination',
+};
+
+// The headings a double-elimination bracket is drawn under; single
+// elimination only has a winners bracket
+export const TOURNAMENT_BRACKET_LABELS: Record<TournamentBracket, string> = {
+  winners: 'Winners Bracket',
+  losers: 'Losers Bracket',
+  grand_final: 'Grand Final',
+};
+
+// create_tournament() takes a power-of-two number of teams
+export const TOURNAMENT_TEAM_COUNTS = [2, 4, 8, 16, 32];
+
+// The matches of one bracket grouped into rounds, in play order
+export function bracketRounds(matches: TournamentMatch[], bracket: TournamentBracket) {
+  const rounds = new Map<number, TournamentMatch[]>();
+
+  matches
+    .filter(match => match.bracket === bracket)
+    .sort((a, b) => a.round - b.round || a.position - b.position)
+    .forEach(match => {
+      rounds.set(match.round, [...(rounds.get(match.round) ?? []), match]);
+    });
+
+  return Array.from(rounds.values());
+}
@@ -0,0 +1,152 @@
+import { readFile } from 'node:fs/promises';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { processImage } from '@/lib/images';
+import { findImageMetadata } from '@/lib/metadata';
+import { sniffTimelapseType, uploadAttachments, uploadImage } from '@/lib/uploads';
+
+// Paths the mocks see are prefixed with their bucket
+const storage = {
+  createSignedUploadUrl: vi.fn(async (path: string) => ({ data: { signedUrl: `https://storage.test/${path}` }, error: null })),
+  getPublicUrl: vi.fn((path: string) => ({ data: { publicUrl: `https://storage.test/storage/v1/object/public/${path}` } })),
+  remove: vi.fn(async (_paths: string[]) => ({ data: [], error: null })),
+};
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    storage: {
+      from: (bucket: string) => ({
+        createSignedUploadUrl: (path: string) => storage.createSignedUploadUrl(`${bucket}/${path}`),
+        getPublicUrl: (path: string) => storage.getPublicUrl(`${bucket}/${path}`),
+        remove: (paths: string[]) => storage.remove(paths.map(path => `${bucket}/${path}`)),
+      }),
+    },
+  },
+}));
+
+vi.mock('@/lib/images', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/images')>();
+  return { ...actual, processImage: vi.fn(actual.processImage) };
+});
+
+// The objects that reached storage, by signed URL
+const stored = new Map<string, Blob>();
+
+class FakeXMLHttpRequest {
+  status = 0;
+  statusText = '';
+  responseText = '';
+  upload: { onprogress?: (event: { loaded: number }) => void } = {};
+  onload?: () => void;
+  onerror?: () => void;
+  private url = '';
+
+  open(_method: string, url: string) {
+    this.url = url;
+  }
+
+  setRequestHeader() {}
+
+  send(body: FormData) {
+    stored.set(this.url, body.get('') as Blob);
+    this.status = 200;
+    this.onload?.();
+  }
+}
+
+async function loadFixture(name: string, type: string) {
+  const bytes = await readFile(new URL(`../test/fixtures/${name}`, import.meta.url));
+  return new File([bytes], name, { type });
+}
+
+beforeEach(() => {
+  stored.clear();
+  vi.clearAllMocks();
+  vi.stubGlobal('XMLHttpRequest', FakeXMLHttpRequest);
+});
+
+describe('uploadImage', () => {
+  it.each([
+    { name: 'gps.jpg', type: 'image/jpeg' },
+    { name: 'gps.webp', type: 'image/webp' },
+    { name: 'gps.avif', type: 'image/avif' },
+  ])('uploads only metadata-free variants of $name', async ({ name, type }) => {
+    const save = vi.fn(async () => 'saved');
+
+    await expect(uploadImage(await loadFixture(name, type), { bucket: 'artworks', userId: 'user-1' }, save)).resolves.toBe('saved');
+
+    expect(stored.size).toBe(3);
+    for (const [url, blob] of stored) {
+      expect(url).toMatch(/^https:\/\/storage\.test\/artworks\/user-1\/[^/]+\/(thumbnail|medium|full)\.\w+$/);
+      expect(await findImageMetadata(blob)).toBeNull();
+    }
+    expect(save).toHaveBeenCalledOnce();
+  });
+
+  it('refuses to upload a variant that still carries metadata', async () => {
+    const tagged = await loadFixture('gps.jpg', 'image/jpeg');
+    const processed = await vi.mocked(processImage).getMockImplementation()!(tagged);
+    vi.mocked(processImage).mockResolvedValueOnce({
+      ...processed,
+      variants: { ...processed.variants, medium: tagged },
+    });
+    const save = vi.fn();
+
+    await expect(uploadImage(tagged, { bucket: 'artworks', userId: 'user-1' }, save))
+      .rejects.toThrow('Could not remove EXIF metadata from this image');
+
+    expect(storage.createSignedUploadUrl).not.toHaveBeenCalled();
+    expect(save).not.toHaveBeenCalled();
+  });
+});
+
+describe('uploadAttachments', () => {
+  it('keeps source files out of the public bucket', async () => {
+    const wip = await loadFixture('gps.jpg', 'image/jpeg');
+    const source = new File(['8BPS layered'], 'battle.psd', { type: 'image/vnd.adobe.photoshop' });
+    const save = vi.fn(async () => 'saved');
+
+    await uploadAttachments([{ kind: 'wip', file: wip }, { kind: 'source', file: source }], { userId: 'user-1' }, save);
+
+    expect([...stored.keys()]).toEqual([
+      expect.stringMatching(/^https:\/\/storage\.test\/artwork-attachments\/user-1\/[^/]+\/wip-1\.\w+$/),
+      expect.stringMatching(/^https:\/\/storage\.test\/artwork-source-files\/user-1\/[^/]+\/source-2\.psd$/),
+    ]);
+    expect(save).toHaveBeenCalledWith([
+      expect.objectContaining({ kind: 'wip', file_url: expect.stringContaining('/object/public/artwork-attachments/user-1/') }),
+      expect.objectContaining({ kind: 'source', file_url: expect.stringContaining('/object/authenticated/artwork-source-files/user-1/') }),
+    ]);
+  });
+
+  it('holds timelapses back in a private bucket for the server scan', async () => {
+    const timelapse = new File(
+      [new Uint8Array([0, 0, 0, 16]), 'ftypisom\0\0\0\0', new Uint8Array([0, 0, 0, 8]), 'mdat'],
+      'process.mp4',
+      { type: 'video/mp4' }
+    );
+    const save = vi.fn(async () => 'saved');
+
+    await uploadAttachments([{ kind: 'timelapse', file: timelapse }], { userId: 'user-1' }, save);
+
+    expect([...stored.keys()]).toEqual([
+      expect.stringMatching(/^https:\/\/storage\.test\/pending-timelapses\/user-1\/[^/]+\/timelapse-1\.mp4$/),
+    ]);
+    expect(save).toHaveBeenCalledWith([
+      expect.objectContaining({ kind: 'timelapse', file_url: expect.stringContaining('/object/authenticated/pending-timelapses/user-1/') }),
+    ]);
+  });
+});
+
+describe('sniffTimelapseType', () => {
+  // The ftyp box that opens ISO media files, listing its major brand
+  const ftyp = (brand: string) => new Blob([new Uint8Array([0, 0, 0, 20]), `ftyp${brand}\0\0\0\0isom`]);
+
+  it.each([
+    { brand: 'isom', type: 'video/mp4' },
+    { brand: 'mp42', type: 'video/mp4' },
+    { brand: 'qt  ', type: null },
+    { brand: 'heic', type: null },
+    { brand: 'avif', type: null },
+  ])('reads a $brand ftyp box as $type', async ({ brand, type }) => {
+    expect(await sniffTimelapseType(ftyp(brand))).toBe(type);
+  });
+});
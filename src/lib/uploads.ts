@@ -0,0 +1,386 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ACCEPTED_TIMELAPSE_FORMATS,
+  AttachmentKind,
+  MAX_ATTACHMENT_BYTES,
+  PENDING_TIMELAPSE_BUCKET,
+  SOURCE_FILE_BUCKET,
+  SOURCE_FILE_EXTENSIONS,
+  fileExtension,
+} from '@/lib/attachments';
+import { ImageVariant, processImage } from '@/lib/images';
+import { findImageMetadata, findTimelapseMetadata } from '@/lib/metadata';
+
+export type UploadBucket = 'artworks' | 'fight-artworks' | 'artwork-attachments' | 'pending-timelapses' | 'artwork-source-files';
+
+// Mirrors the file_size_limit on the artwork buckets
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MIN_IMAGE_DIMENSION = 256;
+export const MAX_IMAGE_DIMENSION = 8192;
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif'];
+export const ACCEPTED_IMAGE_FORMATS = 'JPG, PNG, WebP, or AVIF';
+
+const FORMAT_EXTENSIONS: Record<string, string> = {
+  'image/avif': 'avif',
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+};
+
+const TIMELAPSE_EXTENSIONS: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'image/gif': 'gif',
+};
+
+const CACHE_CONTROL = '31536000';
+const UPLOAD_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+// Row columns for an uploaded image and its variants
+export interface UploadedImage {
+  image_url: string;
+  thumbnail_url: string;
+  medium_url: string;
+  image_width: number;
+  image_height: number;
+  blurhash: string;
+  perceptual_hash: string;
+}
+
+interface UploadImageOptions {
+  bucket: UploadBucket;
+  userId: string;
+  // Called with the percentage of bytes uploaded so far
+  onProgress?: (percent: number) => void;
+}
+
+// A file picked to attach to an artwork
+export interface AttachmentFile {
+  kind: AttachmentKind;
+  file: File;
+}
+
+// Row columns for an uploaded attachment, less the artwork it belongs to
+export interface UploadedAttachment {
+  kind: AttachmentKind;
+  file_url: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+}
+
+class UploadRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// Identifies the image format from the file's magic bytes rather than its
+// name or the type the browser guessed
+export async function sniffImageType(file: Blob) {
+  const bytes = new Uint8Array(await file.slice(0, 32).arrayBuffer());
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.slice(start, end));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') return 'image/png';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  // AVIF lists its brands in the ftyp box at the start of the file
+  if (ascii(4, 8) === 'ftyp' && /avi[fs]/.test(ascii(8, Math.min(bytes[3], bytes.length)))) return 'image/avif';
+  return null;
+}
+
+// Timelapses are stored as uploaded, so the format still comes from the
+// bytes. QuickTime, HEIC and AVIF files share the ftyp box with MP4, so
+// only the major brands MP4 files are written with count.
+const MP4_BRANDS = /^(isom|iso[2-9]|mp4[12]|avc1|M4V |mmp4|dash)$/;
+
+export async function sniffTimelapseType(file: Blob) {
+  const bytes = new Uint8Array(await file.slice(0, 64).arrayBuffer());
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.slice(start, end));
+
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'image/gif';
+  if (ascii(4, 8) === 'ftyp' && MP4_BRANDS.test(ascii(8, 12))) return 'video/mp4';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3 && ascii(0, 64).includes('webm')) {
+    return 'video/webm';
+  }
+  return null;
+}
+
+// Returns why the file can't be uploaded, or null if it can
+export async function validateImageFile(file: File) {
+  const type = await sniffImageType(file);
+  if (!type || !ACCEPTED_IMAGE_TYPES.includes(type)) {
+    return `Please upload a ${ACCEPTED_IMAGE_FORMATS} image`;
+  }
+
+  if (file.size > MAX_IMAGE_BYTES) {
+    return 'Please upload an image smaller than 5MB';
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    return 'This image appears to be damaged';
+  }
+
+  const { width, height } = bitmap;
+  bitmap.close();
+
+  if (Math.min(width, height) < MIN_IMAGE_DIMENSION) {
+    return `Please upload an image at least ${MIN_IMAGE_DIMENSION}px on each side`;
+  }
+  if (Math.max(width, height) > MAX_IMAGE_DIMENSION) {
+    return `Please upload an image no larger than ${MAX_IMAGE_DIMENSION}px on either side`;
+  }
+
+  return null;
+}
+
+// Returns why the file can't be attached as the given kind, or null if it can
+export async function validateAttachmentFile(file: File, kind: AttachmentKind) {
+  if (kind === 'wip') return validateImageFile(file);
+
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return 'Please upload a file smaller than 50MB';
+  }
+
+  if (kind === 'timelapse') {
+    const type = await sniffTimelapseType(file);
+    if (!type) {
+      return `Please upload a ${ACCEPTED_TIMELAPSE_FORMATS} timelapse`;
+    }
+    const metadata = await findTimelapseMetadata(file, type);
+    if (metadata === 'location') {
+      return 'This timelapse records where it was filmed. Please export it without location data';
+    }
+    if (metadata) {
+      return `This timelapse carries ${metadata} metadata. Please export it without metadata`;
+    }
+    return null;
+  }
+
+  if (!SOURCE_FILE_EXTENSIONS.includes(fileExtension(file.name))) {
+    return `Please upload a source file (${SOURCE_FILE_EXTENSIONS.map(extension => `.${extension}`).join(', ')})`;
+  }
+
+  return null;
+}
+
+// Network failures, rate limits and server errors are worth another try
+function isRetryable(error: unknown) {
+  return error instanceof UploadRequestError && (error.status === 0 || error.status === 429 || error.status >= 500);
+}
+
+// Same request uploadToSignedUrl() makes, over XHR so progress is reported
+function putToSignedUrl(signedUrl: string, blob: Blob, onProgress: (loaded: number) => void) {
+  return new Promise<void>((resolve, reject) => {
+    const body = new FormData();
+    body.append('cacheControl', CACHE_CONTROL);
+    body.append('', blob);
+
+    const request = new XMLHttpRequest();
+    request.open('PUT', signedUrl);
+    request.setRequestHeader('x-upsert', 'false');
+
+    request.upload.onprogress = (event) => onProgress(Math.min(event.loaded, blob.size));
+    request.onload = () => {
+      if (request.status < 300) {
+        onProgress(blob.size);
+        resolve();
+        return;
+      }
+
+      let message = request.statusText || 'Failed to upload image';
+      try {
+        message = JSON.parse(request.responseText).message ?? message;
+      } catch {
+        // Not a JSON error body
+      }
+      reject(new UploadRequestError(request.status, message));
+    };
+    request.onerror = () => reject(new UploadRequestError(0, 'Network error while uploading'));
+
+    request.send(body);
+  });
+}
+
+async function uploadObject(bucket: UploadBucket, path: string, blob: Blob, onProgress: (loaded: number) => void) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const { data, error } = await supabase.storage.from(bucket).createSignedUploadUrl(path);
+      if (error) throw new UploadRequestError('status' in error ? Number(error.status) : 0, error.message);
+
+      await putToSignedUrl(data.signedUrl, blob, onProgress);
+      return;
+    } catch (error) {
+      // A retry can find the object already stored by an attempt whose
+      // response was lost; the name is unique to this upload, so it's ours
+      if (attempt > 1 && error instanceof UploadRequestError && error.status === 409) return;
+      if (attempt >= UPLOAD_ATTEMPTS || !isRetryable(error)) throw error;
+
+      onProgress(0);
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+    }
+  }
+}
+
+// A fresh folder for one upload's objects, under the uploader's id since
+// that is what the buckets' storage policies check
+function uploadFolder(userId: string) {
+  return `${userId}/${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+// Objects in the private source file bucket have no public URL; rows keep
+// their authenticated URL instead, which needs a signed URL to download
+function objectUrl(bucket: UploadBucket, path: string) {
+  const { publicUrl } = supabase.storage.from(bucket).getPublicUrl(path).data;
+  return bucket === SOURCE_FILE_BUCKET || bucket === PENDING_TIMELAPSE_BUCKET
+    ? publicUrl.replace('/object/public/', '/object/authenticated/')
+    : publicUrl;
+}
+
+async function removeUploads(bucket: UploadBucket, paths: string[]) {
+  const { error } = await supabase.storage.from(bucket).remove(paths);
+  if (error) {
+    // Left for the orphaned upload sweep
+    console.error('Error removing uploaded files:', error);
+  }
+}
+
+// Reports progress across several objects as a percentage of their bytes
+function progressTracker(totalBytes: number, onProgress?: (percent: number) => void) {
+  const loaded: Record<string, number> = {};
+
+  return (key: string) => (bytes: number) => {
+    loaded[key] = bytes;
+    const sent = Object.values(loaded).reduce((total, value) => total + value, 0);
+    onProgress?.(Math.round((sent / totalBytes) * 100));
+  };
+}
+
+// Validates and resizes the image, uploads its metadata-free variants, then
+// hands their columns to save() to store the row. If anything fails,
+// including save(), the uploaded objects are removed before the error is
+// rethrown.
+export async function uploadImage<T>(
+  file: File,
+  { bucket, userId, onProgress }: UploadImageOptions,
+  save: (image: UploadedImage) => Promise<T>
+) {
+  const problem = await validateImageFile(file);
+  if (problem) throw new Error(problem);
+
+  onProgress?.(0);
+  const image = await processImage(file);
+  const variants = Object.keys(image.variants) as ImageVariant[];
+
+  // Re-encoding leaves EXIF, XMP and IPTC behind; never store a variant
+  // that somehow kept them
+  for (const variant of variants) {
+    const metadata = await findImageMetadata(image.variants[variant]);
+    if (metadata) throw new Error(`Could not remove ${metadata} metadata from this image`);
+  }
+
+  const folder = uploadFolder(userId);
+  const paths = Object.fromEntries(
+    variants.map(variant => [variant, `${folder}/${variant}.${FORMAT_EXTENSIONS[image.contentType]}`])
+  ) as Record<ImageVariant, string>;
+
+  const totalBytes = variants.reduce((total, variant) => total + image.variants[variant].size, 0);
+  const reportProgress = progressTracker(totalBytes, onProgress);
+
+  try {
+    for (const variant of variants) {
+      await uploadObject(bucket, paths[variant], image.variants[variant], reportProgress(variant));
+    }
+
+    const publicUrl = (variant: ImageVariant) => supabase.storage.from(bucket).getPublicUrl(paths[variant]).data.publicUrl;
+
+    return await save({
+      image_url: publicUrl('full'),
+      thumbnail_url: publicUrl('thumbnail'),
+      medium_url: publicUrl('medium'),
+      image_width: image.width,
+      image_height: image.height,
+      blurhash: image.blurhash,
+      perceptual_hash: image.perceptualHash,
+    });
+  } catch (error) {
+    await removeUploads(bucket, Object.values(paths));
+    throw error;
+  }
+}
+
+// Uploads process media for an artwork, then hands their columns to save()
+// to store the rows, removing the files again if anything fails. WIP stages
+// are re-encoded like artwork images, keeping only the full size;
+// timelapses are stored as they are once they pass the metadata scan, in a
+// private bucket until the server has scanned them again. Source files
+// can't be scanned or stripped, so they go to a private bucket only their
+// artist and moderators can read.
+export async function uploadAttachments<T>(
+  files: AttachmentFile[],
+  { userId, onProgress }: Omit<UploadImageOptions, 'bucket'>,
+  save: (attachments: UploadedAttachment[]) => Promise<T>
+) {
+  const folder = uploadFolder(userId);
+  const uploads: (UploadedAttachment & { bucket: UploadBucket; path: string; blob: Blob })[] = [];
+
+  for (const [index, { kind, file }] of files.entries()) {
+    const problem = await validateAttachmentFile(file, kind);
+    if (problem) throw new Error(`${file.name}: ${problem}`);
+
+    let blob: Blob;
+    let extension: string;
+
+    if (kind === 'wip') {
+      const image = await processImage(file);
+      const metadata = await findImageMetadata(image.variants.full);
+      if (metadata) throw new Error(`Could not remove ${metadata} metadata from ${file.name}`);
+
+      blob = image.variants.full;
+      extension = FORMAT_EXTENSIONS[image.contentType];
+    } else if (kind === 'timelapse') {
+      const type = await sniffTimelapseType(file) ?? file.type;
+      blob = new Blob([file], { type });
+      extension = TIMELAPSE_EXTENSIONS[type];
+    } else {
+      blob = new Blob([file], { type: 'application/octet-stream' });
+      extension = fileExtension(file.name);
+    }
+
+    const bucket: UploadBucket =
+      kind === 'source' ? SOURCE_FILE_BUCKET : kind === 'timelapse' ? PENDING_TIMELAPSE_BUCKET : 'artwork-attachments';
+    const path = `${folder}/${kind}-${index + 1}.${extension}`;
+    uploads.push({
+      kind,
+      bucket,
+      path,
+      blob,
+      file_url: objectUrl(bucket, path),
+      file_name: file.name,
+      content_type: blob.type,
+      size_bytes: blob.size,
+    });
+  }
+
+  const totalBytes = uploads.reduce((total, upload) => total + upload.size_bytes, 0);
+  const reportProgress = progressTracker(totalBytes, onProgress);
+
+  try {
+    for (const upload of uploads) {
+      await uploadObject(upload.bucket, upload.path, upload.blob, reportProgress(upload.path));
+    }
+
+    return await save(uploads.map(({ kind, file_url, file_name, content_type, size_bytes }) => (
+      { kind, file_url, file_name, content_type, size_bytes }
+    )));
+  } catch (error) {
+    for (const bucket of new Set(uploads.map(upload => upload.bucket))) {
+      await removeUploads(bucket, uploads.filter(upload => upload.bucket === bucket).map(upload => upload.path));
+    }
+    throw error;
+  }
+}
@@ -9,8 +9,21 @@ import { supabase } from "@/integrations/supabase/client";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Calendar, Clock, Edit, Trash2, Plus } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Calendar, CalendarRange, Clock, Edit, Film, Gavel, Trash2, Plus, Settings, X } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { DEFAULT_SCORING_RULES, SCORING_RULE_LABELS, ScoringRules } from "@/hooks/useScoringRules";
+import RecomputeScoresDialog from "@/components/RecomputeScoresDialog";
+import EventParticipantsDialog from "@/components/EventParticipantsDialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { JOIN_POLICY_LABELS, JoinPolicy, isEventLive } from "@/lib/events";
+import { DEFAULT_TEAM_COLORS, EventTeam, MAX_TEAMS, MIN_TEAMS, sortTeams } from "@/lib/teams";
+import { DEFAULT_JUDGING_CRITERIA, JudgingCriterion, MAX_JUDGING_CRITERIA, sortCriteria } from "@/lib/judging";
+import { NO_SEASON, Season, currentSeason } from "@/lib/seasons";
+import TeamBadge from "@/components/TeamBadge";
+import SeasonsDialog from "@/components/SeasonsDialog";
+import CreateTournamentDialog from "@/components/CreateTournamentDialog";
+import DuplicateFlagsCard from "@/components/DuplicateFlagsCard";
 
 interface Event {
   id: string;
@@ -22,40 +35,34 @@ interface Event {
   end_time: string;
   midway_time: string | null;
   status: string;
-  team_a_name: string;
-  team_a_pfp: string | null;
-  team_b_name: string;
-  team_b_pfp: string | null;
+  join_policy: string;
+  max_team_size: number | null;
+  judged: boolean;
+  require_process_media: boolean;
+  season_id: string | null;
+  event_teams: EventTeam[];
+  judging_criteria: JudgingCriterion[];
 }
 
 export default function Admin() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
   const [events, setEvents] = useState<Event[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
   const [loading, setLoading] = useState(false);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [teamCount, setTeamCount] = useState(MIN_TEAMS);
+  const [judged, setJudged] = useState(false);
+  const [requireProcessMedia, setRequireProcessMedia] = useState(false);
+  const [criteriaCount, setCriteriaCount] = useState(DEFAULT_JUDGING_CRITERIA.length);
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+  const [scoringRules, setScoringRules] = useState<Record<string, ScoringRules>>({});
   const { toast } = useToast();
-  const { user, signIn } = useAuth();
-
-  const handleAdminLogin = async (e: React.FormEvent) => {
-    e.preventDefault();
-    const { error } = await signIn(email, password);
-    
-    if (error) {
-      toast({ title: "Invalid credentials", variant: "destructive" });
-    } else {
-      setIsAuthenticated(true);
-      toast({ title: "Admin access granted" });
-    }
-  };
+  const { user } = useAuth();
 
   const fetchEvents = async () => {
     setLoading(true);
     const { data, error } = await supabase
       .from('events')
-      .select('*')
+      .select('*, event_teams(*), judging_criteria(*)')
       .order('created_at', { ascending: false });
     
     if (error) {
@@ -63,13 +70,36 @@ export default function Admin() {
     } else {
       setEvents(data || []);
     }
+
+    const { data: rulesData, error: rulesError } = await supabase
+      .from('scoring_rules')
+      .select('*');
+
+    if (rulesError) {
+      toast({ title: "Error fetching scoring rules", variant: "destructive" });
+    } else {
+      setScoringRules(Object.fromEntries((rulesData || []).map(({ event_id, created_at, updated_at, ...rules }) => [event_id, rules])));
+    }
     setLoading(false);
   };
 
+  const fetchSeasons = async () => {
+    const { data, error } = await supabase
+      .from('seasons')
+      .select('*')
+      .order('start_date', { ascending: false });
+
+    if (error) {
+      toast({ title: "Error fetching seasons", variant: "destructive" });
+    } else {
+      setSeasons(data || []);
+    }
+  };
+
   useEffect(() => {
     if (user) {
-      setIsAuthenticated(true);
       fetchEvents();
+      fetchSeasons();
     }
   }, [user]);
 
@@ -77,6 +107,8 @@ export default function Admin() {
     const startTime = formData.get('start_time') as string;
     const endTime = formData.get('end_time') as string;
     const midwayTime = formData.get('midway_time') as string;
+    const maxTeamSize = formData.get('max_team_size') as string;
+    const seasonId = formData.get('season_id') as string;
     
     const eventData = {
       title: formData.get('title') as string,
@@ -86,22 +118,69 @@ export default function Admin() {
       start_time: startTime ? new Date(startTime).toISOString() : null,
       end_time: endTime ? new Date(endTime).toISOString() : null,
       midway_time: midwayTime ? new Date(midwayTime).toISOString() : null,
-      team_a_name: formData.get('team_a_name') as string,
-      team_a_pfp: formData.get('team_a_pfp') as string || null,
-      team_b_name: formData.get('team_b_name') as string,
-      team_b_pfp: formData.get('team_b_pfp') as string || null,
+      join_policy: formData.get('join_policy') as string,
+      max_team_size: maxTeamSize ? parseInt(maxTeamSize, 10) : null,
+      team_change_grace_minutes: parseInt(formData.get('team_change_grace_minutes') as string, 10) || 0,
+      duel_duration_minutes: parseInt(formData.get('duel_duration_minutes') as string, 10) || 1440,
+      judged,
+      require_process_media: requireProcessMedia,
+      season_id: seasonId && seasonId !== NO_SEASON ? seasonId : null,
       status: 'upcoming'
     };
 
-    const { error } = await supabase.from('events').insert([eventData]);
+    const { data: event, error } = await supabase
+      .from('events')
+      .insert([eventData])
+      .select('id')
+      .single();
     
     if (error) {
       toast({ title: "Error creating event", variant: "destructive" });
-    } else {
-      toast({ title: "Event created successfully" });
-      setIsCreateDialogOpen(false);
-      fetchEvents();
+      return;
+    }
+
+    const teams = Array.from({ length: teamCount }, (_, index) => ({
+      event_id: event.id,
+      position: index + 1,
+      name: formData.get(`team_name_${index}`) as string,
+      color: formData.get(`team_color_${index}`) as string || null,
+      avatar_url: formData.get(`team_avatar_${index}`) as string || null,
+    }));
+
+    const { error: teamsError } = await supabase.from('event_teams').insert(teams);
+
+    if (teamsError) {
+      // Don't leave an event behind without its teams
+      await supabase.from('events').delete().eq('id', event.id);
+      toast({ title: "Error creating teams", description: teamsError.message, variant: "destructive" });
+      return;
     }
+
+    if (judged) {
+      const criteria = Array.from({ length: criteriaCount }, (_, index) => ({
+        event_id: event.id,
+        position: index + 1,
+        name: formData.get(`criterion_name_${index}`) as string,
+        max_score: parseInt(formData.get(`criterion_max_${index}`) as string, 10) || 10,
+      }));
+
+      const { error: criteriaError } = await supabase.from('judging_criteria').insert(criteria);
+
+      if (criteriaError) {
+        // A judged event needs its rubric as much as its teams
+        await supabase.from('events').delete().eq('id', event.id);
+        toast({ title: "Error creating judging criteria", description: criteriaError.message, variant: "destructive" });
+        return;
+      }
+    }
+
+    toast({ title: "Event created successfully" });
+    setIsCreateDialogOpen(false);
+    setTeamCount(MIN_TEAMS);
+    setJudged(false);
+    setRequireProcessMedia(false);
+    setCriteriaCount(DEFAULT_JUDGING_CRITERIA.length);
+    fetchEvents();
   };
 
   const updateEventTheme = async (eventId: string, newTheme: string, newDescription: string) => {
@@ -121,6 +200,40 @@ export default function Admin() {
     }
   };
 
+  const updateScoringRules = async (eventId: string, formData: FormData) => {
+    const rules = Object.fromEntries(
+      (Object.keys(SCORING_RULE_LABELS) as (keyof ScoringRules)[]).map((key) => [
+        key,
+        parseInt(formData.get(key) as string, 10) || 0,
+      ])
+    ) as unknown as ScoringRules;
+
+    const { error } = await supabase
+      .from('scoring_rules')
+      .upsert({ event_id: eventId, ...rules }, { onConflict: 'event_id' });
+
+    if (error) {
+      toast({ title: "Error updating scoring rules", variant: "destructive" });
+    } else {
+      toast({ title: "Scoring rules updated successfully" });
+      fetchEvents();
+    }
+  };
+
+  const updateEventSeason = async (eventId: string, seasonId: string) => {
+    const { error } = await supabase
+      .from('events')
+      .update({ season_id: seasonId === NO_SEASON ? null : seasonId })
+      .eq('id', eventId);
+
+    if (error) {
+      toast({ title: "Error updating season", variant: "destructive" });
+    } else {
+      toast({ title: "Season updated successfully" });
+      fetchEvents();
+    }
+  };
+
   const deleteEvent = async (eventId: string) => {
     if (!confirm('Are you sure you want to delete this event? This action cannot be undone.')) {
       return;
@@ -139,46 +252,6 @@ export default function Admin() {
     }
   };
 
-  if (!user) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gradient-background">
-        <Card className="w-full max-w-md mx-4">
-          <CardHeader className="text-center">
-            <CardTitle className="text-2xl font-bold text-primary">Admin Access</CardTitle>
-            <CardDescription>Sign in with admin credentials to access admin panel</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleAdminLogin} className="space-y-4">
-              <div>
-                <Label htmlFor="email">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
-                />
-              </div>
-              <div>
-                <Label htmlFor="password">Password</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                />
-              </div>
-              <Button type="submit" className="w-full">
-                Sign In to Admin Panel
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-gradient-background">
       <div className="container mx-auto px-4 py-8">
@@ -187,76 +260,219 @@ export default function Admin() {
             <h1 className="text-3xl font-bold text-foreground">Admin Panel</h1>
             <p className="text-muted-foreground">Manage Brawl Arts events</p>
           </div>
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button className="flex items-center gap-2">
-                <Plus className="h-4 w-4" />
-                Create Event
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle>Create New Event</DialogTitle>
-                <DialogDescription>Fill in the details for the new event</DialogDescription>
-              </DialogHeader>
-              <form onSubmit={(e) => {
-                e.preventDefault();
-                const formData = new FormData(e.target as HTMLFormElement);
-                createEvent(formData);
-              }} className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="col-span-2">
-                    <Label htmlFor="title">Event Title</Label>
-                    <Input id="title" name="title" required />
-                  </div>
-                  <div className="col-span-2">
-                    <Label htmlFor="description">Description</Label>
-                    <Textarea id="description" name="description" required />
-                  </div>
-                  <div>
-                    <Label htmlFor="theme">Initial Theme</Label>
-                    <Input id="theme" name="theme" required />
-                  </div>
-                  <div>
-                    <Label htmlFor="midway_theme">Midway Theme (Optional)</Label>
-                    <Input id="midway_theme" name="midway_theme" />
-                  </div>
-                  <div>
-                    <Label htmlFor="start_time">Start Time</Label>
-                    <Input id="start_time" name="start_time" type="datetime-local" required />
-                  </div>
-                  <div>
-                    <Label htmlFor="end_time">End Time</Label>
-                    <Input id="end_time" name="end_time" type="datetime-local" required />
-                  </div>
-                  <div className="col-span-2">
-                    <Label htmlFor="midway_time">Midway Theme Change Time (Optional)</Label>
-                    <Input id="midway_time" name="midway_time" type="datetime-local" />
-                  </div>
-                  <div>
-                    <Label htmlFor="team_a_name">Team A Name</Label>
-                    <Input id="team_a_name" name="team_a_name" required />
+          <div className="flex gap-2">
+            <SeasonsDialog
+              seasons={seasons}
+              onChanged={() => {
+                fetchSeasons();
+                fetchEvents();
+              }}
+            />
+            <CreateTournamentDialog seasons={seasons} onCreated={fetchEvents} />
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button className="flex items-center gap-2">
+                  <Plus className="h-4 w-4" />
+                  Create Event
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Create New Event</DialogTitle>
+                  <DialogDescription>Fill in the details for the new event</DialogDescription>
+                </DialogHeader>
+                <form onSubmit={(e) => {
+                  e.preventDefault();
+                  const formData = new FormData(e.target as HTMLFormElement);
+                  createEvent(formData);
+                }} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="col-span-2">
+                      <Label htmlFor="title">Event Title</Label>
+                      <Input id="title" name="title" required />
+                    </div>
+                    <div className="col-span-2">
+                      <Label htmlFor="description">Description</Label>
+                      <Textarea id="description" name="description" required />
+                    </div>
+                    <div>
+                      <Label htmlFor="theme">Initial Theme</Label>
+                      <Input id="theme" name="theme" required />
+                    </div>
+                    <div>
+                      <Label htmlFor="midway_theme">Midway Theme (Optional)</Label>
+                      <Input id="midway_theme" name="midway_theme" />
+                    </div>
+                    <div>
+                      <Label htmlFor="start_time">Start Time</Label>
+                      <Input id="start_time" name="start_time" type="datetime-local" required />
+                    </div>
+                    <div>
+                      <Label htmlFor="end_time">End Time</Label>
+                      <Input id="end_time" name="end_time" type="datetime-local" required />
+                    </div>
+                    <div className="col-span-2">
+                      <Label htmlFor="midway_time">Midway Theme Change Time (Optional)</Label>
+                      <Input id="midway_time" name="midway_time" type="datetime-local" />
+                    </div>
+                    <div>
+                      <Label htmlFor="join_policy">Join Policy</Label>
+                      <Select name="join_policy" defaultValue="auto_balance">
+                        <SelectTrigger id="join_policy">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(JOIN_POLICY_LABELS) as JoinPolicy[]).map((policy) => (
+                            <SelectItem key={policy} value={policy}>{JOIN_POLICY_LABELS[policy]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="max_team_size">Max Team Size (Optional)</Label>
+                      <Input id="max_team_size" name="max_team_size" type="number" min={1} />
+                    </div>
+                    <div>
+                      <Label htmlFor="team_change_grace_minutes">Leave / Switch Team Grace Period (minutes after start)</Label>
+                      <Input id="team_change_grace_minutes" name="team_change_grace_minutes" type="number" min={0} defaultValue={0} />
+                    </div>
+                    <div>
+                      <Label htmlFor="duel_duration_minutes">Duel Voting Window (minutes)</Label>
+                      <Input id="duel_duration_minutes" name="duel_duration_minutes" type="number" min={1} defaultValue={1440} />
+                    </div>
+                    <div className="col-span-2">
+                      <Label htmlFor="season_id">Season</Label>
+                      <Select name="season_id" defaultValue={currentSeason(seasons)?.id ?? NO_SEASON}>
+                        <SelectTrigger id="season_id">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_SEASON}>No season</SelectItem>
+                          {seasons.map((season) => (
+                            <SelectItem key={season.id} value={season.id}>{season.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
-                  <div>
-                    <Label htmlFor="team_a_pfp">Team A Profile Picture URL</Label>
-                    <Input id="team_a_pfp" name="team_a_pfp" type="url" />
+                  <Separator />
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label>Teams ({MIN_TEAMS}-{MAX_TEAMS})</Label>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setTeamCount(count => count + 1)}
+                        disabled={teamCount >= MAX_TEAMS}
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Team
+                      </Button>
+                    </div>
+                    {Array.from({ length: teamCount }, (_, index) => (
+                      <div key={index} className="grid grid-cols-[1fr_1fr_auto_auto] gap-2 items-end">
+                        <div>
+                          <Label htmlFor={`team_name_${index}`}>Team {index + 1} Name</Label>
+                          <Input id={`team_name_${index}`} name={`team_name_${index}`} required />
+                        </div>
+                        <div>
+                          <Label htmlFor={`team_avatar_${index}`}>Profile Picture URL</Label>
+                          <Input id={`team_avatar_${index}`} name={`team_avatar_${index}`} type="url" />
+                        </div>
+                        <Input
+                          name={`team_color_${index}`}
+                          type="color"
+                          defaultValue={DEFAULT_TEAM_COLORS[index]}
+                          className="w-12 p-1"
+                          aria-label={`Team ${index + 1} color`}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setTeamCount(count => count - 1)}
+                          disabled={teamCount <= MIN_TEAMS || index !== teamCount - 1}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
                   </div>
-                  <div>
-                    <Label htmlFor="team_b_name">Team B Name</Label>
-                    <Input id="team_b_name" name="team_b_name" required />
+                  <Separator />
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Switch id="judged" checked={judged} onCheckedChange={setJudged} />
+                        <Label htmlFor="judged">Judged Event</Label>
+                      </div>
+                      {judged && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setCriteriaCount(count => count + 1)}
+                          disabled={criteriaCount >= MAX_JUDGING_CRITERIA}
+                        >
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add Criterion
+                        </Button>
+                      )}
+                    </div>
+                    {judged && Array.from({ length: criteriaCount }, (_, index) => (
+                      <div key={index} className="grid grid-cols-[1fr_8rem_auto] gap-2 items-end">
+                        <div>
+                          <Label htmlFor={`criterion_name_${index}`}>Criterion {index + 1}</Label>
+                          <Input
+                            id={`criterion_name_${index}`}
+                            name={`criterion_name_${index}`}
+                            defaultValue={DEFAULT_JUDGING_CRITERIA[index]}
+                            required
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`criterion_max_${index}`}>Max Score</Label>
+                          <Input
+                            id={`criterion_max_${index}`}
+                            name={`criterion_max_${index}`}
+                            type="number"
+                            min={1}
+                            max={100}
+                            defaultValue={10}
+                            required
+                          />
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setCriteriaCount(count => count - 1)}
+                          disabled={criteriaCount <= 1 || index !== criteriaCount - 1}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
                   </div>
-                  <div>
-                    <Label htmlFor="team_b_pfp">Team B Profile Picture URL</Label>
-                    <Input id="team_b_pfp" name="team_b_pfp" type="url" />
+                  <Separator />
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Switch id="require_process_media" checked={requireProcessMedia} onCheckedChange={setRequireProcessMedia} />
+                      <Label htmlFor="require_process_media">Require Process Media</Label>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Artists must attach WIP stages, a timelapse or a source file to every artwork
+                    </p>
                   </div>
-                </div>
-                <Button type="submit" className="w-full">Create Event</Button>
-              </form>
-            </DialogContent>
-          </Dialog>
+                  <Button type="submit" className="w-full">Create Event</Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         <div className="grid gap-6">
+          <DuplicateFlagsCard />
           {loading ? (
             <div className="text-center py-8">
               <p className="text-muted-foreground">Loading events...</p>
@@ -273,14 +489,14 @@ export default function Admin() {
                     <div>
                       <CardTitle className="flex items-center gap-2">
                         {event.title}
-                        <Badge variant={event.status === 'upcoming' ? 'default' : event.status === 'ongoing' ? 'destructive' : 'secondary'}>
+                        <Badge variant={event.status === 'upcoming' ? 'default' : isEventLive(event.status) ? 'destructive' : 'secondary'}>
                           {event.status}
                         </Badge>
                       </CardTitle>
                       <CardDescription>{event.description}</CardDescription>
                     </div>
                     <div className="flex gap-2">
-                      {event.status === 'ongoing' && (
+                      {isEventLive(event.status) && (
                         <Dialog>
                           <DialogTrigger asChild>
                             <Button variant="outline" size="sm">
@@ -314,6 +530,50 @@ export default function Admin() {
                           </DialogContent>
                         </Dialog>
                       )}
+                      <Dialog>
+                        <DialogTrigger asChild>
+                          <Button variant="outline" size="sm">
+                            <Settings className="h-4 w-4" />
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>Scoring Rules</DialogTitle>
+                            <DialogDescription>Points awarded for each action in this event</DialogDescription>
+                          </DialogHeader>
+                          <form onSubmit={(e) => {
+                            e.preventDefault();
+                            const formData = new FormData(e.target as HTMLFormElement);
+                            updateScoringRules(event.id, formData);
+                          }} className="space-y-4">
+                            <div className="grid grid-cols-2 gap-4">
+                              {(Object.keys(SCORING_RULE_LABELS) as (keyof ScoringRules)[]).map((key) => (
+                                <div key={key}>
+                                  <Label htmlFor={`${event.id}-${key}`}>{SCORING_RULE_LABELS[key]}</Label>
+                                  <Input
+                                    id={`${event.id}-${key}`}
+                                    name={key}
+                                    type="number"
+                                    defaultValue={(scoringRules[event.id] ?? DEFAULT_SCORING_RULES)[key]}
+                                    required
+                                  />
+                                </div>
+                              ))}
+                            </div>
+                            <Button type="submit" className="w-full">Save Scoring Rules</Button>
+                          </form>
+                        </DialogContent>
+                      </Dialog>
+                      <EventParticipantsDialog
+                        eventId={event.id}
+                        eventTitle={event.title}
+                        teams={sortTeams(event.event_teams)}
+                      />
+                      <RecomputeScoresDialog
+                        eventId={event.id}
+                        eventTitle={event.title}
+                        onApplied={fetchEvents}
+                      />
                       <Button 
                         variant="destructive" 
                         size="sm"
@@ -356,16 +616,54 @@ export default function Admin() {
                           <span className="ml-2 text-sm">{event.midway_theme}</span>
                         </div>
                       )}
-                      <div className="flex gap-4 pt-2">
-                        <div>
-                          <span className="font-medium text-sm">Team A:</span>
-                          <span className="ml-2 text-sm">{event.team_a_name}</span>
+                      <div>
+                        <span className="font-medium text-sm">Joining:</span>
+                        <span className="ml-2 text-sm">
+                          {JOIN_POLICY_LABELS[event.join_policy as JoinPolicy]}
+                          {event.max_team_size !== null && ` (max ${event.max_team_size} per team)`}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 pt-2">
+                        <span className="font-medium text-sm">Teams:</span>
+                        {sortTeams(event.event_teams).map((team) => (
+                          <TeamBadge key={team.id} team={team} />
+                        ))}
+                      </div>
+                      <div className="flex items-center gap-2 text-sm">
+                        <CalendarRange className="h-4 w-4 text-primary" />
+                        <span className="font-medium">Season:</span>
+                        <Select
+                          value={event.season_id ?? NO_SEASON}
+                          onValueChange={(value) => updateEventSeason(event.id, value)}
+                        >
+                          <SelectTrigger className="h-8 w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_SEASON}>No season</SelectItem>
+                            {seasons.map((season) => (
+                              <SelectItem key={season.id} value={season.id}>{season.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {event.judged && (
+                        <div className="flex items-center gap-2 text-sm">
+                          <Gavel className="h-4 w-4 text-primary" />
+                          <span className="font-medium">Judged on:</span>
+                          <span>
+                            {sortCriteria(event.judging_criteria)
+                              .map((criterion) => `${criterion.name} (/${criterion.max_score})`)
+                              .join(', ')}
+                          </span>
                         </div>
-                        <div>
-                          <span className="font-medium text-sm">Team B:</span>
-                          <span className="ml-2 text-sm">{event.team_b_name}</span>
+                      )}
+                      {event.require_process_media && (
+                        <div className="flex items-center gap-2 text-sm">
+                          <Film className="h-4 w-4 text-primary" />
+                          <span className="font-medium">Process media required</span>
                         </div>
-                      </div>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import { ArrowLeft, Calendar, Clock, Download, FileArchive, Lock, User } from 'lucide-react';
+import ArtworkImage from '@/components/ArtworkImage';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { ResponsiveImage } from '@/lib/images';
+import {
+  ATTACHMENT_KIND_LABELS,
+  ArtworkAttachment,
+  AttachmentKind,
+  formatFileSize,
+  isAwaitingScan,
+  sortAttachments,
+  sourceFileDownloadUrl,
+} from '@/lib/attachments';
+
+interface ArtworkWithAttachments extends ResponsiveImage {
+  id: string;
+  title: string;
+  description: string | null;
+  created_at: string;
+  event_id: string;
+  profiles: {
+    display_name: string;
+  } | null;
+  events: {
+    title: string;
+  } | null;
+  artwork_attachments: ArtworkAttachment[];
+}
+
+function AttachmentMedia({ attachment }: { attachment: ArtworkAttachment }) {
+  const { user, hasRole } = useAuth();
+  const [downloading, setDownloading] = useState(false);
+
+  // Source files are private to their artist and moderators
+  const canDownload = user?.id === attachment.user_id || hasRole('moderator') || hasRole('admin');
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      window.location.assign(await sourceFileDownloadUrl(attachment));
+    } catch (error) {
+      console.error('Error downloading source file:', error);
+      toast({ title: "Could not download the source file", variant: "destructive" });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  // Timelapses stay private until the server has scanned them
+  if (isAwaitingScan(attachment)) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-3 rounded-lg border p-12 text-center">
+        <Clock className="h-12 w-12 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">This timelapse is being checked and will appear shortly</p>
+      </div>
+    );
+  }
+
+  if (attachment.content_type.startsWith('video/')) {
+    return (
+      <video
+        src={attachment.file_url}
+        controls
+        preload="metadata"
+        className="w-full max-h-[60vh] rounded-lg bg-black"
+      />
+    );
+  }
+
+  // WIP stages and GIF timelapses
+  if (attachment.content_type.startsWith('image/')) {
+    return (
+      <img
+        src={attachment.file_url}
+        alt={attachment.file_name}
+        loading="lazy"
+        decoding="async"
+        className="w-full max-h-[60vh] object-contain rounded-lg"
+      />
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-3 rounded-lg border p-12 text-center">
+      <FileArchive className="h-12 w-12 text-muted-foreground" />
+      <div>
+        <p className="font-medium break-all">{attachment.file_name}</p>
+        <p className="text-sm text-muted-foreground">{formatFileSize(attachment.size_bytes)}</p>
+      </div>
+      {canDownload ? (
+        <Button variant="outline" size="sm" onClick={handleDownload} disabled={downloading}>
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+      ) : (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Lock className="h-4 w-4" />
+          Only the artist and moderators can download source files
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function ArtworkDetail() {
+  const { artworkId } = useParams<{ artworkId: string }>();
+  const navigate = useNavigate();
+  const [artwork, setArtwork] = useState<ArtworkWithAttachments | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!artworkId) return;
+
+    let cancelled = false;
+
+    supabase
+      .from('artworks')
+      .select(`
+        id,
+        title,
+        description,
+        created_at,
+        event_id,
+        image_url,
+        thumbnail_url,
+        medium_url,
+        image_width,
+        image_height,
+        blurhash,
+        profiles:user_id (display_name),
+        events (title),
+        artwork_attachments (*)
+      `)
+      .eq('id', artworkId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching artwork:', error);
+        }
+        if (!cancelled) {
+          setArtwork(data as ArtworkWithAttachments | null);
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [artworkId]);
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">
+          <p className="text-muted-foreground">Loading artwork...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!artwork) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">
+          <p className="text-muted-foreground">Artwork not found</p>
+          <Button onClick={() => navigate('/gallery')} className="mt-4">
+            Back to Gallery
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const attachments = sortAttachments(artwork.artwork_attachments);
+
+  // WIP stages are numbered in the order the artist added them
+  const attachmentLabel = (attachment: ArtworkAttachment) => {
+    if (attachment.kind !== 'wip') return ATTACHMENT_KIND_LABELS[attachment.kind as AttachmentKind];
+
+    const stage = attachments.filter(other => other.kind === 'wip').indexOf(attachment) + 1;
+    return `${ATTACHMENT_KIND_LABELS.wip} · Stage ${stage}`;
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      <Button variant="ghost" onClick={() => navigate(-1)} className="mb-6">
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back
+      </Button>
+
+      <div className="space-y-8">
+        <div className="flex justify-center">
+          <ArtworkImage
+            image={artwork}
+            alt={artwork.title}
+            sizes="(min-width: 1024px) 64rem, 100vw"
+            className="max-h-[80vh] w-auto h-auto rounded-lg object-contain"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">{artwork.title}</h1>
+          {artwork.description && (
+            <p className="text-muted-foreground">{artwork.description}</p>
+          )}
+          <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+            <span className="flex items-center gap-2">
+              <User className="h-4 w-4" />
+              {artwork.profiles?.display_name || 'Unknown Artist'}
+            </span>
+            <Link to={`/events/${artwork.event_id}`} className="flex items-center gap-2 hover:underline">
+              <Calendar className="h-4 w-4" />
+              {artwork.events?.title}
+            </Link>
+          </div>
+        </div>
+
+        {attachments.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                Process
+                <Badge variant="secondary">{attachments.length}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-16">
+              <Carousel opts={{ align: 'center' }}>
+                <CarouselContent>
+                  {attachments.map((attachment) => (
+                    <CarouselItem key={attachment.id} className="space-y-2">
+                      <AttachmentMedia attachment={attachment} />
+                      <p className="text-sm text-center text-muted-foreground">{attachmentLabel(attachment)}</p>
+                    </CarouselItem>
+                  ))}
+                </CarouselContent>
+                {attachments.length > 1 && (
+                  <>
+                    <CarouselPrevious />
+                    <CarouselNext />
+                  </>
+                )}
+              </Carousel>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
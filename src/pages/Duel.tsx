@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Check, Clock, Scale } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { formatPoints, useScoringRules } from '@/hooks/useScoringRules';
+import { DUEL_WINNER_LABELS, Duel as DuelRow, DuelSide, DuelWinner, isDuelOpen } from '@/lib/duels';
+
+interface Contender {
+  display_name: string;
+  username: string;
+}
+
+interface DuelDetails extends DuelRow {
+  attacks: {
+    title: string | null;
+    image_url: string | null;
+    message: string | null;
+    parent_attack_id: string | null;
+    target_artwork_id: string;
+  } | null;
+  defender: Contender | null;
+  challenger: Contender | null;
+  events: {
+    id: string;
+    title: string;
+  } | null;
+}
+
+interface DuelArtwork {
+  title: string | null;
+  image_url: string | null;
+}
+
+export default function Duel() {
+  const { duelId } = useParams<{ duelId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [duel, setDuel] = useState<DuelDetails | null>(null);
+  const [defenderArtwork, setDefenderArtwork] = useState<DuelArtwork | null>(null);
+  const [myVote, setMyVote] = useState<DuelSide | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [voting, setVoting] = useState(false);
+  const rules = useScoringRules(duel?.event_id);
+
+  useEffect(() => {
+    if (!duelId || !user) return;
+
+    let cancelled = false;
+
+    const fetchDuel = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('duels')
+          .select(`
+            *,
+            attacks (title, image_url, message, parent_attack_id, target_artwork_id),
+            defender:profiles!duels_defender_id_fkey (display_name, username),
+            challenger:profiles!duels_challenger_id_fkey (display_name, username),
+            events (id, title)
+          `)
+          .eq('id', duelId)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!data) return;
+
+        // The defender's side is the artwork under attack, or the
+        // counter-artwork of the attack being countered
+        const attack = data.attacks;
+        const { data: artwork, error: artworkError } = attack?.parent_attack_id
+          ? await supabase.from('attacks').select('title, image_url').eq('id', attack.parent_attack_id).maybeSingle()
+          : await supabase.from('artworks').select('title, image_url').eq('id', attack?.target_artwork_id ?? '').maybeSingle();
+
+        if (artworkError) throw artworkError;
+
+        // Voters can only read their own vote
+        const { data: vote, error: voteError } = await supabase
+          .from('duel_votes')
+          .select('choice')
+          .eq('duel_id', duelId)
+          .eq('voter_id', user.id)
+          .maybeSingle();
+
+        if (voteError) throw voteError;
+
+        if (!cancelled) {
+          setDuel(data);
+          setDefenderArtwork(artwork);
+          setMyVote((vote?.choice as DuelSide | undefined) ?? null);
+        }
+      } catch (error) {
+        console.error('Error fetching duel:', error);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchDuel();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [duelId, user]);
+
+  const castVote = async (choice: DuelSide) => {
+    if (!duel) return;
+
+    setVoting(true);
+
+    const { error } = await supabase.rpc('cast_duel_vote', {
+      p_duel_id: duel.id,
+      p_choice: choice,
+    });
+
+    if (error) {
+      toast({
+        title: "Vote failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setMyVote(choice);
+      toast({
+        title: "Vote cast!",
+        description: "The result is revealed when the duel closes.",
+      });
+    }
+    setVoting(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">
+          <p className="text-muted-foreground">Loading duel...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!duel) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">
+          <p className="text-muted-foreground">Duel not found</p>
+          <Button onClick={() => navigate('/events')} className="mt-4">
+            Back to Events
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const open = isDuelOpen(duel);
+  const isContender = user?.id === duel.defender_id || user?.id === duel.challenger_id;
+  const totalVotes = duel.defender_votes + duel.challenger_votes;
+
+  const sides: { side: DuelSide; label: string; artist: Contender | null; artwork: DuelArtwork | null; votes: number }[] = [
+    { side: 'defender', label: 'Defender', artist: duel.defender, artwork: defenderArtwork, votes: duel.defender_votes },
+    { side: 'challenger', label: 'Challenger', artist: duel.challenger, artwork: duel.attacks, votes: duel.challenger_votes },
+  ];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-6">
+        <Button variant="ghost" onClick={() => navigate(duel.events ? `/events/${duel.events.id}` : '/events')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          {duel.events ? `Back to ${duel.events.title}` : 'Back to Events'}
+        </Button>
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="text-2xl flex items-center gap-2">
+            <Scale className="h-6 w-6 text-primary" />
+            Duel
+            <Badge variant={open ? 'destructive' : 'secondary'}>
+              {open ? 'voting open' : duel.winner ? DUEL_WINNER_LABELS[duel.winner as DuelWinner] : 'closed'}
+            </Badge>
+          </CardTitle>
+          <CardDescription className="flex items-center gap-2 mt-2">
+            <Clock className="h-4 w-4" />
+            {open ? 'Voting closes' : 'Voting closed'} {new Date(duel.closes_at).toLocaleString()}
+            {' • '}The winner earns {formatPoints(rules.duel_win_points)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {duel.attacks?.message && (
+            <p className="text-sm text-muted-foreground mb-4">"{duel.attacks.message}"</p>
+          )}
+          {open && isContender && (
+            <p className="text-sm text-muted-foreground mb-4">You're in this duel, so you can't vote in it.</p>
+          )}
+
+          <div className="grid md:grid-cols-2 gap-6">
+            {sides.map(({ side, label, artist, artwork, votes }) => (
+              <div key={side} className={`space-y-3 rounded-lg p-3 ${duel.winner === side ? 'ring-2 ring-primary' : ''}`}>
+                <div className="aspect-square overflow-hidden rounded-lg bg-muted">
+                  {artwork?.image_url && (
+                    <img
+                      src={artwork.image_url}
+                      alt={artwork.title ?? ''}
+                      className="w-full h-full object-cover"
+                    />
+                  )}
+                </div>
+                <div>
+                  <p className="text-xs uppercase text-muted-foreground">{label}</p>
+                  <h3 className="font-semibold">{artwork?.title || 'Untitled'}</h3>
+                  <p className="text-sm text-muted-foreground">by {artist?.display_name || 'Unknown Artist'}</p>
+                </div>
+
+                {duel.resolved_at && (
+                  <p className="text-sm font-medium">
+                    {votes} vote{votes === 1 ? '' : 's'}
+                    {totalVotes > 0 && ` (${Math.round((votes / totalVotes) * 100)}%)`}
+                  </p>
+                )}
+
+                {myVote === side ? (
+                  <Badge variant="outline">
+                    <Check className="h-3 w-3 mr-1" />
+                    Your vote
+                  </Badge>
+                ) : open && !myVote && !isContender && (
+                  <Button onClick={() => castVote(side)} disabled={voting} className="w-full">
+                    Vote for {label.toLowerCase()}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
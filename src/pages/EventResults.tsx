@@ -0,0 +1,213 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Crown, Heart, Medal, Sword, Trophy } from 'lucide-react';
+import TeamBadge from '@/components/TeamBadge';
+import { EventTeam } from '@/lib/teams';
+import { DECIDED_BY_LABELS, DecidedBy, EventResults as EventResultsData, ResultArtwork } from '@/lib/results';
+
+interface ResultsEvent {
+  id: string;
+  title: string;
+  status: string;
+  end_time: string;
+  event_teams: EventTeam[];
+  event_results: EventResultsData | null;
+}
+
+export default function EventResults() {
+  const { eventId } = useParams<{ eventId: string }>();
+  const navigate = useNavigate();
+  const [event, setEvent] = useState<ResultsEvent | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    let cancelled = false;
+
+    supabase
+      .from('events')
+      .select('id, title, status, end_time, event_teams(*), event_results(*)')
+      .eq('id', eventId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching event results:', error);
+        }
+        if (!cancelled) {
+          setEvent(data as unknown as ResultsEvent | null);
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId]);
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">
+          <p className="text-muted-foreground">Loading results...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!event) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">
+          <p className="text-muted-foreground">Event not found</p>
+          <Button onClick={() => navigate('/events')} className="mt-4">
+            Back to Events
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const results = event.event_results;
+  const teamById = (teamId: string | null) => event.event_teams.find(team => team.id === teamId);
+  const winningTeam = teamById(results?.winning_team_id ?? null);
+
+  const renderArtwork = (label: string, icon: React.ReactNode, artwork: ResultArtwork | null, unit: string) => (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          {icon}
+          {label}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {artwork ? (
+          <div className="flex items-center gap-3">
+            <img src={artwork.image_url} alt={artwork.title} className="h-16 w-16 rounded object-cover" />
+            <div className="min-w-0">
+              <p className="font-medium truncate">{artwork.title}</p>
+              <p className="text-sm text-muted-foreground truncate">by {artwork.display_name}</p>
+              <p className="text-sm">{artwork.count} {unit}{artwork.count === 1 ? '' : 's'}</p>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Nobody this time</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-6">
+        <Button variant="ghost" onClick={() => navigate(`/events/${event.id}`)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Event
+        </Button>
+      </div>
+
+      <h1 className="text-3xl font-bold mb-2">{event.title}: Final Results</h1>
+
+      {!results ? (
+        <p className="text-muted-foreground">
+          Results are published when the event ends{event.status !== 'ended' && ` on ${new Date(event.end_time).toLocaleString()}`}.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <p className="text-sm text-muted-foreground">Final as of {new Date(results.created_at).toLocaleString()}</p>
+
+          {/* Winner */}
+          <Card className="border-2 border-primary shadow-red">
+            <CardContent className="p-6 text-center space-y-2">
+              <Trophy className="h-10 w-10 text-gold mx-auto" />
+              {winningTeam ? (
+                <>
+                  <h2 className="text-2xl font-bold">Team {winningTeam.name} wins!</h2>
+                  <TeamBadge team={winningTeam} />
+                </>
+              ) : (
+                <h2 className="text-2xl font-bold">It's a draw!</h2>
+              )}
+              <p className="text-sm text-muted-foreground">{DECIDED_BY_LABELS[results.decided_by as DecidedBy]}</p>
+            </CardContent>
+          </Card>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            {/* Team Standings */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Team Standings</CardTitle>
+                <CardDescription>Ranked by points, then artworks submitted, then likes received</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {results.team_standings.map((standing, index) => {
+                  const team = teamById(standing.team_id);
+
+                  return (
+                    <div key={standing.team_id} className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <span className="w-6 text-muted-foreground">{index + 1}.</span>
+                        {team ? <TeamBadge team={team} /> : <span>{standing.name}</span>}
+                      </div>
+                      <div className="text-right text-sm">
+                        <p className="font-bold text-primary">{standing.points} pts</p>
+                        <p className="text-muted-foreground">
+                          {standing.members} members • {standing.artworks} artworks • {standing.likes} likes
+                        </p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            {/* Top Artists */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Medal className="h-5 w-5 text-primary" />
+                  Top Artists
+                </CardTitle>
+                {results.mvp && (
+                  <CardDescription className="flex items-center gap-1">
+                    <Crown className="h-4 w-4 text-gold" />
+                    MVP: {results.mvp.display_name} ({results.mvp.points} pts)
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {results.top_artists.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No artists scored in this event</p>
+                ) : (
+                  results.top_artists.map((artist, index) => {
+                    const team = teamById(artist.team_id);
+
+                    return (
+                      <div key={artist.user_id} className="flex items-center justify-between gap-2 text-sm">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <span className="w-6 text-muted-foreground">{index + 1}.</span>
+                          <span className="truncate">{artist.display_name}</span>
+                          {team && <TeamBadge team={team} className="text-xs" />}
+                        </div>
+                        <span className="font-medium">{artist.points} pts</span>
+                      </div>
+                    );
+                  })
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            {renderArtwork('Most Liked', <Heart className="h-4 w-4 text-red-500" />, results.most_liked_artwork, 'like')}
+            {renderArtwork('Most Attacked', <Sword className="h-4 w-4 text-destructive" />, results.most_attacked_artwork, 'attack')}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,9 +4,16 @@ import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, Clock, Users, Trophy, Palette, AlertCircle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calendar, Clock, Users, Trophy, Palette, AlertCircle, Swords } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { EventStatus, JoinPolicy, getCurrentTheme, isEventLive, isMidwayThemeActive } from '@/lib/events';
+import { EventTeam, sortTeams } from '@/lib/teams';
+import { SEASON_STANDINGS_LABELS, Season, SeasonStandingsMode, formatSeasonRange } from '@/lib/seasons';
+import { TOURNAMENT_FORMAT_LABELS, Tournament, TournamentFormat } from '@/lib/tournaments';
+
+const ALL_SEASONS = 'all';
 
 interface Event {
   id: string;
@@ -17,16 +24,15 @@ interface Event {
   start_time: string;
   end_time: string;
   midway_time: string | null;
-  team_a_name: string;
-  team_a_pfp: string | null;
-  team_b_name: string;
-  team_b_pfp: string | null;
-  status: 'upcoming' | 'ongoing' | 'ended';
+  status: EventStatus;
+  join_policy: JoinPolicy;
+  season_id: string | null;
+  event_teams: EventTeam[];
 }
 
 interface Participation {
   event_id: string;
-  team: 'A' | 'B';
+  team_id: string;
 }
 
 export default function Events() {
@@ -34,10 +40,15 @@ export default function Events() {
   const navigate = useNavigate();
   const [events, setEvents] = useState<Event[]>([]);
   const [participations, setParticipations] = useState<Participation[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [seasonFilter, setSeasonFilter] = useState(ALL_SEASONS);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchEvents();
+    fetchSeasons();
+    fetchTournaments();
     if (user) {
       fetchParticipations();
     }
@@ -46,7 +57,7 @@ export default function Events() {
   const fetchEvents = async () => {
     const { data, error } = await supabase
       .from('events')
-      .select('*')
+      .select('*, event_teams(*)')
       .order('start_time', { ascending: true });
 
     if (error) {
@@ -61,12 +72,38 @@ export default function Events() {
     setLoading(false);
   };
 
+  const fetchSeasons = async () => {
+    const { data, error } = await supabase
+      .from('seasons')
+      .select('*')
+      .order('start_date', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching seasons:', error);
+    } else {
+      setSeasons(data || []);
+    }
+  };
+
+  const fetchTournaments = async () => {
+    const { data, error } = await supabase
+      .from('tournaments')
+      .select('*')
+      .order('start_time', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching tournaments:', error);
+    } else {
+      setTournaments(data || []);
+    }
+  };
+
   const fetchParticipations = async () => {
     if (!user) return;
 
     const { data, error } = await supabase
       .from('event_participants')
-      .select('event_id, team')
+      .select('event_id, team_id')
       .eq('user_id', user.id);
 
     if (error) {
@@ -76,36 +113,13 @@ export default function Events() {
     }
   };
 
-  const joinEvent = async (eventId: string) => {
+  const joinEvent = async (event: Event) => {
     if (!user) return;
 
-    // Check current participation counts
-    const { data: participants, error: countError } = await supabase
-      .from('event_participants')
-      .select('team')
-      .eq('event_id', eventId);
-
-    if (countError) {
-      toast({
-        title: "Error joining event",
-        description: countError.message,
-        variant: "destructive",
-      });
-      return;
-    }
-
-    // Calculate team balance
-    const teamACounts = participants?.filter(p => p.team === 'A').length || 0;
-    const teamBCounts = participants?.filter(p => p.team === 'B').length || 0;
-    const assignedTeam = teamACounts <= teamBCounts ? 'A' : 'B';
-
-    const { error } = await supabase
-      .from('event_participants')
-      .insert({
-        event_id: eventId,
-        user_id: user.id,
-        team: assignedTeam,
-      });
+    // Teams are assigned by the database according to the event's join policy
+    const { data: teamId, error } = await supabase.rpc('join_event', {
+      p_event_id: event.id,
+    });
 
     if (error) {
       toast({
@@ -114,9 +128,10 @@ export default function Events() {
         variant: "destructive",
       });
     } else {
+      const assignedTeam = event.event_teams.find(team => team.id === teamId);
       toast({
         title: "Successfully joined event!",
-        description: `You've been assigned to Team ${assignedTeam}`,
+        description: `You've been assigned to Team ${assignedTeam?.name}`,
       });
       fetchParticipations();
     }
@@ -128,6 +143,8 @@ export default function Events() {
         return <Badge variant="secondary">Upcoming</Badge>;
       case 'ongoing':
         return <Badge className="bg-primary text-primary-foreground">Ongoing</Badge>;
+      case 'midway':
+        return <Badge className="bg-accent text-accent-foreground">Midway</Badge>;
       case 'ended':
         return <Badge variant="outline">Ended</Badge>;
       default:
@@ -135,26 +152,8 @@ export default function Events() {
     }
   };
 
-  const getCurrentTheme = (event: Event) => {
-    const now = new Date();
-    const midwayTime = event.midway_time ? new Date(event.midway_time) : null;
-    
-    if (midwayTime && now >= midwayTime && event.midway_theme) {
-      return event.midway_theme;
-    }
-    return event.theme;
-  };
-
-  const isEventOngoing = (event: Event) => {
-    const now = new Date();
-    const startTime = new Date(event.start_time);
-    const endTime = new Date(event.end_time);
-    
-    return now >= startTime && now <= endTime;
-  };
-
   const canUploadArtwork = (event: Event) => {
-    return isEventOngoing(event) && isParticipating(event.id);
+    return isEventLive(event.status) && isParticipating(event.id);
   };
 
   const formatDate = (dateString: string) => {
@@ -172,6 +171,14 @@ export default function Events() {
     return participations.find(p => p.event_id === eventId);
   };
 
+  const selectedSeason = seasons.find(season => season.id === seasonFilter);
+  const visibleEvents = seasonFilter === ALL_SEASONS
+    ? events
+    : events.filter(event => event.season_id === seasonFilter);
+  const visibleTournaments = seasonFilter === ALL_SEASONS
+    ? tournaments
+    : tournaments.filter(tournament => tournament.season_id === seasonFilter);
+
   if (loading) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -184,21 +191,79 @@ export default function Events() {
 
   return (
     <div className="container mx-auto px-4 py-8">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent mb-2">
-          Battle Events
-        </h1>
-        <p className="text-muted-foreground">
-          Join epic art battles and showcase your creativity
-        </p>
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent mb-2">
+            Battle Events
+          </h1>
+          <p className="text-muted-foreground">
+            Join epic art battles and showcase your creativity
+          </p>
+        </div>
+        {seasons.length > 0 && (
+          <div className="space-y-1">
+            <Select value={seasonFilter} onValueChange={setSeasonFilter}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_SEASONS}>All seasons</SelectItem>
+                {seasons.map(season => (
+                  <SelectItem key={season.id} value={season.id}>{season.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedSeason && (
+              <p className="text-xs text-muted-foreground">
+                {formatSeasonRange(selectedSeason)} • {SEASON_STANDINGS_LABELS[selectedSeason.standings_mode as SeasonStandingsMode]}
+              </p>
+            )}
+          </div>
+        )}
       </div>
 
+      {visibleTournaments.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+            <Swords className="h-5 w-5 text-primary" />
+            Tournaments
+          </h2>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {visibleTournaments.map((tournament) => (
+              <Card
+                key={tournament.id}
+                className="hover:shadow-red transition-shadow duration-300 cursor-pointer"
+                onClick={() => navigate(`/tournaments/${tournament.id}`)}
+              >
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-lg">{tournament.name}</CardTitle>
+                    {tournament.champion_id ? (
+                      <Badge variant="outline">Finished</Badge>
+                    ) : new Date(tournament.start_time) > new Date() ? (
+                      <Badge variant="secondary">Upcoming</Badge>
+                    ) : (
+                      <Badge className="bg-primary text-primary-foreground">In progress</Badge>
+                    )}
+                  </div>
+                  <CardDescription>
+                    {TOURNAMENT_FORMAT_LABELS[tournament.format as TournamentFormat]} • Starts {formatDate(tournament.start_time)}
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-        {events.map((event) => {
+        {visibleEvents.map((event) => {
           const participation = isParticipating(event.id);
+          const teams = sortTeams(event.event_teams);
+          const participationTeam = teams.find(t => t.id === participation?.team_id);
           const currentTheme = getCurrentTheme(event);
           const canUpload = canUploadArtwork(event);
-          const themeChanged = event.midway_theme && currentTheme === event.midway_theme;
+          const themeChanged = isMidwayThemeActive(event);
           
           return (
             <Card key={event.id} className="hover:shadow-red transition-shadow duration-300 cursor-pointer" onClick={() => navigate(`/events/${event.id}`)}>
@@ -235,14 +300,12 @@ export default function Events() {
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
-                  <div className="text-center p-3 bg-secondary rounded-lg">
-                    <p className="font-semibold text-sm">{event.team_a_name}</p>
-                    <p className="text-xs text-muted-foreground">Team A</p>
-                  </div>
-                  <div className="text-center p-3 bg-secondary rounded-lg">
-                    <p className="font-semibold text-sm">{event.team_b_name}</p>
-                    <p className="text-xs text-muted-foreground">Team B</p>
-                  </div>
+                  {teams.map((team) => (
+                    <div key={team.id} className="text-center p-3 bg-secondary rounded-lg">
+                      <p className="font-semibold text-sm">{team.name}</p>
+                      <p className="text-xs text-muted-foreground">Team {team.position}</p>
+                    </div>
+                  ))}
                 </div>
 
                 {participation ? (
@@ -250,7 +313,7 @@ export default function Events() {
                     <div className="text-center">
                       <Badge className="bg-primary text-primary-foreground">
                         <Users className="h-3 w-3 mr-1" />
-                        Team {participation.team}
+                        Team {participationTeam?.name}
                       </Badge>
                     </div>
                     
@@ -266,11 +329,21 @@ export default function Events() {
                       View Event Details
                     </Button>
                   </div>
-                ) : event.status === 'upcoming' ? (
+                ) : event.status === 'upcoming' && event.join_policy === 'user_choice' ? (
+                  <Button 
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      navigate(`/events/${event.id}`);
+                    }}
+                    className="w-full shadow-glow hover:shadow-red transition-all duration-300"
+                  >
+                    Choose Your Team
+                  </Button>
+                ) : event.status === 'upcoming' && event.join_policy !== 'admin_assign' ? (
                   <Button 
                     onClick={(e) => {
                       e.stopPropagation();
-                      joinEvent(event.id);
+                      joinEvent(event);
                     }}
                     className="w-full shadow-glow hover:shadow-red transition-all duration-300"
                   >
@@ -295,9 +368,9 @@ export default function Events() {
         })}
       </div>
 
-      {events.length === 0 && (
+      {visibleEvents.length === 0 && (
         <div className="text-center py-12">
-          <h3 className="text-lg font-medium mb-2">No events yet</h3>
+          <h3 className="text-lg font-medium mb-2">{selectedSeason ? 'No events in this season yet' : 'No events yet'}</h3>
           <p className="text-muted-foreground">
             Check back soon for exciting art battles!
           </p>
@@ -1,57 +1,76 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
 import { Heart, Sword, User } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { EventTeam } from '@/lib/teams';
+import { ProfileAchievements, unlockedBadges } from '@/lib/achievements';
+import { ARTWORK_CARD_SIZES, ResponsiveImage } from '@/lib/images';
+import TeamBadge from '@/components/TeamBadge';
+import AchievementBadges from '@/components/AchievementBadges';
+import ArtworkImage from '@/components/ArtworkImage';
+import AttackDialog from '@/components/AttackDialog';
+import BattleComments from '@/components/BattleComments';
 
-interface Artwork {
+interface Artwork extends ResponsiveImage {
   id: string;
   title: string;
   description: string | null;
-  image_url: string;
   likes_count: number;
   attacks_count: number;
   created_at: string;
   user_id: string;
   event_id: string;
-  profiles: {
+  profiles: ({
     username: string;
     display_name: string;
-  } | null;
+  } & ProfileAchievements) | null;
   events: {
     title: string;
   } | null;
   event_participants: {
-    team: 'A' | 'B';
+    event_teams: Pick<EventTeam, 'name' | 'color' | 'position'> | null;
   }[] | null;
 }
 
 interface Interaction {
   artwork_id: string;
-  interaction_type: 'like' | 'attack';
+  interaction_type: 'like';
 }
 
 export default function Gallery() {
   const { user } = useAuth();
   const [artworks, setArtworks] = useState<Artwork[]>([]);
   const [interactions, setInteractions] = useState<Interaction[]>([]);
+  const [attackedArtworkIds, setAttackedArtworkIds] = useState<string[]>([]);
+  const [attackTarget, setAttackTarget] = useState<Artwork | null>(null);
   const [loading, setLoading] = useState(true);
 
   const fetchInteractions = async () => {
     if (!user) return;
     
     try {
-      const { data, error } = await supabase
-        .from('artwork_interactions')
-        .select('artwork_id, interaction_type')
-        .eq('user_id', user.id);
+      const [{ data, error }, { data: attacksData, error: attacksError }] = await Promise.all([
+        supabase
+          .from('artwork_interactions')
+          .select('artwork_id, interaction_type')
+          .eq('user_id', user.id)
+          .eq('interaction_type', 'like'),
+        supabase
+          .from('attacks')
+          .select('target_artwork_id')
+          .eq('attacker_id', user.id)
+          .is('parent_attack_id', null),
+      ]);
 
       if (error) throw error;
+      if (attacksError) throw attacksError;
       
       setInteractions((data || []) as Interaction[]);
+      setAttackedArtworkIds((attacksData || []).map(attack => attack.target_artwork_id));
     } catch (error) {
       console.error('Error fetching interactions:', error);
       toast({
@@ -81,12 +100,17 @@ export default function Gallery() {
           title,
           description,
           image_url,
+          thumbnail_url,
+          medium_url,
+          image_width,
+          image_height,
+          blurhash,
           likes_count,
           attacks_count,
           created_at,
           user_id,
           event_id,
-          profiles:user_id (username, display_name)
+          profiles:user_id (username, display_name, user_achievements (achievements (id, name, description, icon, position)))
         `)
         .order('created_at', { ascending: false });
 
@@ -135,7 +159,7 @@ export default function Gallery() {
     }
   };
 
-  const handleInteraction = async (artworkId: string, type: 'like' | 'attack') => {
+  const handleLike = async (artworkId: string) => {
     if (!user) {
       toast({
         title: "Authentication required",
@@ -145,15 +169,10 @@ export default function Gallery() {
       return;
     }
 
-    // Check if already interacted
-    const existingInteraction = interactions.find(
-      i => i.artwork_id === artworkId && i.interaction_type === type
-    );
-
-    if (existingInteraction) {
+    if (hasLiked(artworkId)) {
       toast({
         title: "Already interacted",
-        description: `You've already ${type === 'like' ? 'liked' : 'attacked'} this artwork`,
+        description: "You've already liked this artwork",
         variant: "destructive",
       });
       return;
@@ -164,7 +183,7 @@ export default function Gallery() {
       .insert({
         artwork_id: artworkId,
         user_id: user.id,
-        interaction_type: type,
+        interaction_type: 'like',
       });
 
     if (error) {
@@ -175,38 +194,61 @@ export default function Gallery() {
       });
     } else {
       // Update local state
-      setInteractions(prev => [...prev, { artwork_id: artworkId, interaction_type: type }]);
-      
-      // Update artwork counts
+      setInteractions(prev => [...prev, { artwork_id: artworkId, interaction_type: 'like' }]);
       setArtworks(prev => prev.map(artwork => 
         artwork.id === artworkId 
-          ? {
-              ...artwork,
-              [type === 'like' ? 'likes_count' : 'attacks_count']: 
-                artwork[type === 'like' ? 'likes_count' : 'attacks_count'] + 1
-            }
+          ? { ...artwork, likes_count: artwork.likes_count + 1 }
           : artwork
       ));
 
       toast({
         title: "Success!",
-        description: `You ${type === 'like' ? 'liked' : 'attacked'} this artwork`,
+        description: "You liked this artwork",
+      });
+    }
+  };
+
+  const handleAttackClick = (artwork: Artwork) => {
+    if (!user) {
+      toast({
+        title: "Authentication required",
+        description: "Please sign in to attack artworks",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (artwork.user_id === user.id) {
+      toast({
+        title: "Not allowed",
+        description: "You cannot attack your own artwork",
+        variant: "destructive",
       });
+      return;
     }
+
+    setAttackTarget(artwork);
+  };
+
+  const handleAttackSuccess = () => {
+    fetchArtworks();
+    fetchInteractions();
   };
 
-  const hasInteracted = (artworkId: string, type: 'like' | 'attack') => {
-    return interactions.some(i => i.artwork_id === artworkId && i.interaction_type === type);
+  const hasLiked = (artworkId: string) => {
+    return interactions.some(i => i.artwork_id === artworkId);
+  };
+
+  const hasAttacked = (artworkId: string) => {
+    return attackedArtworkIds.includes(artworkId);
   };
 
   const getTeamBadge = (artwork: Artwork) => {
     if (artwork.event_participants && artwork.event_participants.length > 0) {
-      const team = artwork.event_participants[0].team;
-      return (
-        <Badge variant={team === 'A' ? 'secondary' : 'outline'}>
-          Team {team}
-        </Badge>
-      );
+      const team = artwork.event_participants[0].event_teams;
+      if (!team) return null;
+
+      return <TeamBadge team={team} />;
     }
     return null;
   };
@@ -236,9 +278,10 @@ export default function Gallery() {
         {artworks.map((artwork) => (
           <Card key={artwork.id} className="overflow-hidden hover:shadow-teal transition-shadow duration-300">
             <div className="aspect-square relative">
-              <img
-                src={artwork.image_url}
+              <ArtworkImage
+                image={artwork}
                 alt={artwork.title}
+                sizes={ARTWORK_CARD_SIZES}
                 className="w-full h-full object-cover"
               />
               <div className="absolute top-2 right-2">
@@ -248,7 +291,9 @@ export default function Gallery() {
             <CardContent className="p-4">
               <div className="space-y-3">
                 <div>
-                  <h3 className="font-semibold text-lg">{artwork.title}</h3>
+                  <h3 className="font-semibold text-lg">
+                    <Link to={`/artworks/${artwork.id}`} className="hover:underline">{artwork.title}</Link>
+                  </h3>
                   {artwork.description && (
                     <p className="text-sm text-muted-foreground">{artwork.description}</p>
                   )}
@@ -257,6 +302,7 @@ export default function Gallery() {
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <User className="h-4 w-4" />
                   <span>{artwork.profiles?.display_name || 'Unknown Artist'}</span>
+                  <AchievementBadges achievements={unlockedBadges(artwork.profiles)} />
                 </div>
 
                 {artwork.events && (
@@ -270,12 +316,12 @@ export default function Gallery() {
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => handleInteraction(artwork.id, 'like')}
-                      disabled={hasInteracted(artwork.id, 'like')}
+                      onClick={() => handleLike(artwork.id)}
+                      disabled={hasLiked(artwork.id)}
                       className="flex items-center gap-1 hover:text-red-500"
                     >
                       <Heart 
-                        className={`h-4 w-4 ${hasInteracted(artwork.id, 'like') ? 'fill-red-500 text-red-500' : ''}`} 
+                        className={`h-4 w-4 ${hasLiked(artwork.id) ? 'fill-red-500 text-red-500' : ''}`} 
                       />
                       <span>{artwork.likes_count}</span>
                     </Button>
@@ -283,12 +329,12 @@ export default function Gallery() {
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => handleInteraction(artwork.id, 'attack')}
-                      disabled={hasInteracted(artwork.id, 'attack')}
+                      onClick={() => handleAttackClick(artwork)}
+                      disabled={hasAttacked(artwork.id)}
                       className="flex items-center gap-1 hover:text-orange-500"
                     >
                       <Sword 
-                        className={`h-4 w-4 ${hasInteracted(artwork.id, 'attack') ? 'fill-orange-500 text-orange-500' : ''}`} 
+                        className={`h-4 w-4 ${hasAttacked(artwork.id) ? 'fill-orange-500 text-orange-500' : ''}`} 
                       />
                       <span>{artwork.attacks_count}</span>
                     </Button>
@@ -298,12 +344,27 @@ export default function Gallery() {
                     {new Date(artwork.created_at).toLocaleDateString()}
                   </div>
                 </div>
+
+                <div className="pt-3 border-t">
+                  <BattleComments artworkId={artwork.id} />
+                </div>
               </div>
             </CardContent>
           </Card>
         ))}
       </div>
 
+      {attackTarget && (
+        <AttackDialog
+          isOpen={!!attackTarget}
+          onClose={() => setAttackTarget(null)}
+          artworkId={attackTarget.id}
+          targetTitle={attackTarget.title}
+          eventId={attackTarget.event_id}
+          onAttackSuccess={handleAttackSuccess}
+        />
+      )}
+
       {artworks.length === 0 && (
         <div className="text-center py-12">
           <h3 className="text-lg font-medium mb-2">No artworks yet</h3>
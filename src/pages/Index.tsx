@@ -6,6 +6,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Calendar, Trophy, Users, ArrowRight, Image } from 'lucide-react';
 import ghostMascot from '@/assets/teal-ghost-mascot.png';
+import { EventStatus, isEventLive } from '@/lib/events';
+import { EventTeam, sortTeams } from '@/lib/teams';
 
 interface Event {
   id: string;
@@ -14,9 +16,8 @@ interface Event {
   theme: string;
   start_time: string;
   end_time: string;
-  team_a_name: string;
-  team_b_name: string;
-  status: 'upcoming' | 'ongoing' | 'ended';
+  status: EventStatus;
+  event_teams: EventTeam[];
 }
 
 const Index = () => {
@@ -31,13 +32,13 @@ const Index = () => {
   const fetchEvents = async () => {
     const { data, error } = await supabase
       .from('events')
-      .select('*')
-      .in('status', ['upcoming', 'ongoing'])
+      .select('*, event_teams(*)')
+      .in('status', ['upcoming', 'ongoing', 'midway'])
       .order('start_time', { ascending: true });
 
     if (!error && data) {
       const upcoming = data.filter(e => e.status === 'upcoming');
-      const ongoing = data.filter(e => e.status === 'ongoing');
+      const ongoing = data.filter(e => isEventLive(e.status));
       setUpcomingEvents(upcoming as Event[]);
       setOngoingEvents(ongoing as Event[]);
     }
@@ -129,14 +130,12 @@ const Index = () => {
                   </div>
                   
                   <div className="grid grid-cols-2 gap-4">
-                    <div className="text-center p-3 bg-secondary rounded-lg">
-                      <p className="font-semibold text-sm">{event.team_a_name}</p>
-                      <p className="text-xs text-muted-foreground">Team A</p>
-                    </div>
-                    <div className="text-center p-3 bg-secondary rounded-lg">
-                      <p className="font-semibold text-sm">{event.team_b_name}</p>
-                      <p className="text-xs text-muted-foreground">Team B</p>
-                    </div>
+                    {sortTeams(event.event_teams).map((team) => (
+                      <div key={team.id} className="text-center p-3 bg-secondary rounded-lg">
+                        <p className="font-semibold text-sm">{team.name}</p>
+                        <p className="text-xs text-muted-foreground">Team {team.position}</p>
+                      </div>
+                    ))}
                   </div>
 
                   <Link to="/events">
@@ -183,12 +182,11 @@ const Index = () => {
                   </div>
 
                   <div className="grid grid-cols-2 gap-2 text-xs">
-                    <div className="text-center p-2 bg-secondary rounded">
-                      {event.team_a_name}
-                    </div>
-                    <div className="text-center p-2 bg-secondary rounded">
-                      {event.team_b_name}
-                    </div>
+                    {sortTeams(event.event_teams).map((team) => (
+                      <div key={team.id} className="text-center p-2 bg-secondary rounded">
+                        {team.name}
+                      </div>
+                    ))}
                   </div>
                 </CardContent>
               </Card>
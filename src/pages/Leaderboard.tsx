@@ -0,0 +1,319 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Medal, Trophy } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { SEASON_STANDINGS_LABELS, Season, SeasonStandingsMode, formatSeasonRange } from '@/lib/seasons';
+
+// How many rows each ranking shows
+const LEADERBOARD_SIZE = 50;
+
+const ALL_TIME = 'all';
+
+// Scope values are ALL_TIME, an event id, or a season id behind this prefix
+const SEASON_SCOPE = 'season:';
+
+interface LeaderboardRow {
+  key: string;
+  rank: number;
+  name: string;
+  detail: string;
+  points: number;
+  isMe?: boolean;
+}
+
+interface EventOption {
+  id: string;
+  title: string;
+}
+
+export default function Leaderboard() {
+  const { user } = useAuth();
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [scope, setScope] = useState(ALL_TIME);
+  const [artists, setArtists] = useState<LeaderboardRow[]>([]);
+  const [teams, setTeams] = useState<LeaderboardRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    supabase
+      .from('events')
+      .select('id, title')
+      .neq('status', 'upcoming')
+      .order('start_time', { ascending: false })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching events:', error);
+        } else {
+          setEvents(data || []);
+        }
+      });
+
+    supabase
+      .from('seasons')
+      .select('*')
+      .order('start_date', { ascending: false })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching seasons:', error);
+        } else {
+          setSeasons(data || []);
+        }
+      });
+  }, []);
+
+  const seasonId = scope.startsWith(SEASON_SCOPE) ? scope.slice(SEASON_SCOPE.length) : null;
+  const selectedSeason = seasons.find(season => season.id === seasonId);
+  const standingsMode = selectedSeason?.standings_mode as SeasonStandingsMode | undefined;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchRankings = async () => {
+      setLoading(true);
+
+      try {
+        let artistRows: LeaderboardRow[];
+        let teamRows: LeaderboardRow[];
+
+        if (scope === ALL_TIME) {
+          const { data: artistData, error: artistError } = await supabase
+            .from('leaderboard_artists')
+            .select('*')
+            .order('rank')
+            .limit(LEADERBOARD_SIZE);
+
+          if (artistError) throw artistError;
+
+          const { data: teamData, error: teamError } = await supabase
+            .from('leaderboard_teams')
+            .select('*')
+            .order('rank')
+            .limit(LEADERBOARD_SIZE);
+
+          if (teamError) throw teamError;
+
+          artistRows = (artistData || []).map(artist => ({
+            key: artist.user_id ?? '',
+            rank: artist.rank ?? 0,
+            name: artist.display_name || 'Unknown Artist',
+            detail: `${artist.events_played} event${artist.events_played === 1 ? '' : 's'}`,
+            points: artist.points ?? 0,
+            isMe: artist.user_id === user?.id,
+          }));
+          teamRows = (teamData || []).map(team => ({
+            key: team.team_id ?? '',
+            rank: team.rank ?? 0,
+            name: `Team ${team.name}`,
+            detail: `${team.won ? 'Won' : 'Played'} ${team.event_title}`,
+            points: team.points ?? 0,
+          }));
+        } else if (seasonId) {
+          const { data: artistData, error: artistError } = await supabase
+            .from('leaderboard_season_artists')
+            .select('*')
+            .eq('season_id', seasonId)
+            .order('rank')
+            .limit(LEADERBOARD_SIZE);
+
+          if (artistError) throw artistError;
+
+          const { data: teamData, error: teamError } = await supabase
+            .from('leaderboard_season_teams')
+            .select('*')
+            .eq('season_id', seasonId)
+            .order('rank')
+            .limit(LEADERBOARD_SIZE);
+
+          if (teamError) throw teamError;
+
+          // Show the total the season is ranked by
+          const seasonTotal = (row: { placement_points: number | null; points: number | null }) =>
+            (standingsMode === 'placements' ? row.placement_points : row.points) ?? 0;
+
+          artistRows = (artistData || []).map(artist => ({
+            key: artist.user_id ?? '',
+            rank: artist.rank ?? 0,
+            name: artist.display_name || 'Unknown Artist',
+            detail: `${artist.events_played} event${artist.events_played === 1 ? '' : 's'} this season`,
+            points: seasonTotal(artist),
+            isMe: artist.user_id === user?.id,
+          }));
+          teamRows = (teamData || []).map(team => ({
+            key: team.name ?? '',
+            rank: team.rank ?? 0,
+            name: team.name ?? '',
+            detail: `${team.wins} win${team.wins === 1 ? '' : 's'} in ${team.events_played} event${team.events_played === 1 ? '' : 's'}`,
+            points: seasonTotal(team),
+          }));
+        } else {
+          const { data: artistData, error: artistError } = await supabase
+            .from('leaderboard_event_artists')
+            .select('*')
+            .eq('event_id', scope)
+            .order('rank')
+            .limit(LEADERBOARD_SIZE);
+
+          if (artistError) throw artistError;
+
+          const { data: teamData, error: teamError } = await supabase
+            .from('leaderboard_event_teams')
+            .select('*')
+            .eq('event_id', scope)
+            .order('rank');
+
+          if (teamError) throw teamError;
+
+          artistRows = (artistData || []).map(artist => ({
+            key: artist.user_id ?? '',
+            rank: artist.rank ?? 0,
+            name: artist.display_name || 'Unknown Artist',
+            detail: `@${artist.username}`,
+            points: artist.points ?? 0,
+            isMe: artist.user_id === user?.id,
+          }));
+          teamRows = (teamData || []).map(team => ({
+            key: team.team_id ?? '',
+            rank: team.rank ?? 0,
+            name: `Team ${team.name}`,
+            detail: `${team.members} member${team.members === 1 ? '' : 's'}`,
+            points: team.points ?? 0,
+          }));
+        }
+
+        if (!cancelled) {
+          setArtists(artistRows);
+          setTeams(teamRows);
+        }
+      } catch (error) {
+        console.error('Error fetching leaderboard:', error);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchRankings();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scope, seasonId, standingsMode, user]);
+
+  const renderRows = (rows: LeaderboardRow[], empty: string) => {
+    if (loading) {
+      return <p className="text-muted-foreground text-center py-8">Loading rankings...</p>;
+    }
+
+    if (rows.length === 0) {
+      return <p className="text-muted-foreground text-center py-8">{empty}</p>;
+    }
+
+    return (
+      <div className="space-y-2">
+        {rows.map(row => (
+          <div
+            key={row.key}
+            className={`flex items-center justify-between gap-4 rounded-lg p-3 ${row.isMe ? 'bg-primary/10 border border-primary/30' : 'bg-muted/40'}`}
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <span className="w-8 text-center font-bold">
+                {row.rank === 1 ? <Trophy className="h-5 w-5 text-gold mx-auto" /> : row.rank}
+              </span>
+              <div className="min-w-0">
+                <p className="font-medium truncate">{row.name}</p>
+                <p className="text-sm text-muted-foreground truncate">{row.detail}</p>
+              </div>
+            </div>
+            <span className="font-bold text-primary">{row.points} pts</span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
+            <Medal className="h-8 w-8 text-primary" />
+            Leaderboard
+          </h1>
+          <p className="text-muted-foreground">The top brawlers and teams</p>
+        </div>
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TIME}>All time</SelectItem>
+            {seasons.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Seasons</SelectLabel>
+                {seasons.map(season => (
+                  <SelectItem key={season.id} value={`${SEASON_SCOPE}${season.id}`}>{season.name}</SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+            {events.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Events</SelectLabel>
+                {events.map(event => (
+                  <SelectItem key={event.id} value={event.id}>{event.title}</SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Tabs defaultValue="artists" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="artists">Artists</TabsTrigger>
+          <TabsTrigger value="teams">Teams</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="artists">
+          <Card>
+            <CardHeader>
+              <CardTitle>Artists</CardTitle>
+              <CardDescription>
+                {scope === ALL_TIME
+                  ? 'Final points earned across every finished event'
+                  : selectedSeason
+                    ? `${formatSeasonRange(selectedSeason)} • ${SEASON_STANDINGS_LABELS[standingsMode ?? 'points']}`
+                    : 'Final points in this event, judge scores included once it ends'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {renderRows(artists, 'No artists have scored yet')}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="teams">
+          <Card>
+            <CardHeader>
+              <CardTitle>Teams</CardTitle>
+              <CardDescription>
+                {scope === ALL_TIME
+                  ? 'The teams of every finished event, winners first and then by points'
+                  : selectedSeason
+                    ? `Teams with the same name are counted together across the season • ${SEASON_STANDINGS_LABELS[standingsMode ?? 'points']}`
+                    : 'Team totals in this event'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {renderRows(teams, 'No teams have scored yet')}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
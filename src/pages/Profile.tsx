@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Trophy, Calendar, Image, Target } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { EventTeam } from '@/lib/teams';
+import { Achievement, achievementIcon, sortAchievements } from '@/lib/achievements';
+import TeamBadge from '@/components/TeamBadge';
 
 interface Profile {
   username: string;
@@ -19,10 +21,15 @@ interface UserStats {
   eventsParticipated: number;
 }
 
+interface AchievementStatus extends Achievement {
+  progress: number;
+  unlocked_at: string | null;
+}
+
 interface Event {
   id: string;
   title: string;
-  team: 'A' | 'B';
+  team: Pick<EventTeam, 'name' | 'color' | 'position'> | null;
   points: number;
 }
 
@@ -37,6 +44,7 @@ export default function Profile() {
     eventsParticipated: 0,
   });
   const [events, setEvents] = useState<Event[]>([]);
+  const [achievements, setAchievements] = useState<AchievementStatus[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -44,6 +52,7 @@ export default function Profile() {
       fetchProfile();
       fetchStats();
       fetchEvents();
+      fetchAchievements();
     }
   }, [user]);
 
@@ -91,10 +100,9 @@ export default function Profile() {
         .eq('interaction_type', 'like');
 
       const { count: attacksCount } = await supabase
-        .from('artwork_interactions')
+        .from('attacks')
         .select('*', { count: 'exact', head: true })
-        .in('artwork_id', ids)
-        .eq('interaction_type', 'attack');
+        .in('target_artwork_id', ids);
 
       totalLikes = likesCount || 0;
       totalAttacks = attacksCount || 0;
@@ -125,15 +133,40 @@ export default function Profile() {
     setLoading(false);
   };
 
+  const fetchAchievements = async () => {
+    if (!user) return;
+
+    const [
+      { data: achievementsData, error: achievementsError },
+      { data: unlocksData, error: unlocksError },
+      { data: progressData, error: progressError },
+    ] = await Promise.all([
+      supabase.from('achievements').select('*'),
+      supabase.from('user_achievements').select('achievement_id, unlocked_at').eq('user_id', user.id),
+      supabase.rpc('get_achievement_progress', { p_user_id: user.id }),
+    ]);
+
+    if (achievementsError || unlocksError || progressError) {
+      console.error('Error fetching achievements:', achievementsError || unlocksError || progressError);
+      return;
+    }
+
+    setAchievements(sortAchievements(achievementsData || []).map((achievement) => ({
+      ...achievement,
+      progress: progressData?.find(p => p.achievement_id === achievement.id)?.progress ?? 0,
+      unlocked_at: unlocksData?.find(u => u.achievement_id === achievement.id)?.unlocked_at ?? null,
+    })));
+  };
+
   const fetchEvents = async () => {
     if (!user) return;
 
     const { data, error } = await supabase
       .from('event_participants')
       .select(`
-        team,
         event_id,
-        events:event_id (id, title)
+        events:event_id (id, title),
+        event_teams (name, color, position)
       `)
       .eq('user_id', user.id);
 
@@ -157,7 +190,7 @@ export default function Profile() {
         return {
           id: participant.events?.id || '',
           title: participant.events?.title || '',
-          team: participant.team as 'A' | 'B',
+          team: participant.event_teams,
           points: pointsData?.points_total || 0,
         };
       })
@@ -251,6 +284,41 @@ export default function Profile() {
           </CardContent>
         </Card>
 
+        {/* Achievements */}
+        <Card className="md:col-span-2 lg:col-span-3">
+          <CardHeader>
+            <CardTitle>Achievements</CardTitle>
+            <CardDescription>
+              {achievements.filter(a => a.unlocked_at).length} of {achievements.length} unlocked
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+              {achievements.map((achievement) => {
+                const Icon = achievementIcon(achievement);
+
+                return (
+                  <div
+                    key={achievement.id}
+                    className={`flex items-center gap-3 p-3 rounded-lg ${achievement.unlocked_at ? 'bg-primary/10 border border-primary/30' : 'bg-secondary opacity-60'}`}
+                  >
+                    <Icon className={`h-8 w-8 shrink-0 ${achievement.unlocked_at ? 'text-primary' : 'text-muted-foreground'}`} />
+                    <div className="min-w-0">
+                      <h4 className="font-medium">{achievement.name}</h4>
+                      <p className="text-sm text-muted-foreground">{achievement.description}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {achievement.unlocked_at
+                          ? `Unlocked ${new Date(achievement.unlocked_at).toLocaleDateString()}`
+                          : `${achievement.progress} / ${achievement.threshold}`}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Event History */}
         <Card className="md:col-span-2 lg:col-span-3">
           <CardHeader>
@@ -264,9 +332,7 @@ export default function Profile() {
                   <div key={event.id} className="flex items-center justify-between p-3 bg-secondary rounded-lg">
                     <div>
                       <h4 className="font-medium">{event.title}</h4>
-                      <Badge variant={event.team === 'A' ? 'secondary' : 'outline'}>
-                        Team {event.team}
-                      </Badge>
+                      {event.team && <TeamBadge team={event.team} />}
                     </div>
                     <div className="text-right">
                       <p className="font-bold text-primary">{event.points} pts</p>
@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Calendar, Crown, Trash2, Trophy } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import TeamBadge from '@/components/TeamBadge';
+import {
+  TOURNAMENT_BRACKET_LABELS,
+  TOURNAMENT_FORMAT_LABELS,
+  Tournament as TournamentRow,
+  TournamentBracket,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentTeam,
+  bracketRounds,
+} from '@/lib/tournaments';
+
+interface TournamentWithBracket extends TournamentRow {
+  tournament_teams: TournamentTeam[];
+  tournament_matches: TournamentMatch[];
+}
+
+export default function Tournament() {
+  const { tournamentId } = useParams<{ tournamentId: string }>();
+  const navigate = useNavigate();
+  const { hasRole } = useAuth();
+  const [tournament, setTournament] = useState<TournamentWithBracket | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!tournamentId) return;
+
+    let cancelled = false;
+
+    supabase
+      .from('tournaments')
+      .select('*, tournament_teams!tournament_teams_tournament_id_fkey (*), tournament_matches (*)')
+      .eq('id', tournamentId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching tournament:', error);
+        }
+        if (!cancelled) {
+          setTournament(data);
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tournamentId]);
+
+  const deleteTournament = async () => {
+    if (!tournament || !confirm('Delete this tournament? Its match events are kept.')) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('tournaments')
+      .delete()
+      .eq('id', tournament.id);
+
+    if (error) {
+      toast({
+        title: "Error deleting tournament",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Tournament deleted" });
+      navigate('/events');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">
+          <p className="text-muted-foreground">Loading tournament...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">
+          <p className="text-muted-foreground">Tournament not found</p>
+          <Button onClick={() => navigate('/events')} className="mt-4">
+            Back to Events
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const teamById = (teamId: string | null) => tournament.tournament_teams.find(team => team.id === teamId);
+  const matchById = (matchId: string | null) => tournament.tournament_matches.find(match => match.id === matchId);
+  const champion = teamById(tournament.champion_id);
+  const brackets: TournamentBracket[] = tournament.format === 'double_elimination'
+    ? ['winners', 'losers', 'grand_final']
+    : ['winners'];
+
+  const renderSlot = (match: TournamentMatch, teamId: string | null, fromMatchId: string | null, from: string | null) => {
+    const team = teamById(teamId);
+
+    if (!team) {
+      const fromMatch = matchById(fromMatchId);
+
+      return (
+        <p className="text-sm text-muted-foreground italic truncate">
+          {fromMatch ? `${from === 'loser' ? 'Loser' : 'Winner'} of ${fromMatch.label}` : 'TBD'}
+        </p>
+      );
+    }
+
+    const won = match.winner_id === team.id;
+    const lost = match.loser_id === team.id;
+
+    return (
+      <div className={`flex items-center justify-between gap-2 ${lost ? 'opacity-50' : ''}`}>
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-xs text-muted-foreground w-5">{team.seed}</span>
+          <TeamBadge team={{ name: team.name, color: team.color, position: team.seed }} />
+        </div>
+        {won && <Trophy className="h-4 w-4 text-gold shrink-0" />}
+      </div>
+    );
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <Button variant="ghost" onClick={() => navigate('/events')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Events
+        </Button>
+        {hasRole('admin') && (
+          <Button variant="destructive" size="sm" onClick={deleteTournament}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete Tournament
+          </Button>
+        )}
+      </div>
+
+      <div className="mb-8 space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <h1 className="text-3xl font-bold">{tournament.name}</h1>
+          <Badge variant="outline">{TOURNAMENT_FORMAT_LABELS[tournament.format as TournamentFormat]}</Badge>
+        </div>
+        <p className="text-muted-foreground">{tournament.description}</p>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Calendar className="h-4 w-4" />
+          <span>Starts {new Date(tournament.start_time).toLocaleString()}</span>
+        </div>
+      </div>
+
+      {champion && (
+        <Card className="border-2 border-primary shadow-red mb-8">
+          <CardContent className="p-6 text-center space-y-2">
+            <Crown className="h-10 w-10 text-gold mx-auto" />
+            <h2 className="text-2xl font-bold">Team {champion.name} are the champions!</h2>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="space-y-8">
+        {brackets.map(bracket => (
+          <section key={bracket}>
+            {brackets.length > 1 && (
+              <h2 className="text-xl font-semibold mb-4">{TOURNAMENT_BRACKET_LABELS[bracket]}</h2>
+            )}
+            <div className="flex gap-6 overflow-x-auto pb-4">
+              {bracketRounds(tournament.tournament_matches, bracket).map(round => (
+                <div key={round[0].round} className="flex flex-col justify-around gap-4 min-w-[15rem]">
+                  {round.map(match => (
+                    <Card
+                      key={match.id}
+                      className={match.event_id ? 'cursor-pointer hover:shadow-red transition-shadow duration-300' : ''}
+                      onClick={() => match.event_id && navigate(`/events/${match.event_id}`)}
+                    >
+                      <CardHeader className="p-3 pb-2">
+                        <CardTitle className="text-sm">{match.label}</CardTitle>
+                      </CardHeader>
+                      <CardContent className="p-3 pt-0 space-y-2">
+                        {renderSlot(match, match.team_a_id, match.team_a_from_match_id, match.team_a_from)}
+                        {renderSlot(match, match.team_b_id, match.team_b_from_match_id, match.team_b_from)}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
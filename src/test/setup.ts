@@ -0,0 +1,44 @@
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+
+// processImage() resizes and re-encodes through browser canvas APIs. Tests
+// run in Node, so back createImageBitmap() and <canvas> with @napi-rs/canvas
+// and exercise the real decode, draw and encode path.
+
+const ENCODABLE_TYPES = ['image/avif', 'image/webp', 'image/jpeg', 'image/png'] as const;
+type EncodableType = typeof ENCODABLE_TYPES[number];
+
+function createTestCanvas() {
+  let canvas = createCanvas(1, 1);
+
+  return {
+    width: 300,
+    height: 150,
+    getContext() {
+      canvas = createCanvas(this.width, this.height);
+      return canvas.getContext('2d');
+    },
+    // Like browsers, fall back to PNG for formats that can't be encoded
+    toBlob(callback: (blob: Blob | null) => void, type = 'image/png', quality = 0.92) {
+      const format = ENCODABLE_TYPES.includes(type as EncodableType) ? type as EncodableType : 'image/png';
+      const percent = Math.round(quality * 100);
+      const bytes = format === 'image/png'
+        ? canvas.toBuffer('image/png')
+        : format === 'image/avif'
+          ? canvas.toBuffer('image/avif', { quality: percent })
+          : canvas.toBuffer(format, percent);
+      callback(new Blob([bytes], { type: format }));
+    },
+  };
+}
+
+globalThis.createImageBitmap = (async (source: Blob) => {
+  const image = await loadImage(Buffer.from(await source.arrayBuffer()));
+  return Object.assign(image, { close: () => undefined });
+}) as unknown as typeof createImageBitmap;
+
+globalThis.document = {
+  createElement: (tagName: string) => {
+    if (tagName !== 'canvas') throw new Error(`No test stand-in for <${tagName}>`);
+    return createTestCanvas();
+  },
+} as unknown as Document;
@@ -0,0 +1,148 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+type TimelapseMetadataKind = 'location' | 'XMP';
+
+const PUBLIC_BUCKET = 'artwork-attachments';
+const PENDING_BUCKET = 'pending-timelapses';
+
+// Timelapses wait in the private bucket until they've been scanned; a row
+// pointing anywhere else has been scanned already
+const PENDING_OBJECT = /\/storage\/v1\/object\/authenticated\/pending-timelapses\/(.+)$/;
+
+// The usertype of the top-level uuid box MP4 keeps XMP in
+const XMP_UUID = '\xbe\x7a\xcf\xcb\x97\xa9\x42\xe8\x9c\x71\x99\x94\x91\xe3\xaf\xac';
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// Same scan as src/lib/metadata.ts, which the browser runs before upload:
+// GIFs keep XMP in an application extension block
+async function findGifMetadata(gif: Blob): Promise<TimelapseMetadataKind | null> {
+  const text = new TextDecoder('latin1').decode(await gif.arrayBuffer());
+  return text.includes('\x21\xff\x0bXMP DataXMP') ? 'XMP' : null;
+}
+
+// and MP4s record where they were shot in the moov box's metadata, with XMP
+// in a top-level uuid box or an 'XMP_' box
+async function findMp4Metadata(video: Blob): Promise<TimelapseMetadataKind | null> {
+  let offset = 0;
+
+  while (offset + 8 <= video.size) {
+    const header = new Uint8Array(await video.slice(offset, offset + 32).arrayBuffer());
+    const type = ascii(header, 4, 4);
+    let size = readUint32(header, 0);
+    let headerSize = 8;
+
+    // Sizes of 1 are followed by a 64-bit size, and 0 runs to the end
+    if (size === 1) {
+      size = readUint32(header, 8) * 2 ** 32 + readUint32(header, 12);
+      headerSize = 16;
+    }
+    if (size === 0) size = video.size - offset;
+
+    if (type === 'uuid' && ascii(header, headerSize, 16) === XMP_UUID) return 'XMP';
+    if (type === 'moov') {
+      const moov = new TextDecoder('latin1').decode(await video.slice(offset, offset + size).arrayBuffer());
+      if (moov.includes('©xyz') || moov.includes('loci') || moov.includes('com.apple.quicktime.location')) return 'location';
+      if (moov.includes('XMP_')) return 'XMP';
+    }
+    if (size < 8) break;
+
+    offset += size;
+  }
+
+  return null;
+}
+
+function findTimelapseMetadata(timelapse: Blob, type: string) {
+  if (type === 'image/gif') return findGifMetadata(timelapse);
+  if (type === 'video/mp4') return findMp4Metadata(timelapse);
+  return Promise.resolve(null);
+}
+
+// Scans a newly attached timelapse before anyone else can see it. Clean
+// files move to the public attachments bucket and the row is pointed at
+// them; files that record a location or carry XMP are deleted along with
+// their row, as uploads can skip the browser's own scan. Called by a database
+// trigger after each insert with the service role key; anyone else is
+// turned away.
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const { id } = await req.json() as { id: string };
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+  const { data: attachment, error } = await supabase
+    .from('artwork_attachments')
+    .select('file_url, content_type')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching attachment ${id}:`, error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const path = attachment?.file_url.match(PENDING_OBJECT)?.[1];
+  if (!path) {
+    return Response.json({ status: 'skipped' });
+  }
+
+  const name = decodeURIComponent(path);
+  const { data: file, error: downloadError } = await supabase.storage.from(PENDING_BUCKET).download(name);
+
+  if (downloadError) {
+    console.error(`Error downloading ${PENDING_BUCKET}/${name}:`, downloadError);
+    return Response.json({ error: downloadError.message }, { status: 500 });
+  }
+
+  const metadata = await findTimelapseMetadata(file, attachment.content_type);
+
+  if (metadata) {
+    const { error: deleteError } = await supabase.from('artwork_attachments').delete().eq('id', id);
+    if (deleteError) {
+      console.error(`Error deleting attachment ${id}:`, deleteError);
+      return Response.json({ error: deleteError.message }, { status: 500 });
+    }
+    await removePending(supabase, name);
+    return Response.json({ status: 'rejected', metadata });
+  }
+
+  const { error: uploadError } = await supabase.storage
+    .from(PUBLIC_BUCKET)
+    .upload(name, file, { contentType: attachment.content_type, cacheControl: '31536000', upsert: true });
+
+  if (uploadError) {
+    console.error(`Error publishing ${PENDING_BUCKET}/${name}:`, uploadError);
+    return Response.json({ error: uploadError.message }, { status: 500 });
+  }
+
+  const { publicUrl } = supabase.storage.from(PUBLIC_BUCKET).getPublicUrl(name).data;
+  const { error: updateError } = await supabase
+    .from('artwork_attachments')
+    .update({ file_url: publicUrl })
+    .eq('id', id);
+
+  if (updateError) {
+    console.error(`Error saving the public URL for attachment ${id}:`, updateError);
+    return Response.json({ error: updateError.message }, { status: 500 });
+  }
+
+  await removePending(supabase, name);
+  return Response.json({ status: 'published', file_url: publicUrl });
+});
+
+// A pending copy that can't be removed is left for the orphaned upload sweep
+async function removePending(supabase: ReturnType<typeof createClient>, name: string) {
+  const { error } = await supabase.storage.from(PENDING_BUCKET).remove([name]);
+  if (error) {
+    console.error(`Error removing ${PENDING_BUCKET}/${name}:`, error);
+  }
+}
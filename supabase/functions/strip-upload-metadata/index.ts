@@ -0,0 +1,255 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const PAGE_SIZE = 100;
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const EXIF_HEADER = 'Exif\0\0';
+const ORIENTATION_TAG = 0x0112;
+
+// Rebuilds a TIFF-structured EXIF block with the Orientation tag as its only
+// entry, so viewers still turn the image the right way up. Null when there
+// is no orientation worth keeping.
+function orientationOnlyExif(tiff: Uint8Array) {
+  if (tiff.length < 8) return null;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const byteOrder = ascii(tiff, 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') return null;
+  const littleEndian = byteOrder === 'II';
+
+  const ifd = view.getUint32(4, littleEndian);
+  if (ifd + 2 > tiff.length) return null;
+
+  let orientation = 0;
+  const entries = view.getUint16(ifd, littleEndian);
+  for (let i = 0; i < entries && ifd + 2 + (i + 1) * 12 <= tiff.length; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+      orientation = view.getUint16(entry + 8, littleEndian);
+      break;
+    }
+  }
+  if (orientation < 2 || orientation > 8) return null;
+
+  // Header, then IFD0 with one SHORT entry and no next IFD
+  const result = new Uint8Array(26);
+  const out = new DataView(result.buffer);
+  result.set(tiff.subarray(0, 2));
+  out.setUint16(2, 42, littleEndian);
+  out.setUint32(4, 8, littleEndian);
+  out.setUint16(8, 1, littleEndian);
+  out.setUint16(10, ORIENTATION_TAG, littleEndian);
+  out.setUint16(12, 3, littleEndian);
+  out.setUint32(14, 1, littleEndian);
+  out.setUint16(18, orientation, littleEndian);
+  return result;
+}
+
+// Replaces the EXIF APP1 segment with one holding only the orientation and
+// drops the XMP APP1 and APP13 (IPTC) segments before the scan data, leaving
+// the compressed image untouched
+function stripJpeg(bytes: Uint8Array) {
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break;
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (marker === 0xe1 && ascii(bytes, offset + 4, 6) === EXIF_HEADER) {
+      const exif = orientationOnlyExif(bytes.subarray(offset + 10, end));
+      if (exif) {
+        const length = 2 + EXIF_HEADER.length + exif.length;
+        kept.push(new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff]), asciiBytes(EXIF_HEADER), exif);
+      }
+    } else if (marker !== 0xe1 && marker !== 0xed) {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  kept.push(bytes.subarray(offset));
+  return concat(kept);
+}
+
+// Replaces the eXIf chunk with one holding only the orientation and drops
+// the text chunks that carry XMP and IPTC
+function stripPng(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const type = ascii(bytes, offset + 4, 4);
+    const end = offset + 12 + view.getUint32(offset);
+    if (type === 'eXIf') {
+      const exif = orientationOnlyExif(bytes.subarray(offset + 8, end - 4));
+      if (exif) kept.push(pngChunk(type, exif));
+    } else if (!['tEXt', 'zTXt', 'iTXt'].includes(type)) {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  return concat(kept);
+}
+
+// Replaces the EXIF chunk with one holding only the orientation and drops
+// the XMP chunk, then fixes up their flags in the VP8X header and the RIFF
+// size
+function stripWebp(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kept: Uint8Array[] = [bytes.slice(0, 12)];
+  let header: Uint8Array | null = null;
+  let hasExif = false;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const chunk = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    // Chunks are padded to an even size
+    const end = offset + 8 + size + (size % 2);
+
+    if (chunk === 'VP8X') {
+      header = bytes.slice(offset, end);
+      kept.push(header);
+    } else if (chunk === 'EXIF') {
+      // Some writers keep the JPEG "Exif" prefix in the chunk
+      const start = ascii(bytes, offset + 8, 6) === EXIF_HEADER ? offset + 14 : offset + 8;
+      const exif = orientationOnlyExif(bytes.subarray(start, offset + 8 + size));
+      if (exif) {
+        kept.push(riffChunk(chunk, exif));
+        hasExif = true;
+      }
+    } else if (chunk !== 'XMP ') {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  if (header) {
+    header[8] &= ~0x0c;
+    if (hasExif) header[8] |= 0x08;
+  }
+
+  const stripped = concat(kept);
+  new DataView(stripped.buffer).setUint32(4, stripped.length - 8, true);
+  return stripped;
+}
+
+function asciiBytes(text: string) {
+  return Uint8Array.from(text, character => character.charCodeAt(0));
+}
+
+function riffChunk(type: string, data: Uint8Array) {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(asciiBytes(type));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+function pngChunk(type: string, data: Uint8Array) {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(asciiBytes(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concat(parts: Uint8Array[]) {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function stripMetadata(bytes: Uint8Array) {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return stripJpeg(bytes);
+  if (ascii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') return stripPng(bytes);
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return stripWebp(bytes);
+  return null;
+}
+
+// Removes EXIF (all but the orientation), XMP and IPTC from one page of the objects legacy_uploads()
+// lists, rewriting each in place. Pass the returned next cursor back as
+// "after" until it comes back null. Other formats can't be stripped without
+// re-encoding and are reported as skipped when they look tagged. Run by
+// hand with the service role key; anyone else is turned away.
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const { after = '' } = await req.json().catch(() => ({})) as { after?: string };
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+  const { data, error } = await supabase.rpc('legacy_uploads', { p_after: after, p_limit: PAGE_SIZE });
+
+  if (error) {
+    console.error('Error listing legacy uploads:', error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const objects = data as { bucket_id: string; name: string }[];
+  const skipped: string[] = [];
+  let stripped = 0;
+
+  for (const { bucket_id, name } of objects) {
+    const { data: file, error: downloadError } = await supabase.storage.from(bucket_id).download(name);
+
+    if (downloadError) {
+      console.error(`Error downloading ${bucket_id}/${name}:`, downloadError);
+      return Response.json({ error: downloadError.message }, { status: 500 });
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const cleaned = stripMetadata(bytes);
+
+    if (!cleaned) {
+      const text = new TextDecoder('latin1').decode(bytes);
+      if (text.includes('Exif') || text.includes('http://ns.adobe.com/xap/1.0/')) {
+        console.error(`Could not strip metadata from ${bucket_id}/${name} (${file.type})`);
+        skipped.push(`${bucket_id}/${name}`);
+      }
+      continue;
+    }
+    if (cleaned.length === bytes.length) continue;
+
+    const { error: updateError } = await supabase.storage
+      .from(bucket_id)
+      .update(name, cleaned, { contentType: file.type, cacheControl: '31536000', upsert: true });
+
+    if (updateError) {
+      console.error(`Error rewriting ${bucket_id}/${name}:`, updateError);
+      return Response.json({ error: updateError.message }, { status: 500 });
+    }
+    stripped++;
+  }
+
+  const last = objects[objects.length - 1];
+  return Response.json({
+    checked: objects.length,
+    stripped,
+    skipped,
+    next: objects.length === PAGE_SIZE ? `${last.bucket_id}/${last.name}` : null,
+  });
+});
@@ -0,0 +1,45 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Storage API removes are capped per request
+const REMOVE_BATCH_SIZE = 100;
+
+// Deletes the objects orphaned_uploads() lists. Run daily by pg_cron with
+// the service role key; anyone else is turned away.
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+  const { data: orphans, error } = await supabase.rpc('orphaned_uploads');
+
+  if (error) {
+    console.error('Error listing orphaned uploads:', error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const byBucket = new Map<string, string[]>();
+  (orphans as { bucket_id: string; name: string }[]).forEach(({ bucket_id, name }) => {
+    byBucket.set(bucket_id, [...(byBucket.get(bucket_id) ?? []), name]);
+  });
+
+  let removed = 0;
+  for (const [bucket, names] of byBucket) {
+    for (let start = 0; start < names.length; start += REMOVE_BATCH_SIZE) {
+      const { data, error: removeError } = await supabase.storage
+        .from(bucket)
+        .remove(names.slice(start, start + REMOVE_BATCH_SIZE));
+
+      if (removeError) {
+        console.error(`Error removing orphaned uploads from ${bucket}:`, removeError);
+        continue;
+      }
+      removed += data?.length ?? 0;
+    }
+  }
+
+  return Response.json({ removed });
+});
@@ -0,0 +1,119 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import decodeAvif from 'npm:@jsquash/avif@1/decode.js';
+import decodeJpeg from 'npm:@jsquash/jpeg@1/decode.js';
+import decodeWebp from 'npm:@jsquash/webp@1/decode.js';
+
+type ImageTable = 'artworks' | 'attacks';
+
+const DECODERS: Record<string, (buffer: ArrayBuffer) => Promise<ImageData | null>> = {
+  'image/avif': decodeAvif,
+  'image/jpeg': decodeJpeg,
+  'image/webp': decodeWebp,
+};
+
+// Uploads only ever come from the two artwork buckets; anything else is
+// not ours to fetch
+const STORAGE_OBJECT = /\/storage\/v1\/object\/public\/(artworks|fight-artworks)\/(.+)$/;
+
+// Same difference hash as src/lib/images.ts: average the pixels into a 9x8
+// greyscale grid and record whether each cell is brighter than its
+// right-hand neighbour, as 16 hex digits
+function differenceHash({ data, width, height }: ImageData) {
+  const sums = new Float64Array(9 * 8);
+  const counts = new Uint32Array(9 * 8);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor((y * 8) / height) * 9;
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const cell = row + Math.floor((x * 9) / width);
+      sums[cell] += data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+      counts[cell]++;
+    }
+  }
+
+  const brightness = (x: number, y: number) => sums[y * 9 + x] / counts[y * 9 + x];
+
+  let hash = '';
+  for (let y = 0; y < 8; y++) {
+    let bits = 0;
+    for (let x = 0; x < 8; x++) {
+      bits = (bits << 1) | (brightness(x, y) > brightness(x + 1, y) ? 1 : 0);
+    }
+    hash += bits.toString(16).padStart(2, '0');
+  }
+  return hash;
+}
+
+// Replaces the perceptual hash the browser sent for a new artwork or
+// counter-artwork with one computed from its stored thumbnail; the update
+// re-runs duplicate flagging, which deletes the upload if it copies an
+// earlier image. Called by a database trigger after each insert with the
+// service role key; anyone else is turned away.
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const { table, id } = await req.json() as { table: ImageTable; id: string };
+  if (table !== 'artworks' && table !== 'attacks') {
+    return Response.json({ error: 'Unknown table' }, { status: 400 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+  const { data: row, error } = await supabase
+    .from(table)
+    .select('image_url, thumbnail_url')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching ${table} ${id}:`, error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+  if (!row?.image_url) {
+    return Response.json({ perceptual_hash: null });
+  }
+
+  const saveHash = async (perceptualHash: string | null) => {
+    const { error: updateError } = await supabase
+      .from(table)
+      .update({ perceptual_hash: perceptualHash })
+      .eq('id', id);
+
+    if (updateError) {
+      console.error(`Error saving perceptual hash for ${table} ${id}:`, updateError);
+      return Response.json({ error: updateError.message }, { status: 500 });
+    }
+    return Response.json({ perceptual_hash: perceptualHash });
+  };
+
+  // An image stored somewhere else can't be checked, so it keeps no hash
+  // rather than the one the browser claimed
+  const match = (row.thumbnail_url ?? row.image_url).match(STORAGE_OBJECT);
+  if (!match) {
+    console.error(`${table} ${id} points outside storage:`, row.image_url);
+    return saveHash(null);
+  }
+
+  const [, bucket, path] = match;
+  const { data: image, error: downloadError } = await supabase.storage.from(bucket).download(decodeURIComponent(path));
+
+  if (downloadError) {
+    console.error(`Error downloading ${bucket}/${path}:`, downloadError);
+    return Response.json({ error: downloadError.message }, { status: 500 });
+  }
+
+  const decode = DECODERS[image.type];
+  const pixels = decode ? await decode(await image.arrayBuffer()).catch(() => null) : null;
+
+  if (!pixels) {
+    console.error(`Could not decode ${bucket}/${path} (${image.type})`);
+    return saveHash(null);
+  }
+
+  return saveHash(differenceHash(pixels));
+});
@@ -0,0 +1,296 @@
+-- Server-authoritative points ledger.
+-- Every point awarded or revoked is an append-only row in point_events, written
+-- only by triggers on the rows that earn points. user_points is kept as a
+-- derived per-event aggregate of the ledger and is no longer writable by clients.
+
+-- Create point_events ledger table
+CREATE TABLE public.point_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN (
+    'opening_balance',
+    'artwork_submitted',
+    'like_received',
+    'like_revoked',
+    'attack_launched',
+    'attack_revoked',
+    'fight_artwork_submitted'
+  )),
+  category TEXT NOT NULL CHECK (category IN ('artwork', 'like', 'attack')),
+  amount INTEGER NOT NULL,
+  source_table TEXT,
+  source_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX point_events_event_user_idx ON public.point_events (event_id, user_id);
+CREATE INDEX point_events_source_idx ON public.point_events (source_table, source_id);
+
+-- Enable RLS on point_events
+ALTER TABLE public.point_events ENABLE ROW LEVEL SECURITY;
+
+-- The ledger is readable by everyone; there are deliberately no write policies
+CREATE POLICY "Point events are viewable by everyone"
+ON public.point_events
+FOR SELECT
+USING (true);
+
+-- Reject edits to ledger rows; corrections are new rows
+CREATE OR REPLACE FUNCTION public.prevent_point_event_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'point_events is append-only';
+END;
+$$;
+
+CREATE TRIGGER point_events_append_only
+  BEFORE UPDATE ON public.point_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_point_event_update();
+
+-- Fold each ledger row into the derived user_points aggregate
+CREATE OR REPLACE FUNCTION public.apply_point_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_points (user_id, event_id, artwork_points, like_points, attack_points, points_total)
+  VALUES (
+    NEW.user_id,
+    NEW.event_id,
+    CASE WHEN NEW.category = 'artwork' THEN NEW.amount ELSE 0 END,
+    CASE WHEN NEW.category = 'like' THEN NEW.amount ELSE 0 END,
+    CASE WHEN NEW.category = 'attack' THEN NEW.amount ELSE 0 END,
+    NEW.amount
+  )
+  ON CONFLICT (user_id, event_id)
+  DO UPDATE SET
+    artwork_points = user_points.artwork_points + EXCLUDED.artwork_points,
+    like_points = user_points.like_points + EXCLUDED.like_points,
+    attack_points = user_points.attack_points + EXCLUDED.attack_points,
+    points_total = user_points.points_total + EXCLUDED.points_total,
+    updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_point_event_created
+  AFTER INSERT ON public.point_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_point_event();
+
+-- Helper used by the scoring triggers below
+CREATE OR REPLACE FUNCTION public.record_point_event(
+  p_user_id uuid,
+  p_event_id uuid,
+  p_reason text,
+  p_category text,
+  p_amount integer,
+  p_source_table text,
+  p_source_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_amount = 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.point_events (user_id, event_id, reason, category, amount, source_table, source_id)
+  VALUES (p_user_id, p_event_id, p_reason, p_category, p_amount, p_source_table, p_source_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_point_event(uuid, uuid, text, text, integer, text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Artwork submissions: +5 to the artist
+CREATE OR REPLACE FUNCTION public.award_artwork_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.record_point_event(NEW.user_id, NEW.event_id, 'artwork_submitted', 'artwork', 5, 'artworks', NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_artwork_created_award_points
+  AFTER INSERT ON public.artworks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.award_artwork_points();
+
+-- Likes: +1 to the artwork owner; attacks: +3 to the attacker.
+-- Removing an interaction writes the compensating entry.
+CREATE OR REPLACE FUNCTION public.award_interaction_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_interaction public.artwork_interactions;
+  v_artwork public.artworks;
+  v_sign integer;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_interaction := NEW;
+    v_sign := 1;
+  ELSE
+    v_interaction := OLD;
+    v_sign := -1;
+  END IF;
+
+  SELECT * INTO v_artwork FROM public.artworks WHERE id = v_interaction.artwork_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_interaction.interaction_type = 'like' THEN
+    PERFORM public.record_point_event(
+      v_artwork.user_id,
+      v_artwork.event_id,
+      CASE WHEN v_sign > 0 THEN 'like_received' ELSE 'like_revoked' END,
+      'like',
+      v_sign * 1,
+      'artwork_interactions',
+      v_interaction.id
+    );
+  ELSIF v_interaction.interaction_type = 'attack' THEN
+    PERFORM public.record_point_event(
+      v_interaction.user_id,
+      v_artwork.event_id,
+      CASE WHEN v_sign > 0 THEN 'attack_launched' ELSE 'attack_revoked' END,
+      'attack',
+      v_sign * 3,
+      'artwork_interactions',
+      v_interaction.id
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_artwork_interaction_award_points
+  AFTER INSERT OR DELETE ON public.artwork_interactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.award_interaction_points();
+
+-- Unliking deletes the like, which writes the like_revoked entry above;
+-- users could create interactions but never remove them
+CREATE POLICY "Users can delete their own likes"
+ON public.artwork_interactions
+FOR DELETE
+USING (auth.uid() = user_id AND interaction_type = 'like');
+
+-- Keep the artwork counts in step when an interaction is removed too
+CREATE OR REPLACE FUNCTION public.update_artwork_counts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_interaction public.artwork_interactions;
+  v_delta integer;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_interaction := NEW;
+    v_delta := 1;
+  ELSE
+    v_interaction := OLD;
+    v_delta := -1;
+  END IF;
+
+  IF v_interaction.interaction_type = 'like' THEN
+    UPDATE public.artworks
+    SET likes_count = GREATEST(likes_count + v_delta, 0)
+    WHERE id = v_interaction.artwork_id;
+  ELSIF v_interaction.interaction_type = 'attack' THEN
+    UPDATE public.artworks
+    SET attacks_count = GREATEST(attacks_count + v_delta, 0)
+    WHERE id = v_interaction.artwork_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_update_artwork_counts ON public.artwork_interactions;
+CREATE TRIGGER trigger_update_artwork_counts
+  AFTER INSERT OR DELETE ON public.artwork_interactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_artwork_counts();
+
+-- Fight artworks: +3 to the attacker, replacing the old update_fight_points trigger
+DROP TRIGGER IF EXISTS on_fight_artwork_created ON public.fight_artworks;
+DROP FUNCTION IF EXISTS public.update_fight_points();
+
+CREATE OR REPLACE FUNCTION public.award_fight_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id uuid;
+BEGIN
+  SELECT event_id INTO v_event_id FROM public.artworks WHERE id = NEW.target_artwork_id;
+
+  IF v_event_id IS NOT NULL THEN
+    PERFORM public.record_point_event(NEW.attacker_id, v_event_id, 'fight_artwork_submitted', 'attack', 3, 'fight_artworks', NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_fight_artwork_created_award_points
+  AFTER INSERT ON public.fight_artworks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.award_fight_points();
+
+-- Carry existing totals into the ledger as opening balances so that
+-- user_points stays equal to the sum of point_events from here on
+DELETE FROM public.user_points
+WHERE artwork_points = 0 AND like_points = 0 AND attack_points = 0;
+
+ALTER TABLE public.point_events DISABLE TRIGGER on_point_event_created;
+
+INSERT INTO public.point_events (user_id, event_id, reason, category, amount)
+SELECT user_id, event_id, 'opening_balance', 'artwork', artwork_points
+FROM public.user_points WHERE artwork_points <> 0
+UNION ALL
+SELECT user_id, event_id, 'opening_balance', 'like', like_points
+FROM public.user_points WHERE like_points <> 0
+UNION ALL
+SELECT user_id, event_id, 'opening_balance', 'attack', attack_points
+FROM public.user_points WHERE attack_points <> 0;
+
+ALTER TABLE public.point_events ENABLE TRIGGER on_point_event_created;
+
+UPDATE public.user_points
+SET points_total = artwork_points + like_points + attack_points
+WHERE points_total <> artwork_points + like_points + attack_points;
+
+-- Clients lose write access to user_points entirely
+DROP POLICY IF EXISTS "Users can manage their own points" ON public.user_points;
+DROP POLICY IF EXISTS "Users can insert their own points" ON public.user_points;
+DROP POLICY IF EXISTS "Users can update their own points" ON public.user_points;
+
+REVOKE INSERT, UPDATE, DELETE ON public.user_points FROM anon, authenticated;
+
+-- The client-callable points RPC is superseded by the ledger triggers
+DROP FUNCTION IF EXISTS public.update_user_points(uuid, uuid, integer, integer, integer);
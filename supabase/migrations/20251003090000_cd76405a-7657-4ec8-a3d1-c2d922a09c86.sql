@@ -0,0 +1,223 @@
+-- Configurable per-event scoring rules.
+-- Each event has one scoring_rules row; the ledger triggers read point values
+-- from it instead of hard-coding them.
+
+-- Create scoring_rules table
+CREATE TABLE public.scoring_rules (
+  event_id UUID NOT NULL PRIMARY KEY REFERENCES public.events(id) ON DELETE CASCADE,
+  submission_points INTEGER NOT NULL DEFAULT 5,
+  like_received_points INTEGER NOT NULL DEFAULT 1,
+  attack_launched_points INTEGER NOT NULL DEFAULT 3,
+  attack_received_points INTEGER NOT NULL DEFAULT 0,
+  fight_back_points INTEGER NOT NULL DEFAULT 3,
+  midway_bonus_points INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on scoring_rules
+ALTER TABLE public.scoring_rules ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for scoring_rules, mirroring the events admin policies
+CREATE POLICY "Scoring rules are viewable by everyone"
+ON public.scoring_rules
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Authenticated users can create scoring rules"
+ON public.scoring_rules
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update scoring rules"
+ON public.scoring_rules
+FOR UPDATE
+TO authenticated
+USING (true);
+
+CREATE TRIGGER update_scoring_rules_updated_at
+  BEFORE UPDATE ON public.scoring_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Give every event a default ruleset
+CREATE OR REPLACE FUNCTION public.create_default_scoring_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.scoring_rules (event_id)
+  VALUES (NEW.id)
+  ON CONFLICT (event_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_event_created_scoring_rules
+  AFTER INSERT ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_default_scoring_rules();
+
+INSERT INTO public.scoring_rules (event_id)
+SELECT id FROM public.events
+ON CONFLICT (event_id) DO NOTHING;
+
+-- Look up an event's rules, creating the default row if it is missing
+CREATE OR REPLACE FUNCTION public.get_scoring_rules(p_event_id uuid)
+RETURNS public.scoring_rules
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rules public.scoring_rules;
+BEGIN
+  SELECT * INTO v_rules FROM public.scoring_rules WHERE event_id = p_event_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.scoring_rules (event_id)
+    VALUES (p_event_id)
+    ON CONFLICT (event_id) DO NOTHING;
+
+    SELECT * INTO v_rules FROM public.scoring_rules WHERE event_id = p_event_id;
+  END IF;
+
+  RETURN v_rules;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_scoring_rules(uuid) FROM PUBLIC, anon, authenticated;
+
+-- New ledger reasons for the added rules
+ALTER TABLE public.point_events DROP CONSTRAINT IF EXISTS point_events_reason_check;
+ALTER TABLE public.point_events ADD CONSTRAINT point_events_reason_check CHECK (reason IN (
+  'opening_balance',
+  'artwork_submitted',
+  'artwork_revoked',
+  'midway_theme_bonus',
+  'like_received',
+  'like_revoked',
+  'attack_launched',
+  'attack_received',
+  'attack_revoked',
+  'fight_artwork_submitted'
+));
+
+-- Reverse whatever a source row earned, whatever the rules were at the time
+CREATE OR REPLACE FUNCTION public.revoke_point_events(p_source_table text, p_source_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.point_events (user_id, event_id, reason, category, amount, source_table, source_id)
+  SELECT
+    user_id,
+    event_id,
+    CASE category
+      WHEN 'artwork' THEN 'artwork_revoked'
+      WHEN 'like' THEN 'like_revoked'
+      ELSE 'attack_revoked'
+    END,
+    category,
+    -SUM(amount),
+    p_source_table,
+    p_source_id
+  FROM public.point_events
+  WHERE source_table = p_source_table
+    AND source_id = p_source_id
+  GROUP BY user_id, event_id, category
+  HAVING SUM(amount) <> 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_point_events(text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Artwork submissions, plus the bonus for answering the midway theme
+CREATE OR REPLACE FUNCTION public.award_artwork_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rules public.scoring_rules;
+  v_event public.events;
+BEGIN
+  v_rules := public.get_scoring_rules(NEW.event_id);
+  SELECT * INTO v_event FROM public.events WHERE id = NEW.event_id;
+
+  PERFORM public.record_point_event(NEW.user_id, NEW.event_id, 'artwork_submitted', 'artwork', v_rules.submission_points, 'artworks', NEW.id);
+
+  IF v_event.midway_theme IS NOT NULL
+    AND v_event.midway_time IS NOT NULL
+    AND NEW.created_at >= v_event.midway_time THEN
+    PERFORM public.record_point_event(NEW.user_id, NEW.event_id, 'midway_theme_bonus', 'artwork', v_rules.midway_bonus_points, 'artworks', NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Likes reward the artwork owner; attacks reward both the attacker and the target
+CREATE OR REPLACE FUNCTION public.award_interaction_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_artwork public.artworks;
+  v_rules public.scoring_rules;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.revoke_point_events('artwork_interactions', OLD.id);
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_artwork FROM public.artworks WHERE id = NEW.artwork_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_rules := public.get_scoring_rules(v_artwork.event_id);
+
+  IF NEW.interaction_type = 'like' THEN
+    PERFORM public.record_point_event(v_artwork.user_id, v_artwork.event_id, 'like_received', 'like', v_rules.like_received_points, 'artwork_interactions', NEW.id);
+  ELSIF NEW.interaction_type = 'attack' THEN
+    PERFORM public.record_point_event(NEW.user_id, v_artwork.event_id, 'attack_launched', 'attack', v_rules.attack_launched_points, 'artwork_interactions', NEW.id);
+    PERFORM public.record_point_event(v_artwork.user_id, v_artwork.event_id, 'attack_received', 'attack', v_rules.attack_received_points, 'artwork_interactions', NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Fight artworks reward the counter-artist with fight-back points
+CREATE OR REPLACE FUNCTION public.award_fight_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_artwork public.artworks;
+  v_rules public.scoring_rules;
+BEGIN
+  SELECT * INTO v_artwork FROM public.artworks WHERE id = NEW.target_artwork_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  v_rules := public.get_scoring_rules(v_artwork.event_id);
+
+  PERFORM public.record_point_event(NEW.attacker_id, v_artwork.event_id, 'fight_artwork_submitted', 'attack', v_rules.fight_back_points, 'fight_artworks', NEW.id);
+  PERFORM public.record_point_event(v_artwork.user_id, v_artwork.event_id, 'attack_received', 'attack', v_rules.attack_received_points, 'fight_artworks', NEW.id);
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,227 @@
+-- Recompute an event's scores from the raw artworks, artwork_interactions and
+-- fight_artworks rows using the event's scoring rules. Corrections are written
+-- to the ledger as adjustment entries so user_points stays derived from it.
+
+ALTER TABLE public.point_events DROP CONSTRAINT IF EXISTS point_events_reason_check;
+ALTER TABLE public.point_events ADD CONSTRAINT point_events_reason_check CHECK (reason IN (
+  'opening_balance',
+  'recompute_adjustment',
+  'artwork_submitted',
+  'artwork_revoked',
+  'midway_theme_bonus',
+  'like_received',
+  'like_revoked',
+  'attack_launched',
+  'attack_received',
+  'attack_revoked',
+  'fight_artwork_submitted'
+));
+
+-- What each participant should have, per category, under the current rules
+CREATE OR REPLACE FUNCTION public.compute_event_scores(p_event_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  artwork_points integer,
+  like_points integer,
+  attack_points integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rules public.scoring_rules;
+  v_event public.events;
+BEGIN
+  SELECT * INTO v_event FROM public.events WHERE id = p_event_id;
+  v_rules := public.get_scoring_rules(p_event_id);
+
+  RETURN QUERY
+  WITH event_artworks AS (
+    SELECT a.id, a.user_id, a.created_at
+    FROM public.artworks a
+    WHERE a.event_id = p_event_id
+  ),
+  entries AS (
+    -- Submissions and midway theme bonuses
+    SELECT ea.user_id, 'artwork' AS category,
+      v_rules.submission_points
+      + CASE
+          WHEN v_event.midway_theme IS NOT NULL
+            AND v_event.midway_time IS NOT NULL
+            AND ea.created_at >= v_event.midway_time
+          THEN v_rules.midway_bonus_points
+          ELSE 0
+        END AS amount
+    FROM event_artworks ea
+
+    UNION ALL
+    -- Likes received
+    SELECT ea.user_id, 'like', v_rules.like_received_points
+    FROM public.artwork_interactions ai
+    JOIN event_artworks ea ON ea.id = ai.artwork_id
+    WHERE ai.interaction_type = 'like'
+
+    UNION ALL
+    -- Attacks launched
+    SELECT ai.user_id, 'attack', v_rules.attack_launched_points
+    FROM public.artwork_interactions ai
+    JOIN event_artworks ea ON ea.id = ai.artwork_id
+    WHERE ai.interaction_type = 'attack'
+
+    UNION ALL
+    -- Attacks received, from both plain attacks and fight artworks
+    SELECT ea.user_id, 'attack', v_rules.attack_received_points
+    FROM public.artwork_interactions ai
+    JOIN event_artworks ea ON ea.id = ai.artwork_id
+    WHERE ai.interaction_type = 'attack'
+
+    UNION ALL
+    SELECT ea.user_id, 'attack', v_rules.attack_received_points
+    FROM public.fight_artworks fa
+    JOIN event_artworks ea ON ea.id = fa.target_artwork_id
+
+    UNION ALL
+    -- Fight-back artworks
+    SELECT fa.attacker_id, 'attack', v_rules.fight_back_points
+    FROM public.fight_artworks fa
+    JOIN event_artworks ea ON ea.id = fa.target_artwork_id
+  )
+  SELECT
+    e.user_id,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.category = 'artwork'), 0)::integer,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.category = 'like'), 0)::integer,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.category = 'attack'), 0)::integer
+  FROM entries e
+  GROUP BY e.user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.compute_event_scores(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Per-user before/after comparison for the admin diff preview
+CREATE OR REPLACE FUNCTION public.preview_event_score_recompute(p_event_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  current_artwork_points integer,
+  current_like_points integer,
+  current_attack_points integer,
+  current_points_total integer,
+  new_artwork_points integer,
+  new_like_points integer,
+  new_attack_points integer,
+  new_points_total integer
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH computed AS (
+    SELECT * FROM public.compute_event_scores(p_event_id)
+  ),
+  current_points AS (
+    SELECT up.user_id, up.artwork_points, up.like_points, up.attack_points, up.points_total
+    FROM public.user_points up
+    WHERE up.event_id = p_event_id
+  ),
+  combined AS (
+    SELECT
+      COALESCE(c.user_id, cp.user_id) AS user_id,
+      COALESCE(cp.artwork_points, 0) AS current_artwork_points,
+      COALESCE(cp.like_points, 0) AS current_like_points,
+      COALESCE(cp.attack_points, 0) AS current_attack_points,
+      COALESCE(cp.points_total, 0) AS current_points_total,
+      COALESCE(c.artwork_points, 0) AS new_artwork_points,
+      COALESCE(c.like_points, 0) AS new_like_points,
+      COALESCE(c.attack_points, 0) AS new_attack_points
+    FROM computed c
+    FULL OUTER JOIN current_points cp ON cp.user_id = c.user_id
+  )
+  SELECT
+    cb.user_id,
+    p.display_name,
+    cb.current_artwork_points,
+    cb.current_like_points,
+    cb.current_attack_points,
+    cb.current_points_total,
+    cb.new_artwork_points,
+    cb.new_like_points,
+    cb.new_attack_points,
+    cb.new_artwork_points + cb.new_like_points + cb.new_attack_points
+  FROM combined cb
+  LEFT JOIN public.profiles p ON p.user_id = cb.user_id
+  ORDER BY p.display_name NULLS LAST, cb.user_id;
+$$;
+
+-- Bring the ledger in line with the recomputed scores in one transaction.
+-- p_preview holds the changed rows of the preview the admin approved.
+-- Returns the number of participants whose points changed.
+CREATE OR REPLACE FUNCTION public.apply_event_score_recompute(p_event_id uuid, p_preview jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+  v_changed integer := 0;
+BEGIN
+  -- Hold off concurrent point awards so the diff and the adjustments agree
+  LOCK TABLE public.point_events IN EXCLUSIVE MODE;
+
+  -- Only the adjustments the admin previewed are applied; if points were
+  -- awarded or revoked since, the diff no longer matches and they have to
+  -- look again
+  IF EXISTS (
+    (SELECT d.user_id, d.current_artwork_points, d.current_like_points, d.current_attack_points,
+        d.new_artwork_points, d.new_like_points, d.new_attack_points
+      FROM public.preview_event_score_recompute(p_event_id) d
+      WHERE (d.current_artwork_points, d.current_like_points, d.current_attack_points)
+        IS DISTINCT FROM (d.new_artwork_points, d.new_like_points, d.new_attack_points)
+    EXCEPT
+    SELECT * FROM jsonb_to_recordset(p_preview) AS p(
+        user_id uuid, current_artwork_points integer, current_like_points integer, current_attack_points integer,
+        new_artwork_points integer, new_like_points integer, new_attack_points integer
+      ))
+    UNION ALL
+    (SELECT * FROM jsonb_to_recordset(p_preview) AS p(
+        user_id uuid, current_artwork_points integer, current_like_points integer, current_attack_points integer,
+        new_artwork_points integer, new_like_points integer, new_attack_points integer
+      )
+    EXCEPT
+    SELECT d.user_id, d.current_artwork_points, d.current_like_points, d.current_attack_points,
+        d.new_artwork_points, d.new_like_points, d.new_attack_points
+      FROM public.preview_event_score_recompute(p_event_id) d
+      WHERE (d.current_artwork_points, d.current_like_points, d.current_attack_points)
+        IS DISTINCT FROM (d.new_artwork_points, d.new_like_points, d.new_attack_points))
+  ) THEN
+    RAISE EXCEPTION 'Scores have changed since the preview. Review the new preview before applying'
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  FOR v_row IN SELECT * FROM public.preview_event_score_recompute(p_event_id) LOOP
+    IF v_row.current_artwork_points = v_row.new_artwork_points
+      AND v_row.current_like_points = v_row.new_like_points
+      AND v_row.current_attack_points = v_row.new_attack_points THEN
+      CONTINUE;
+    END IF;
+
+    PERFORM public.record_point_event(v_row.user_id, p_event_id, 'recompute_adjustment', 'artwork',
+      v_row.new_artwork_points - v_row.current_artwork_points, 'events', p_event_id);
+    PERFORM public.record_point_event(v_row.user_id, p_event_id, 'recompute_adjustment', 'like',
+      v_row.new_like_points - v_row.current_like_points, 'events', p_event_id);
+    PERFORM public.record_point_event(v_row.user_id, p_event_id, 'recompute_adjustment', 'attack',
+      v_row.new_attack_points - v_row.current_attack_points, 'events', p_event_id);
+
+    v_changed := v_changed + 1;
+  END LOOP;
+
+  RETURN v_changed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_event_score_recompute(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.apply_event_score_recompute(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.preview_event_score_recompute(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_event_score_recompute(uuid, jsonb) TO authenticated;
@@ -0,0 +1,305 @@
+-- Role-based authorization.
+-- Roles live in user_roles and are checked with has_role() from RLS policies
+-- and admin RPCs. The first admin has to be granted from the SQL editor:
+--   INSERT INTO public.user_roles (user_id, role) VALUES ('<auth user id>', 'admin');
+
+CREATE TYPE public.app_role AS ENUM ('admin', 'moderator', 'judge', 'participant');
+
+-- Create user_roles table
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, role)
+);
+
+-- Enable RLS on user_roles
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Security definer so policies can call it without recursing into user_roles RLS
+CREATE OR REPLACE FUNCTION public.has_role(p_user_id uuid, p_role public.app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = p_user_id
+      AND role = p_role
+  );
+$$;
+
+-- Create policies for user_roles
+CREATE POLICY "Users can view their own roles"
+ON public.user_roles
+FOR SELECT
+USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can grant roles"
+ON public.user_roles
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can revoke roles"
+ON public.user_roles
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Everyone who signs up is a participant
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, username, display_name)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data ->> 'username', 'user_' || substring(NEW.id::text, 1, 8)),
+    COALESCE(NEW.raw_user_meta_data ->> 'display_name', 'New User')
+  );
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'participant');
+
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, 'participant' FROM auth.users
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- Only admins may manage events
+DROP POLICY IF EXISTS "Authenticated users can create events" ON public.events;
+DROP POLICY IF EXISTS "Authenticated users can update events" ON public.events;
+DROP POLICY IF EXISTS "Authenticated users can delete events" ON public.events;
+
+CREATE POLICY "Admins can create events"
+ON public.events
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update events"
+ON public.events
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete events"
+ON public.events
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Only admins may change scoring rules
+DROP POLICY IF EXISTS "Authenticated users can create scoring rules" ON public.scoring_rules;
+DROP POLICY IF EXISTS "Authenticated users can update scoring rules" ON public.scoring_rules;
+
+CREATE POLICY "Admins can create scoring rules"
+ON public.scoring_rules
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update scoring rules"
+ON public.scoring_rules
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Moderators and admins can remove submissions and interactions
+CREATE POLICY "Moderators can delete artworks"
+ON public.artworks
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'moderator') OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Moderators can delete fight artworks"
+ON public.fight_artworks
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'moderator') OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Moderators can delete interactions"
+ON public.artwork_interactions
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'moderator') OR public.has_role(auth.uid(), 'admin'));
+
+-- Removing an artwork takes its counter-artworks with it
+ALTER TABLE public.fight_artworks DROP CONSTRAINT IF EXISTS fight_artworks_target_artwork_id_fkey;
+ALTER TABLE public.fight_artworks ADD CONSTRAINT fight_artworks_target_artwork_id_fkey
+FOREIGN KEY (target_artwork_id) REFERENCES public.artworks(id) ON DELETE CASCADE;
+
+-- Removed submissions give their points back. Skip events that are being
+-- deleted themselves, whose ledger goes with them.
+CREATE OR REPLACE FUNCTION public.revoke_point_events(p_source_table text, p_source_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.point_events (user_id, event_id, reason, category, amount, source_table, source_id)
+  SELECT
+    pe.user_id,
+    pe.event_id,
+    CASE pe.category
+      WHEN 'artwork' THEN 'artwork_revoked'
+      WHEN 'like' THEN 'like_revoked'
+      ELSE 'attack_revoked'
+    END,
+    pe.category,
+    -SUM(pe.amount),
+    p_source_table,
+    p_source_id
+  FROM public.point_events pe
+  WHERE pe.source_table = p_source_table
+    AND pe.source_id = p_source_id
+    AND EXISTS (SELECT 1 FROM public.events e WHERE e.id = pe.event_id)
+  GROUP BY pe.user_id, pe.event_id, pe.category
+  HAVING SUM(pe.amount) <> 0;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_source_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.revoke_point_events(TG_TABLE_NAME, OLD.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_artwork_deleted_revoke_points
+  AFTER DELETE ON public.artworks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.revoke_source_points();
+
+CREATE TRIGGER on_fight_artwork_deleted_revoke_points
+  AFTER DELETE ON public.fight_artworks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.revoke_source_points();
+
+-- Score recompute is an admin-only tool
+ALTER FUNCTION public.preview_event_score_recompute(uuid) RENAME TO event_score_diff;
+REVOKE EXECUTE ON FUNCTION public.event_score_diff(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.require_role(p_role public.app_role)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), p_role) THEN
+    RAISE EXCEPTION 'Requires the % role', p_role
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.preview_event_score_recompute(p_event_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  current_artwork_points integer,
+  current_like_points integer,
+  current_attack_points integer,
+  current_points_total integer,
+  new_artwork_points integer,
+  new_like_points integer,
+  new_attack_points integer,
+  new_points_total integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.require_role('admin');
+
+  RETURN QUERY SELECT * FROM public.event_score_diff(p_event_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_event_score_recompute(p_event_id uuid, p_preview jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+  v_changed integer := 0;
+BEGIN
+  PERFORM public.require_role('admin');
+
+  -- Hold off concurrent point awards so the diff and the adjustments agree
+  LOCK TABLE public.point_events IN EXCLUSIVE MODE;
+
+  -- Only the adjustments the admin previewed are applied; if points were
+  -- awarded or revoked since, the diff no longer matches and they have to
+  -- look again
+  IF EXISTS (
+    (SELECT d.user_id, d.current_artwork_points, d.current_like_points, d.current_attack_points,
+        d.new_artwork_points, d.new_like_points, d.new_attack_points
+      FROM public.event_score_diff(p_event_id) d
+      WHERE (d.current_artwork_points, d.current_like_points, d.current_attack_points)
+        IS DISTINCT FROM (d.new_artwork_points, d.new_like_points, d.new_attack_points)
+    EXCEPT
+    SELECT * FROM jsonb_to_recordset(p_preview) AS p(
+        user_id uuid, current_artwork_points integer, current_like_points integer, current_attack_points integer,
+        new_artwork_points integer, new_like_points integer, new_attack_points integer
+      ))
+    UNION ALL
+    (SELECT * FROM jsonb_to_recordset(p_preview) AS p(
+        user_id uuid, current_artwork_points integer, current_like_points integer, current_attack_points integer,
+        new_artwork_points integer, new_like_points integer, new_attack_points integer
+      )
+    EXCEPT
+    SELECT d.user_id, d.current_artwork_points, d.current_like_points, d.current_attack_points,
+        d.new_artwork_points, d.new_like_points, d.new_attack_points
+      FROM public.event_score_diff(p_event_id) d
+      WHERE (d.current_artwork_points, d.current_like_points, d.current_attack_points)
+        IS DISTINCT FROM (d.new_artwork_points, d.new_like_points, d.new_attack_points))
+  ) THEN
+    RAISE EXCEPTION 'Scores have changed since the preview. Review the new preview before applying'
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  FOR v_row IN SELECT * FROM public.event_score_diff(p_event_id) LOOP
+    IF v_row.current_artwork_points = v_row.new_artwork_points
+      AND v_row.current_like_points = v_row.new_like_points
+      AND v_row.current_attack_points = v_row.new_attack_points THEN
+      CONTINUE;
+    END IF;
+
+    PERFORM public.record_point_event(v_row.user_id, p_event_id, 'recompute_adjustment', 'artwork',
+      v_row.new_artwork_points - v_row.current_artwork_points, 'events', p_event_id);
+    PERFORM public.record_point_event(v_row.user_id, p_event_id, 'recompute_adjustment', 'like',
+      v_row.new_like_points - v_row.current_like_points, 'events', p_event_id);
+    PERFORM public.record_point_event(v_row.user_id, p_event_id, 'recompute_adjustment', 'attack',
+      v_row.new_attack_points - v_row.current_attack_points, 'events', p_event_id);
+
+    v_changed := v_changed + 1;
+  END LOOP;
+
+  RETURN v_changed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_event_score_recompute(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.preview_event_score_recompute(uuid) TO authenticated;
@@ -0,0 +1,158 @@
+-- Automatic event lifecycle.
+-- events.status is the authoritative phase: upcoming -> ongoing -> midway -> ended
+-- (midway is skipped for events without a midway_time). update_event_status()
+-- advances events whose boundary has passed and is run every minute by pg_cron.
+-- Every status change is recorded in event_status_transitions.
+
+ALTER TABLE public.events DROP CONSTRAINT IF EXISTS events_status_check;
+ALTER TABLE public.events ADD CONSTRAINT events_status_check
+CHECK (status IN ('upcoming', 'ongoing', 'midway', 'ended'));
+
+-- Create event_status_transitions table
+CREATE TABLE public.event_status_transitions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  scheduled_for TIMESTAMP WITH TIME ZONE,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'scheduler')),
+  transitioned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX event_status_transitions_event_idx ON public.event_status_transitions (event_id, transitioned_at);
+
+-- Enable RLS on event_status_transitions
+ALTER TABLE public.event_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Event status transitions are viewable by everyone"
+ON public.event_status_transitions
+FOR SELECT
+USING (true);
+
+-- Record every status change, whether made by the scheduler or by hand
+CREATE OR REPLACE FUNCTION public.record_event_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.event_status_transitions (event_id, from_status, to_status, scheduled_for, source)
+  VALUES (
+    NEW.id,
+    OLD.status,
+    NEW.status,
+    CASE NEW.status
+      WHEN 'ongoing' THEN NEW.start_time
+      WHEN 'midway' THEN NEW.midway_time
+      WHEN 'ended' THEN NEW.end_time
+    END,
+    COALESCE(NULLIF(current_setting('app.event_status_source', true), ''), 'manual')
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_event_status_changed
+  AFTER UPDATE OF status ON public.events
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.record_event_status_transition();
+
+-- The phase an event's schedule puts it in at a given moment
+CREATE OR REPLACE FUNCTION public.event_phase_at(
+  p_start_time timestamptz,
+  p_midway_time timestamptz,
+  p_end_time timestamptz,
+  p_at timestamptz
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_at >= p_end_time THEN 'ended'
+    WHEN p_midway_time IS NOT NULL AND p_at >= p_midway_time THEN 'midway'
+    WHEN p_at >= p_start_time THEN 'ongoing'
+    ELSE 'upcoming'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.event_phase_rank(p_status text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_status
+    WHEN 'upcoming' THEN 0
+    WHEN 'ongoing' THEN 1
+    WHEN 'midway' THEN 2
+    WHEN 'ended' THEN 3
+  END;
+$$;
+
+-- Advance events one phase at a time so each transition is recorded.
+-- Phases only move forward. Returns the number of transitions made.
+-- p_now lets tests run the scheduler at an arbitrary point in time.
+DROP FUNCTION IF EXISTS public.update_event_status();
+
+CREATE OR REPLACE FUNCTION public.update_event_status(p_now timestamptz DEFAULT now())
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+  v_target text;
+  v_next text;
+  v_transitions integer := 0;
+BEGIN
+  PERFORM set_config('app.event_status_source', 'scheduler', true);
+
+  FOR v_event IN
+    SELECT * FROM public.events
+    WHERE status <> 'ended'
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_target := public.event_phase_at(v_event.start_time, v_event.midway_time, v_event.end_time, p_now);
+
+    WHILE public.event_phase_rank(v_event.status) < public.event_phase_rank(v_target) LOOP
+      v_next := CASE v_event.status
+        WHEN 'upcoming' THEN 'ongoing'
+        WHEN 'ongoing' THEN CASE WHEN v_event.midway_time IS NOT NULL THEN 'midway' ELSE 'ended' END
+        ELSE 'ended'
+      END;
+
+      UPDATE public.events SET status = v_next WHERE id = v_event.id;
+      v_event.status := v_next;
+      v_transitions := v_transitions + 1;
+    END LOOP;
+  END LOOP;
+
+  PERFORM set_config('app.event_status_source', '', true);
+
+  RETURN v_transitions;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_event_status(timestamptz) FROM PUBLIC, anon, authenticated;
+
+-- Run the scheduler every minute where pg_cron is available (hosted Supabase).
+-- On a plain local Postgres call SELECT public.update_event_status() directly.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    EXECUTE $cron$
+      SELECT cron.schedule(
+        'update-event-status',
+        '* * * * *',
+        'SELECT public.update_event_status();'
+      )
+    $cron$;
+  END IF;
+END $$;
+
+-- Catch up events whose boundaries have already passed
+SELECT public.update_event_status();
@@ -0,0 +1,203 @@
+-- Submission windows.
+-- Artworks and fight artworks can only be inserted while their event is live.
+-- Each row records the theme phase it was submitted under: midway once the
+-- event's midway_time has passed, opening before it.
+
+ALTER TABLE public.artworks
+ADD COLUMN theme_phase TEXT NOT NULL DEFAULT 'opening' CHECK (theme_phase IN ('opening', 'midway'));
+
+ALTER TABLE public.fight_artworks
+ADD COLUMN theme_phase TEXT NOT NULL DEFAULT 'opening' CHECK (theme_phase IN ('opening', 'midway'));
+
+-- Tag existing submissions by when they were made
+UPDATE public.artworks a
+SET theme_phase = 'midway'
+FROM public.events e
+WHERE e.id = a.event_id
+  AND e.midway_theme IS NOT NULL
+  AND e.midway_time IS NOT NULL
+  AND a.created_at >= e.midway_time;
+
+UPDATE public.fight_artworks fa
+SET theme_phase = 'midway'
+FROM public.artworks a
+JOIN public.events e ON e.id = a.event_id
+WHERE a.id = fa.target_artwork_id
+  AND e.midway_theme IS NOT NULL
+  AND e.midway_time IS NOT NULL
+  AND fa.created_at >= e.midway_time;
+
+-- The theme phase an event is in right now, or NULL when it is not live.
+-- The phase comes from midway_time against now(), the same clock new rows'
+-- created_at reads, so tagging doesn't wait for the status scheduler.
+CREATE OR REPLACE FUNCTION public.event_theme_phase(p_event public.events)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_event.status NOT IN ('ongoing', 'midway') THEN NULL
+    WHEN p_event.midway_theme IS NOT NULL AND p_event.midway_time IS NOT NULL AND now() >= p_event.midway_time THEN 'midway'
+    ELSE 'opening'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_artwork_submission_window()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+  v_phase text;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- Artworks can be edited but not moved between events or phases
+    NEW.event_id := OLD.event_id;
+    NEW.theme_phase := OLD.theme_phase;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_event FROM public.events WHERE id = NEW.event_id;
+  v_phase := public.event_theme_phase(v_event);
+
+  IF v_phase IS NULL THEN
+    RAISE EXCEPTION 'Submissions for this event are closed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.theme_phase := v_phase;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_artwork_submission_window
+  BEFORE INSERT OR UPDATE ON public.artworks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_artwork_submission_window();
+
+CREATE OR REPLACE FUNCTION public.enforce_fight_artwork_submission_window()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+  v_phase text;
+BEGIN
+  SELECT e.* INTO v_event
+  FROM public.artworks a
+  JOIN public.events e ON e.id = a.event_id
+  WHERE a.id = NEW.target_artwork_id;
+
+  v_phase := public.event_theme_phase(v_event);
+
+  IF v_phase IS NULL THEN
+    RAISE EXCEPTION 'Attacks for this event are closed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.theme_phase := v_phase;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_fight_artwork_submission_window
+  BEFORE INSERT ON public.fight_artworks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_fight_artwork_submission_window();
+
+-- The midway bonus follows the recorded phase rather than the clock
+CREATE OR REPLACE FUNCTION public.award_artwork_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rules public.scoring_rules;
+BEGIN
+  v_rules := public.get_scoring_rules(NEW.event_id);
+
+  PERFORM public.record_point_event(NEW.user_id, NEW.event_id, 'artwork_submitted', 'artwork', v_rules.submission_points, 'artworks', NEW.id);
+
+  IF NEW.theme_phase = 'midway' THEN
+    PERFORM public.record_point_event(NEW.user_id, NEW.event_id, 'midway_theme_bonus', 'artwork', v_rules.midway_bonus_points, 'artworks', NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.compute_event_scores(p_event_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  artwork_points integer,
+  like_points integer,
+  attack_points integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rules public.scoring_rules;
+BEGIN
+  v_rules := public.get_scoring_rules(p_event_id);
+
+  RETURN QUERY
+  WITH event_artworks AS (
+    SELECT a.id, a.user_id, a.theme_phase
+    FROM public.artworks a
+    WHERE a.event_id = p_event_id
+  ),
+  entries AS (
+    -- Submissions and midway theme bonuses
+    SELECT ea.user_id, 'artwork' AS category,
+      v_rules.submission_points
+      + CASE WHEN ea.theme_phase = 'midway' THEN v_rules.midway_bonus_points ELSE 0 END AS amount
+    FROM event_artworks ea
+
+    UNION ALL
+    -- Likes received
+    SELECT ea.user_id, 'like', v_rules.like_received_points
+    FROM public.artwork_interactions ai
+    JOIN event_artworks ea ON ea.id = ai.artwork_id
+    WHERE ai.interaction_type = 'like'
+
+    UNION ALL
+    -- Attacks launched
+    SELECT ai.user_id, 'attack', v_rules.attack_launched_points
+    FROM public.artwork_interactions ai
+    JOIN event_artworks ea ON ea.id = ai.artwork_id
+    WHERE ai.interaction_type = 'attack'
+
+    UNION ALL
+    -- Attacks received, from both plain attacks and fight artworks
+    SELECT ea.user_id, 'attack', v_rules.attack_received_points
+    FROM public.artwork_interactions ai
+    JOIN event_artworks ea ON ea.id = ai.artwork_id
+    WHERE ai.interaction_type = 'attack'
+
+    UNION ALL
+    SELECT ea.user_id, 'attack', v_rules.attack_received_points
+    FROM public.fight_artworks fa
+    JOIN event_artworks ea ON ea.id = fa.target_artwork_id
+
+    UNION ALL
+    -- Fight-back artworks
+    SELECT fa.attacker_id, 'attack', v_rules.fight_back_points
+    FROM public.fight_artworks fa
+    JOIN event_artworks ea ON ea.id = fa.target_artwork_id
+  )
+  SELECT
+    e.user_id,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.category = 'artwork'), 0)::integer,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.category = 'like'), 0)::integer,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.category = 'attack'), 0)::integer
+  FROM entries e
+  GROUP BY e.user_id;
+END;
+$$;
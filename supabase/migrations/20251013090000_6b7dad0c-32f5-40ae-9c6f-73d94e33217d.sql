@@ -0,0 +1,112 @@
+-- Teams per event.
+-- Replaces the fixed team_a_* / team_b_* columns on events and the 'A' | 'B'
+-- team letter on event_participants with event_teams, so an event can field
+-- between 2 and 8 teams. Team 1 and 2 of existing events keep the old A and B.
+
+-- Create event_teams table
+CREATE TABLE public.event_teams (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position BETWEEN 1 AND 8),
+  name TEXT NOT NULL,
+  color TEXT CHECK (color ~ '^#[0-9A-Fa-f]{6}$'),
+  avatar_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(event_id, position),
+  UNIQUE(id, event_id)
+);
+
+-- Enable RLS on event_teams
+ALTER TABLE public.event_teams ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for event_teams
+CREATE POLICY "Event teams are viewable by everyone"
+ON public.event_teams
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can create event teams"
+ON public.event_teams
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update event teams"
+ON public.event_teams
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete event teams"
+ON public.event_teams
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.event_teams (event_id, position, name, avatar_url)
+SELECT id, 1, team_a_name, team_a_pfp FROM public.events
+UNION ALL
+SELECT id, 2, team_b_name, team_b_pfp FROM public.events;
+
+-- Teams are created together with their event, so only check the count of
+-- events that already have teams once a statement adds or removes some
+CREATE OR REPLACE FUNCTION public.check_event_team_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.events e
+    WHERE e.id IN (SELECT event_id FROM changed_teams)
+      AND (SELECT count(*) FROM public.event_teams t WHERE t.event_id = e.id) NOT BETWEEN 2 AND 8
+  ) THEN
+    RAISE EXCEPTION 'An event needs between 2 and 8 teams'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER check_event_team_count_on_insert
+  AFTER INSERT ON public.event_teams
+  REFERENCING NEW TABLE AS changed_teams
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.check_event_team_count();
+
+CREATE TRIGGER check_event_team_count_on_delete
+  AFTER DELETE ON public.event_teams
+  REFERENCING OLD TABLE AS changed_teams
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.check_event_team_count();
+
+-- Participants belong to one of their event's teams
+ALTER TABLE public.event_participants ADD COLUMN team_id UUID;
+
+UPDATE public.event_participants ep
+SET team_id = t.id
+FROM public.event_teams t
+WHERE t.event_id = ep.event_id
+  AND t.position = CASE ep.team WHEN 'A' THEN 1 ELSE 2 END;
+
+ALTER TABLE public.event_participants ALTER COLUMN team_id SET NOT NULL;
+
+ALTER TABLE public.event_participants
+ADD CONSTRAINT event_participants_team_id_fkey
+FOREIGN KEY (team_id, event_id) REFERENCES public.event_teams(id, event_id);
+
+CREATE INDEX event_participants_team_idx ON public.event_participants (team_id);
+
+-- artworks_view was created outside the migrations and is not used by the
+-- app; it reads participant teams by letter, so drop it with the column
+DROP VIEW IF EXISTS public.artworks_view;
+
+ALTER TABLE public.event_participants DROP COLUMN team;
+
+ALTER TABLE public.events
+  DROP COLUMN team_a_name,
+  DROP COLUMN team_a_pfp,
+  DROP COLUMN team_b_name,
+  DROP COLUMN team_b_pfp;
@@ -0,0 +1,215 @@
+-- Join policies.
+-- Participants no longer insert into event_participants themselves; joining
+-- goes through join_event(), which locks the event row so concurrent joins
+-- are assigned one after another against up-to-date team sizes.
+--   auto_balance  - the smallest team with room
+--   user_choice   - the team the user picks
+--   invite_only   - only invited users; the invite may name the team
+--   admin_assign  - admins place users with assign_event_team()
+-- max_team_size caps every team of the event under any policy.
+
+ALTER TABLE public.events
+ADD COLUMN join_policy TEXT NOT NULL DEFAULT 'auto_balance'
+  CHECK (join_policy IN ('auto_balance', 'user_choice', 'invite_only', 'admin_assign')),
+ADD COLUMN max_team_size INTEGER CHECK (max_team_size > 0);
+
+-- Create event_invites table
+CREATE TABLE public.event_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_id UUID,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(event_id, user_id),
+  FOREIGN KEY (team_id, event_id) REFERENCES public.event_teams(id, event_id) ON DELETE CASCADE
+);
+
+-- Enable RLS on event_invites
+ALTER TABLE public.event_invites ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for event_invites
+CREATE POLICY "Users can view their own invites"
+ON public.event_invites
+FOR SELECT
+USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create invites"
+ON public.event_invites
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete invites"
+ON public.event_invites
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Joining is only possible through join_event()
+DROP POLICY IF EXISTS "Users can join events" ON public.event_participants;
+
+-- Lock the event for the rest of the transaction so team sizes can't change
+-- underneath the caller, and make sure it still takes participants
+CREATE OR REPLACE FUNCTION public.lock_event_for_join(p_event_id uuid)
+RETURNS public.events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+BEGIN
+  SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_event.status NOT IN ('upcoming', 'ongoing', 'midway') THEN
+    RAISE EXCEPTION 'This event is no longer accepting participants'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN v_event;
+END;
+$$;
+
+-- Teams of the event that still have room, smallest first
+CREATE OR REPLACE FUNCTION public.open_event_teams(p_event public.events)
+RETURNS TABLE (team_id uuid, member_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.id, count(ep.id)::integer
+  FROM public.event_teams t
+  LEFT JOIN public.event_participants ep ON ep.team_id = t.id
+  WHERE t.event_id = p_event.id
+  GROUP BY t.id, t.position
+  HAVING p_event.max_team_size IS NULL OR count(ep.id) < p_event.max_team_size
+  ORDER BY count(ep.id), t.position;
+$$;
+
+CREATE OR REPLACE FUNCTION public.ensure_team_has_room(p_event public.events, p_team_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.event_teams WHERE id = p_team_id AND event_id = p_event.id) THEN
+    RAISE EXCEPTION 'That team is not part of this event'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.open_event_teams(p_event) WHERE team_id = p_team_id) THEN
+    RAISE EXCEPTION 'That team is full'
+      USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_event_for_join(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.open_event_teams(public.events) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ensure_team_has_room(public.events, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Join an event as the current user. p_team_id is only read for user_choice
+-- events. Returns the team the user was placed on.
+CREATE OR REPLACE FUNCTION public.join_event(p_event_id uuid, p_team_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_event public.events;
+  v_invite public.event_invites;
+  v_team_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to join the event'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_event := public.lock_event_for_join(p_event_id);
+
+  IF EXISTS (SELECT 1 FROM public.event_participants WHERE event_id = p_event_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'You have already joined this event'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  CASE v_event.join_policy
+    WHEN 'admin_assign' THEN
+      RAISE EXCEPTION 'Teams for this event are assigned by the organisers'
+        USING ERRCODE = 'insufficient_privilege';
+    WHEN 'invite_only' THEN
+      SELECT * INTO v_invite FROM public.event_invites WHERE event_id = p_event_id AND user_id = v_user_id;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'This event is invite only'
+          USING ERRCODE = 'insufficient_privilege';
+      END IF;
+      v_team_id := v_invite.team_id;
+    WHEN 'user_choice' THEN
+      IF p_team_id IS NULL THEN
+        RAISE EXCEPTION 'Choose a team to join'
+          USING ERRCODE = 'null_value_not_allowed';
+      END IF;
+      v_team_id := p_team_id;
+    ELSE
+      v_team_id := NULL;
+  END CASE;
+
+  IF v_team_id IS NOT NULL THEN
+    PERFORM public.ensure_team_has_room(v_event, v_team_id);
+  ELSE
+    SELECT team_id INTO v_team_id FROM public.open_event_teams(v_event) LIMIT 1;
+    IF v_team_id IS NULL THEN
+      RAISE EXCEPTION 'All teams in this event are full'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  INSERT INTO public.event_participants (event_id, user_id, team_id)
+  VALUES (p_event_id, v_user_id, v_team_id);
+
+  RETURN v_team_id;
+END;
+$$;
+
+-- Place a user on a team, or move them to another one
+CREATE OR REPLACE FUNCTION public.assign_event_team(p_event_id uuid, p_user_id uuid, p_team_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+BEGIN
+  PERFORM public.require_role('admin');
+
+  v_event := public.lock_event_for_join(p_event_id);
+
+  IF EXISTS (
+    SELECT 1 FROM public.event_participants
+    WHERE event_id = p_event_id AND user_id = p_user_id AND team_id = p_team_id
+  ) THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.ensure_team_has_room(v_event, p_team_id);
+
+  INSERT INTO public.event_participants (event_id, user_id, team_id)
+  VALUES (p_event_id, p_user_id, p_team_id)
+  ON CONFLICT (event_id, user_id) DO UPDATE SET team_id = EXCLUDED.team_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.join_event(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.join_event(uuid, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.assign_event_team(uuid, uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.assign_event_team(uuid, uuid, uuid) TO authenticated;
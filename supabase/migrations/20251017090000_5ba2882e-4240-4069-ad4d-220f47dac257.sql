@@ -0,0 +1,214 @@
+-- Leaving events and switching teams.
+-- Both are allowed while the event is upcoming and for
+-- team_change_grace_minutes after it starts.
+--   leave_event  - withdraws the participant. Their artworks stay, marked
+--                  withdrawn, so the likes and attacks other people gave them
+--                  and the points those earned are kept; withdrawn artworks
+--                  take no new likes or attacks
+--   switch_team  - moves the participant; their artworks and points follow
+--                  them to the new team
+-- Every join, switch and leave is recorded in event_participation_log.
+
+ALTER TABLE public.events
+ADD COLUMN team_change_grace_minutes INTEGER NOT NULL DEFAULT 0 CHECK (team_change_grace_minutes >= 0);
+
+ALTER TABLE public.artworks
+ADD COLUMN withdrawn_at TIMESTAMP WITH TIME ZONE;
+
+-- Create event_participation_log table
+CREATE TABLE public.event_participation_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('join', 'switch', 'leave')),
+  from_team_id UUID,
+  to_team_id UUID,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX event_participation_log_event_idx ON public.event_participation_log (event_id, created_at);
+
+-- Enable RLS on event_participation_log
+ALTER TABLE public.event_participation_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own participation log"
+ON public.event_participation_log
+FOR SELECT
+USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+-- Log participation changes, except for participants removed along with their event
+CREATE OR REPLACE FUNCTION public.log_event_participation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.event_participation_log (event_id, user_id, action, to_team_id, actor_id)
+    VALUES (NEW.event_id, NEW.user_id, 'join', NEW.team_id, auth.uid());
+  ELSIF TG_OP = 'UPDATE' THEN
+    INSERT INTO public.event_participation_log (event_id, user_id, action, from_team_id, to_team_id, actor_id)
+    VALUES (NEW.event_id, NEW.user_id, 'switch', OLD.team_id, NEW.team_id, auth.uid());
+  ELSIF EXISTS (SELECT 1 FROM public.events WHERE id = OLD.event_id) THEN
+    INSERT INTO public.event_participation_log (event_id, user_id, action, from_team_id, actor_id)
+    VALUES (OLD.event_id, OLD.user_id, 'leave', OLD.team_id, auth.uid());
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_event_participation_changed
+  AFTER INSERT OR DELETE OR UPDATE OF team_id ON public.event_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_event_participation();
+
+CREATE OR REPLACE FUNCTION public.ensure_team_changes_open(p_event public.events)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_event.status = 'ended'
+    OR (p_event.status <> 'upcoming'
+      AND now() >= p_event.start_time + make_interval(mins => p_event.team_change_grace_minutes)) THEN
+    RAISE EXCEPTION 'Teams for this event can no longer be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ensure_team_changes_open(public.events) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.leave_event(p_event_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_event public.events;
+BEGIN
+  SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM public.event_participants WHERE event_id = p_event_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'You are not part of this event'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM public.ensure_team_changes_open(v_event);
+
+  UPDATE public.artworks
+  SET withdrawn_at = now()
+  WHERE event_id = p_event_id
+    AND user_id = v_user_id
+    AND withdrawn_at IS NULL;
+
+  DELETE FROM public.event_participants
+  WHERE event_id = p_event_id
+    AND user_id = v_user_id;
+END;
+$$;
+
+-- Withdrawn artworks can't be liked or attacked any more
+CREATE OR REPLACE FUNCTION public.ensure_artwork_not_withdrawn()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_artwork_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'fight_artworks' THEN
+    v_artwork_id := NEW.target_artwork_id;
+  ELSE
+    v_artwork_id := NEW.artwork_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.artworks WHERE id = v_artwork_id AND withdrawn_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'This artwork has been withdrawn from the event'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ensure_interaction_artwork_not_withdrawn
+  BEFORE INSERT ON public.artwork_interactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_artwork_not_withdrawn();
+
+CREATE TRIGGER ensure_fight_artwork_target_not_withdrawn
+  BEFORE INSERT ON public.fight_artworks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_artwork_not_withdrawn();
+
+CREATE OR REPLACE FUNCTION public.switch_team(p_event_id uuid, p_team_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_event public.events;
+  v_participant public.event_participants;
+BEGIN
+  v_event := public.lock_event_for_join(p_event_id);
+
+  SELECT * INTO v_participant
+  FROM public.event_participants
+  WHERE event_id = p_event_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not part of this event'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_participant.team_id = p_team_id THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.ensure_team_changes_open(v_event);
+
+  IF v_event.join_policy = 'admin_assign' THEN
+    RAISE EXCEPTION 'Teams for this event are assigned by the organisers'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_event.join_policy = 'invite_only' AND EXISTS (
+    SELECT 1 FROM public.event_invites
+    WHERE event_id = p_event_id AND user_id = v_user_id AND team_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Your invite is for a specific team'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM public.ensure_team_has_room(v_event, p_team_id);
+
+  -- Balanced events only allow moves that keep the teams balanced
+  IF v_event.join_policy = 'auto_balance' AND (
+    SELECT count(*) FROM public.event_participants WHERE team_id = p_team_id
+  ) >= (
+    SELECT count(*) FROM public.event_participants WHERE team_id = v_participant.team_id
+  ) THEN
+    RAISE EXCEPTION 'You can only switch to a team with fewer members'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.event_participants
+  SET team_id = p_team_id
+  WHERE id = v_participant.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.leave_event(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.leave_event(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.switch_team(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.switch_team(uuid, uuid) TO authenticated;
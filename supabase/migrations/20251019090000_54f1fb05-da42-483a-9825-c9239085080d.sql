@@ -0,0 +1,50 @@
+-- Scope fight artworks to their event.
+-- event_id always matches the target artwork's event; the submission window
+-- trigger fills it in, so it can't point anywhere else.
+
+ALTER TABLE public.fight_artworks
+ADD COLUMN event_id UUID REFERENCES public.events(id) ON DELETE CASCADE;
+
+UPDATE public.fight_artworks fa
+SET event_id = a.event_id
+FROM public.artworks a
+WHERE a.id = fa.target_artwork_id;
+
+ALTER TABLE public.fight_artworks ALTER COLUMN event_id SET NOT NULL;
+
+CREATE INDEX fight_artworks_event_idx ON public.fight_artworks (event_id, created_at);
+CREATE INDEX fight_artworks_target_artwork_idx ON public.fight_artworks (target_artwork_id);
+
+-- Reference profiles like artworks do, so attackers can be embedded
+ALTER TABLE public.fight_artworks DROP CONSTRAINT IF EXISTS fight_artworks_attacker_id_fkey;
+
+ALTER TABLE public.fight_artworks ADD CONSTRAINT fight_artworks_attacker_id_fkey
+FOREIGN KEY (attacker_id) REFERENCES public.profiles(user_id) ON DELETE CASCADE;
+
+CREATE OR REPLACE FUNCTION public.enforce_fight_artwork_submission_window()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+  v_phase text;
+BEGIN
+  SELECT e.* INTO v_event
+  FROM public.artworks a
+  JOIN public.events e ON e.id = a.event_id
+  WHERE a.id = NEW.target_artwork_id;
+
+  v_phase := public.event_theme_phase(v_event);
+
+  IF v_phase IS NULL THEN
+    RAISE EXCEPTION 'Attacks for this event are closed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.event_id := v_event.id;
+  NEW.theme_phase := v_phase;
+  RETURN NEW;
+END;
+$$;
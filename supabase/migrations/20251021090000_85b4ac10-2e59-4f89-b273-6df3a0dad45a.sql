@@ -0,0 +1,401 @@
+-- Attacks.
+-- Plain attacks (artwork_interactions rows of type 'attack') and fight
+-- artworks become a single attacks table: an attack always has a target and
+-- an event, and may carry a message and a counter-artwork image.
+-- Attacks are only created through launch_attack(), which validates and
+-- stores them; an attacker gets one attack per artwork. New attacks score
+--   without an image - attack_launched_points for the attacker
+--   with an image    - fight_back_points for the attacker
+-- and attack_received_points for the target's artist either way.
+-- Existing rows keep their ids, and their ledger entries keep the source
+-- table they were recorded under.
+
+-- Create attacks table
+CREATE TABLE public.attacks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  target_artwork_id UUID NOT NULL REFERENCES public.artworks(id) ON DELETE CASCADE,
+  attacker_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  message TEXT CHECK (char_length(message) <= 500),
+  title TEXT,
+  image_url TEXT,
+  theme_phase TEXT NOT NULL DEFAULT 'opening' CHECK (theme_phase IN ('opening', 'midway')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (image_url IS NULL OR title IS NOT NULL)
+);
+
+CREATE INDEX attacks_event_idx ON public.attacks (event_id, created_at);
+CREATE INDEX attacks_target_artwork_idx ON public.attacks (target_artwork_id);
+
+-- Enable RLS on attacks
+ALTER TABLE public.attacks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Attacks are viewable by everyone"
+ON public.attacks
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Moderators can delete attacks"
+ON public.attacks
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'moderator') OR public.has_role(auth.uid(), 'admin'));
+
+-- Carry over fight artworks and plain attacks
+INSERT INTO public.attacks (id, event_id, target_artwork_id, attacker_id, title, image_url, theme_phase, created_at)
+SELECT fa.id, fa.event_id, fa.target_artwork_id, fa.attacker_id, fa.title, fa.image_url, fa.theme_phase, fa.created_at
+FROM public.fight_artworks fa;
+
+INSERT INTO public.attacks (id, event_id, target_artwork_id, attacker_id, theme_phase, created_at)
+SELECT
+  ai.id,
+  a.event_id,
+  ai.artwork_id,
+  ai.user_id,
+  CASE
+    WHEN e.midway_theme IS NOT NULL AND e.midway_time IS NOT NULL AND ai.created_at >= e.midway_time THEN 'midway'
+    ELSE 'opening'
+  END,
+  ai.created_at
+FROM public.artwork_interactions ai
+JOIN public.artworks a ON a.id = ai.artwork_id
+JOIN public.events e ON e.id = a.event_id
+WHERE ai.interaction_type = 'attack'
+  AND EXISTS (SELECT 1 FROM public.profiles p WHERE p.user_id = ai.user_id);
+
+-- An attacker gets one attack per artwork. Where old data has several, the
+-- counter-artwork or else the first is kept; the others' points stay in the
+-- ledger
+DELETE FROM public.attacks
+WHERE id IN (
+  SELECT ranked.id
+  FROM (
+    SELECT t.id, row_number() OVER (
+      PARTITION BY t.attacker_id, t.target_artwork_id
+      ORDER BY t.image_url IS NULL, t.created_at, t.id
+    ) AS position
+    FROM public.attacks t
+  ) ranked
+  WHERE ranked.position > 1
+);
+
+CREATE UNIQUE INDEX attacks_attacker_target_idx ON public.attacks (attacker_id, target_artwork_id);
+
+-- The moved rows keep the points they earned
+ALTER TABLE public.artwork_interactions DISABLE TRIGGER on_artwork_interaction_award_points;
+DELETE FROM public.artwork_interactions WHERE interaction_type = 'attack';
+ALTER TABLE public.artwork_interactions ENABLE TRIGGER on_artwork_interaction_award_points;
+
+ALTER TABLE public.artwork_interactions DROP CONSTRAINT IF EXISTS artwork_interactions_interaction_type_check;
+ALTER TABLE public.artwork_interactions ADD CONSTRAINT artwork_interactions_interaction_type_check
+CHECK (interaction_type = 'like');
+
+DROP TABLE public.fight_artworks;
+DROP FUNCTION IF EXISTS public.award_fight_points();
+DROP FUNCTION IF EXISTS public.enforce_fight_artwork_submission_window();
+
+UPDATE public.artworks a
+SET attacks_count = (SELECT count(*) FROM public.attacks t WHERE t.target_artwork_id = a.id);
+
+-- Interactions are likes only now
+CREATE OR REPLACE FUNCTION public.update_artwork_counts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.interaction_type = 'like' THEN
+    UPDATE public.artworks
+    SET likes_count = likes_count + 1
+    WHERE id = NEW.artwork_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.interaction_type = 'like' THEN
+    UPDATE public.artworks
+    SET likes_count = GREATEST(likes_count - 1, 0)
+    WHERE id = OLD.artwork_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.award_interaction_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_artwork public.artworks;
+  v_rules public.scoring_rules;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.revoke_point_events('artwork_interactions', OLD.id);
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_artwork FROM public.artworks WHERE id = NEW.artwork_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_rules := public.get_scoring_rules(v_artwork.event_id);
+
+  PERFORM public.record_point_event(v_artwork.user_id, v_artwork.event_id, 'like_received', 'like', v_rules.like_received_points, 'artwork_interactions', NEW.id);
+
+  RETURN NULL;
+END;
+$$;
+
+-- Keep attacks_count in step with the attacks table
+CREATE OR REPLACE FUNCTION public.update_artwork_attacks_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.artworks
+    SET attacks_count = attacks_count + 1
+    WHERE id = NEW.target_artwork_id;
+  ELSE
+    UPDATE public.artworks
+    SET attacks_count = GREATEST(attacks_count - 1, 0)
+    WHERE id = OLD.target_artwork_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_attack_changed_update_count
+  AFTER INSERT OR DELETE ON public.attacks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_artwork_attacks_count();
+
+-- Carried-over attacks have their ledger entries under their old table
+CREATE OR REPLACE FUNCTION public.revoke_attack_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.revoke_point_events('attacks', OLD.id);
+  PERFORM public.revoke_point_events('fight_artworks', OLD.id);
+  PERFORM public.revoke_point_events('artwork_interactions', OLD.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_attack_deleted_revoke_points
+  AFTER DELETE ON public.attacks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.revoke_attack_points();
+
+-- Score new attacks; carried-over ones already have their points
+CREATE OR REPLACE FUNCTION public.award_attack_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rules public.scoring_rules;
+  v_artist_id uuid;
+BEGIN
+  v_rules := public.get_scoring_rules(NEW.event_id);
+  SELECT user_id INTO v_artist_id FROM public.artworks WHERE id = NEW.target_artwork_id;
+
+  IF NEW.image_url IS NOT NULL THEN
+    PERFORM public.record_point_event(NEW.attacker_id, NEW.event_id, 'fight_artwork_submitted', 'attack', v_rules.fight_back_points, 'attacks', NEW.id);
+  ELSE
+    PERFORM public.record_point_event(NEW.attacker_id, NEW.event_id, 'attack_launched', 'attack', v_rules.attack_launched_points, 'attacks', NEW.id);
+  END IF;
+  PERFORM public.record_point_event(v_artist_id, NEW.event_id, 'attack_received', 'attack', v_rules.attack_received_points, 'attacks', NEW.id);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_attack_created_award_points
+  AFTER INSERT ON public.attacks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.award_attack_points();
+
+-- Validate and store an attack by the current user. Only what the attacker
+-- chooses (the target, message and counter-artwork) is read from p_attack;
+-- everything else is filled in here. Returns the new attack's id.
+CREATE OR REPLACE FUNCTION public.create_attack(p_attack public.attacks)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_artwork public.artworks;
+  v_event public.events;
+  v_phase text;
+  v_attacker_team uuid;
+  v_target_team uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to attack artworks'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_artwork FROM public.artworks WHERE id = p_attack.target_artwork_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Artwork not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_artwork.withdrawn_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This artwork has been withdrawn from the event'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_event FROM public.events WHERE id = v_artwork.event_id;
+
+  v_phase := public.event_theme_phase(v_event);
+  IF v_phase IS NULL THEN
+    RAISE EXCEPTION 'Attacks for this event are closed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_artwork.user_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot attack your own artwork'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT team_id INTO v_attacker_team
+  FROM public.event_participants
+  WHERE event_id = v_event.id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join the event to attack its artworks'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT team_id INTO v_target_team
+  FROM public.event_participants
+  WHERE event_id = v_event.id AND user_id = v_artwork.user_id;
+
+  IF v_attacker_team = v_target_team THEN
+    RAISE EXCEPTION 'You cannot attack artwork from your own team'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_attack.image_url IS NOT NULL AND nullif(btrim(p_attack.title), '') IS NULL THEN
+    RAISE EXCEPTION 'Give your counter-artwork a title'
+      USING ERRCODE = 'null_value_not_allowed';
+  END IF;
+
+  p_attack.id := gen_random_uuid();
+  p_attack.event_id := v_event.id;
+  p_attack.attacker_id := v_user_id;
+  p_attack.message := nullif(btrim(p_attack.message), '');
+  p_attack.title := CASE WHEN p_attack.image_url IS NOT NULL THEN btrim(p_attack.title) END;
+  p_attack.theme_phase := v_phase;
+  p_attack.created_at := now();
+
+  BEGIN
+    INSERT INTO public.attacks SELECT (p_attack).*;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'You have already attacked this artwork'
+      USING ERRCODE = 'unique_violation';
+  END;
+
+  RETURN p_attack.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_attack(public.attacks) FROM PUBLIC, anon, authenticated;
+
+-- Attack an artwork as the current user. p_title and p_image_url describe an
+-- optional counter-artwork; the image is uploaded to storage beforehand.
+-- Returns the new attack's id.
+CREATE OR REPLACE FUNCTION public.launch_attack(
+  p_artwork_id uuid,
+  p_message text DEFAULT NULL,
+  p_title text DEFAULT NULL,
+  p_image_url text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attack public.attacks;
+BEGIN
+  v_attack.target_artwork_id := p_artwork_id;
+  v_attack.message := p_message;
+  v_attack.title := p_title;
+  v_attack.image_url := p_image_url;
+
+  RETURN public.create_attack(v_attack);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.launch_attack(uuid, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.launch_attack(uuid, text, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.compute_event_scores(p_event_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  artwork_points integer,
+  like_points integer,
+  attack_points integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rules public.scoring_rules;
+BEGIN
+  v_rules := public.get_scoring_rules(p_event_id);
+
+  RETURN QUERY
+  WITH event_artworks AS (
+    SELECT a.id, a.user_id, a.theme_phase
+    FROM public.artworks a
+    WHERE a.event_id = p_event_id
+  ),
+  entries AS (
+    -- Submissions and midway theme bonuses
+    SELECT ea.user_id, 'artwork' AS category,
+      v_rules.submission_points
+      + CASE WHEN ea.theme_phase = 'midway' THEN v_rules.midway_bonus_points ELSE 0 END AS amount
+    FROM event_artworks ea
+
+    UNION ALL
+    -- Likes received
+    SELECT ea.user_id, 'like', v_rules.like_received_points
+    FROM public.artwork_interactions ai
+    JOIN event_artworks ea ON ea.id = ai.artwork_id
+    WHERE ai.interaction_type = 'like'
+
+    UNION ALL
+    -- Attacks launched, with or without a counter-artwork
+    SELECT t.attacker_id, 'attack',
+      CASE WHEN t.image_url IS NOT NULL THEN v_rules.fight_back_points ELSE v_rules.attack_launched_points END
+    FROM public.attacks t
+    JOIN event_artworks ea ON ea.id = t.target_artwork_id
+
+    UNION ALL
+    -- Attacks received
+    SELECT ea.user_id, 'attack', v_rules.attack_received_points
+    FROM public.attacks t
+    JOIN event_artworks ea ON ea.id = t.target_artwork_id
+  )
+  SELECT
+    e.user_id,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.category = 'artwork'), 0)::integer,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.category = 'like'), 0)::integer,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.category = 'attack'), 0)::integer
+  FROM entries e
+  GROUP BY e.user_id;
+END;
+$$;
@@ -0,0 +1,91 @@
+-- Battle comments.
+-- Threaded comments on an artwork, optionally about one of the attacks on it.
+-- Replies stay on the same artwork and attack as the comment they answer.
+-- Authors can edit the body of their comments and delete them; moderators
+-- and admins can remove any comment. Deleting a comment removes its replies.
+
+-- Let comments reference an attack together with the artwork it targets
+ALTER TABLE public.attacks
+ADD CONSTRAINT attacks_id_target_artwork_id_key UNIQUE (id, target_artwork_id);
+
+-- Create battle_comments table
+CREATE TABLE public.battle_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  artwork_id UUID NOT NULL REFERENCES public.artworks(id) ON DELETE CASCADE,
+  attack_id UUID,
+  parent_id UUID,
+  author_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 1000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(id, artwork_id),
+  FOREIGN KEY (attack_id, artwork_id) REFERENCES public.attacks(id, target_artwork_id) ON DELETE CASCADE,
+  FOREIGN KEY (parent_id, artwork_id) REFERENCES public.battle_comments(id, artwork_id) ON DELETE CASCADE
+);
+
+CREATE INDEX battle_comments_artwork_idx ON public.battle_comments (artwork_id, created_at);
+CREATE INDEX battle_comments_attack_idx ON public.battle_comments (attack_id);
+CREATE INDEX battle_comments_parent_idx ON public.battle_comments (parent_id);
+
+CREATE TRIGGER update_battle_comments_updated_at
+  BEFORE UPDATE ON public.battle_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Replies belong to the attack their parent is about
+CREATE OR REPLACE FUNCTION public.inherit_battle_comment_attack()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT attack_id INTO NEW.attack_id
+    FROM public.battle_comments
+    WHERE id = NEW.parent_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER inherit_battle_comment_attack
+  BEFORE INSERT ON public.battle_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.inherit_battle_comment_attack();
+
+-- Enable RLS on battle_comments
+ALTER TABLE public.battle_comments ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for battle_comments
+CREATE POLICY "Battle comments are viewable by everyone"
+ON public.battle_comments
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can create their own comments"
+ON public.battle_comments
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = author_id);
+
+CREATE POLICY "Users can edit their own comments"
+ON public.battle_comments
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = author_id);
+
+CREATE POLICY "Users and moderators can delete comments"
+ON public.battle_comments
+FOR DELETE
+TO authenticated
+USING (
+  auth.uid() = author_id
+  OR public.has_role(auth.uid(), 'moderator')
+  OR public.has_role(auth.uid(), 'admin')
+);
+
+-- Only the body of a comment can be edited
+REVOKE UPDATE ON public.battle_comments FROM anon, authenticated;
+GRANT UPDATE (body) ON public.battle_comments TO authenticated;
@@ -0,0 +1,279 @@
+-- Counter-attack chains.
+-- An attack can answer another attack on the same artwork instead of the
+-- artwork itself, so each artwork grows a tree of attacks. target_artwork_id
+-- stays the artwork at the root of the tree; parent_attack_id is the attack
+-- being countered and depth its distance from the artwork (0 for attacks on
+-- the artwork itself).
+-- Counters are scored like any attack, with attack_received_points going to
+-- the countered attacker, plus chain_depth_bonus_points for every level of
+-- depth.
+
+ALTER TABLE public.scoring_rules
+ADD COLUMN chain_depth_bonus_points INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.attacks
+ADD COLUMN parent_attack_id UUID,
+ADD COLUMN depth INTEGER NOT NULL DEFAULT 0 CHECK (depth >= 0),
+ADD CONSTRAINT attacks_parent_depth_check CHECK ((parent_attack_id IS NULL) = (depth = 0)),
+ADD CONSTRAINT attacks_parent_attack_id_target_artwork_id_fkey
+  FOREIGN KEY (parent_attack_id, target_artwork_id) REFERENCES public.attacks(id, target_artwork_id) ON DELETE CASCADE;
+
+CREATE INDEX attacks_parent_attack_idx ON public.attacks (parent_attack_id);
+
+ALTER TABLE public.point_events DROP CONSTRAINT IF EXISTS point_events_reason_check;
+ALTER TABLE public.point_events ADD CONSTRAINT point_events_reason_check CHECK (reason IN (
+  'opening_balance',
+  'recompute_adjustment',
+  'artwork_submitted',
+  'artwork_revoked',
+  'midway_theme_bonus',
+  'like_received',
+  'like_revoked',
+  'attack_launched',
+  'attack_received',
+  'attack_revoked',
+  'fight_artwork_submitted',
+  'chain_depth_bonus'
+));
+
+-- An attacker gets one attack on each artwork and one counter to each attack
+DROP INDEX public.attacks_attacker_target_idx;
+CREATE UNIQUE INDEX attacks_attacker_target_idx
+ON public.attacks (attacker_id, target_artwork_id, COALESCE(parent_attack_id, '00000000-0000-0000-0000-000000000000'));
+
+CREATE OR REPLACE FUNCTION public.award_attack_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rules public.scoring_rules;
+  v_target_user_id uuid;
+BEGIN
+  v_rules := public.get_scoring_rules(NEW.event_id);
+
+  IF NEW.parent_attack_id IS NOT NULL THEN
+    SELECT attacker_id INTO v_target_user_id FROM public.attacks WHERE id = NEW.parent_attack_id;
+  ELSE
+    SELECT user_id INTO v_target_user_id FROM public.artworks WHERE id = NEW.target_artwork_id;
+  END IF;
+
+  IF NEW.image_url IS NOT NULL THEN
+    PERFORM public.record_point_event(NEW.attacker_id, NEW.event_id, 'fight_artwork_submitted', 'attack', v_rules.fight_back_points, 'attacks', NEW.id);
+  ELSE
+    PERFORM public.record_point_event(NEW.attacker_id, NEW.event_id, 'attack_launched', 'attack', v_rules.attack_launched_points, 'attacks', NEW.id);
+  END IF;
+  PERFORM public.record_point_event(NEW.attacker_id, NEW.event_id, 'chain_depth_bonus', 'attack', NEW.depth * v_rules.chain_depth_bonus_points, 'attacks', NEW.id);
+  PERFORM public.record_point_event(v_target_user_id, NEW.event_id, 'attack_received', 'attack', v_rules.attack_received_points, 'attacks', NEW.id);
+
+  RETURN NULL;
+END;
+$$;
+
+-- p_attack.parent_attack_id, when set, is the attack being countered
+CREATE OR REPLACE FUNCTION public.create_attack(p_attack public.attacks)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_artwork public.artworks;
+  v_parent public.attacks;
+  v_event public.events;
+  v_phase text;
+  v_target_user_id uuid;
+  v_attacker_team uuid;
+  v_target_team uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to attack artworks'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_artwork FROM public.artworks WHERE id = p_attack.target_artwork_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Artwork not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_artwork.withdrawn_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This artwork has been withdrawn from the event'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_target_user_id := v_artwork.user_id;
+  p_attack.depth := 0;
+
+  IF p_attack.parent_attack_id IS NOT NULL THEN
+    SELECT * INTO v_parent
+    FROM public.attacks
+    WHERE id = p_attack.parent_attack_id AND target_artwork_id = v_artwork.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Attack not found'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+
+    v_target_user_id := v_parent.attacker_id;
+    p_attack.depth := v_parent.depth + 1;
+  END IF;
+
+  SELECT * INTO v_event FROM public.events WHERE id = v_artwork.event_id;
+
+  v_phase := public.event_theme_phase(v_event);
+  IF v_phase IS NULL THEN
+    RAISE EXCEPTION 'Attacks for this event are closed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_target_user_id = v_user_id THEN
+    IF p_attack.parent_attack_id IS NULL THEN
+      RAISE EXCEPTION 'You cannot attack your own artwork'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RAISE EXCEPTION 'You cannot counter your own attack'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT team_id INTO v_attacker_team
+  FROM public.event_participants
+  WHERE event_id = v_event.id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join the event to attack its artworks'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT team_id INTO v_target_team
+  FROM public.event_participants
+  WHERE event_id = v_event.id AND user_id = v_target_user_id;
+
+  IF v_attacker_team = v_target_team THEN
+    RAISE EXCEPTION 'You cannot attack your own team'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_attack.image_url IS NOT NULL AND nullif(btrim(p_attack.title), '') IS NULL THEN
+    RAISE EXCEPTION 'Give your counter-artwork a title'
+      USING ERRCODE = 'null_value_not_allowed';
+  END IF;
+
+  p_attack.id := gen_random_uuid();
+  p_attack.event_id := v_event.id;
+  p_attack.attacker_id := v_user_id;
+  p_attack.message := nullif(btrim(p_attack.message), '');
+  p_attack.title := CASE WHEN p_attack.image_url IS NOT NULL THEN btrim(p_attack.title) END;
+  p_attack.theme_phase := v_phase;
+  p_attack.created_at := now();
+
+  BEGIN
+    INSERT INTO public.attacks SELECT (p_attack).*;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'You have already attacked this'
+      USING ERRCODE = 'unique_violation';
+  END;
+
+  RETURN p_attack.id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.launch_attack(uuid, text, text, text);
+
+-- Attack an artwork, or with p_parent_attack_id counter one of the attacks on
+-- it, as the current user. p_title and p_image_url describe an optional
+-- counter-artwork; the image is uploaded to storage beforehand.
+-- Returns the new attack's id.
+CREATE OR REPLACE FUNCTION public.launch_attack(
+  p_artwork_id uuid,
+  p_message text DEFAULT NULL,
+  p_title text DEFAULT NULL,
+  p_image_url text DEFAULT NULL,
+  p_parent_attack_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attack public.attacks;
+BEGIN
+  v_attack.target_artwork_id := p_artwork_id;
+  v_attack.parent_attack_id := p_parent_attack_id;
+  v_attack.message := p_message;
+  v_attack.title := p_title;
+  v_attack.image_url := p_image_url;
+
+  RETURN public.create_attack(v_attack);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.launch_attack(uuid, text, text, text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.launch_attack(uuid, text, text, text, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.compute_event_scores(p_event_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  artwork_points integer,
+  like_points integer,
+  attack_points integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rules public.scoring_rules;
+BEGIN
+  v_rules := public.get_scoring_rules(p_event_id);
+
+  RETURN QUERY
+  WITH event_artworks AS (
+    SELECT a.id, a.user_id, a.theme_phase
+    FROM public.artworks a
+    WHERE a.event_id = p_event_id
+  ),
+  event_attacks AS (
+    SELECT t.attacker_id, t.image_url, t.depth, COALESCE(p.attacker_id, ea.user_id) AS target_user_id
+    FROM public.attacks t
+    JOIN event_artworks ea ON ea.id = t.target_artwork_id
+    LEFT JOIN public.attacks p ON p.id = t.parent_attack_id
+  ),
+  entries AS (
+    -- Submissions and midway theme bonuses
+    SELECT ea.user_id, 'artwork' AS category,
+      v_rules.submission_points
+      + CASE WHEN ea.theme_phase = 'midway' THEN v_rules.midway_bonus_points ELSE 0 END AS amount
+    FROM event_artworks ea
+
+    UNION ALL
+    -- Likes received
+    SELECT ea.user_id, 'like', v_rules.like_received_points
+    FROM public.artwork_interactions ai
+    JOIN event_artworks ea ON ea.id = ai.artwork_id
+    WHERE ai.interaction_type = 'like'
+
+    UNION ALL
+    -- Attacks launched, with or without a counter-artwork, and their chain bonus
+    SELECT t.attacker_id, 'attack',
+      CASE WHEN t.image_url IS NOT NULL THEN v_rules.fight_back_points ELSE v_rules.attack_launched_points END
+      + t.depth * v_rules.chain_depth_bonus_points
+    FROM event_attacks t
+
+    UNION ALL
+    -- Attacks received, by the artist or the countered attacker
+    SELECT t.target_user_id, 'attack', v_rules.attack_received_points
+    FROM event_attacks t
+  )
+  SELECT
+    e.user_id,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.category = 'artwork'), 0)::integer,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.category = 'like'), 0)::integer,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.category = 'attack'), 0)::integer
+  FROM entries e
+  GROUP BY e.user_id;
+END;
+$$;
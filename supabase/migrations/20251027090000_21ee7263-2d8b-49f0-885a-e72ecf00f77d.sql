@@ -0,0 +1,329 @@
+-- Duels.
+-- Every attack with a counter-artwork opens a duel between it and the art it
+-- answers: the target artwork, or the countered attack's counter-artwork.
+-- Duels run for the event's duel_duration_minutes, never past its end.
+-- Participants of the event who are on neither artist's team vote once per
+-- duel through cast_duel_vote(). resolve_duels(), run every minute, closes
+-- due duels, stores their tallies and awards duel_win_points to the winner;
+-- ties are draws and score nothing.
+-- Duels open for attacks launched from now on.
+
+ALTER TABLE public.events
+ADD COLUMN duel_duration_minutes INTEGER NOT NULL DEFAULT 1440 CHECK (duel_duration_minutes > 0);
+
+ALTER TABLE public.scoring_rules
+ADD COLUMN duel_win_points INTEGER NOT NULL DEFAULT 3;
+
+-- Create duels table
+CREATE TABLE public.duels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  attack_id UUID NOT NULL UNIQUE REFERENCES public.attacks(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  defender_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  challenger_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  closes_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  defender_votes INTEGER NOT NULL DEFAULT 0,
+  challenger_votes INTEGER NOT NULL DEFAULT 0,
+  winner TEXT CHECK (winner IN ('defender', 'challenger', 'draw')),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((winner IS NULL) = (resolved_at IS NULL))
+);
+
+CREATE INDEX duels_event_idx ON public.duels (event_id);
+CREATE INDEX duels_open_idx ON public.duels (closes_at) WHERE resolved_at IS NULL;
+
+-- Create duel_votes table
+CREATE TABLE public.duel_votes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  duel_id UUID NOT NULL REFERENCES public.duels(id) ON DELETE CASCADE,
+  voter_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  choice TEXT NOT NULL CHECK (choice IN ('defender', 'challenger')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(duel_id, voter_id)
+);
+
+-- Enable RLS on duels and duel_votes
+ALTER TABLE public.duels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.duel_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Duels are viewable by everyone"
+ON public.duels
+FOR SELECT
+USING (true);
+
+-- Tallies are published on the duel once it closes
+CREATE POLICY "Users can view their own duel votes"
+ON public.duel_votes
+FOR SELECT
+USING (auth.uid() = voter_id OR public.has_role(auth.uid(), 'admin'));
+
+-- Open a duel for attacks that bring a counter-artwork against another artwork
+CREATE OR REPLACE FUNCTION public.open_attack_duel()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+  v_parent public.attacks;
+  v_defender_id uuid;
+BEGIN
+  IF NEW.image_url IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.parent_attack_id IS NULL THEN
+    SELECT user_id INTO v_defender_id FROM public.artworks WHERE id = NEW.target_artwork_id;
+  ELSE
+    SELECT * INTO v_parent FROM public.attacks WHERE id = NEW.parent_attack_id;
+    IF v_parent.image_url IS NULL THEN
+      RETURN NULL;
+    END IF;
+    v_defender_id := v_parent.attacker_id;
+  END IF;
+
+  SELECT * INTO v_event FROM public.events WHERE id = NEW.event_id;
+
+  INSERT INTO public.duels (attack_id, event_id, defender_id, challenger_id, closes_at)
+  VALUES (
+    NEW.id,
+    NEW.event_id,
+    v_defender_id,
+    NEW.attacker_id,
+    LEAST(NEW.created_at + make_interval(mins => v_event.duel_duration_minutes), v_event.end_time)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_attack_created_open_duel
+  AFTER INSERT ON public.attacks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.open_attack_duel();
+
+-- Removed duels give their points back
+CREATE TRIGGER on_duel_deleted_revoke_points
+  AFTER DELETE ON public.duels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.revoke_source_points();
+
+ALTER TABLE public.point_events DROP CONSTRAINT IF EXISTS point_events_reason_check;
+ALTER TABLE public.point_events ADD CONSTRAINT point_events_reason_check CHECK (reason IN (
+  'opening_balance',
+  'recompute_adjustment',
+  'artwork_submitted',
+  'artwork_revoked',
+  'midway_theme_bonus',
+  'like_received',
+  'like_revoked',
+  'attack_launched',
+  'attack_received',
+  'attack_revoked',
+  'fight_artwork_submitted',
+  'chain_depth_bonus',
+  'duel_won'
+));
+
+CREATE OR REPLACE FUNCTION public.cast_duel_vote(p_duel_id uuid, p_choice text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_duel public.duels;
+  v_voter_team uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to vote'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_duel FROM public.duels WHERE id = p_duel_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Duel not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_duel.resolved_at IS NOT NULL OR now() >= v_duel.closes_at THEN
+    RAISE EXCEPTION 'This duel has closed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT team_id INTO v_voter_team
+  FROM public.event_participants
+  WHERE event_id = v_duel.event_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only participants of this event can vote'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_user_id IN (v_duel.defender_id, v_duel.challenger_id) OR EXISTS (
+    SELECT 1 FROM public.event_participants
+    WHERE event_id = v_duel.event_id
+      AND user_id IN (v_duel.defender_id, v_duel.challenger_id)
+      AND team_id = v_voter_team
+  ) THEN
+    RAISE EXCEPTION 'You cannot vote in a duel involving your own team'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.duel_votes WHERE duel_id = p_duel_id AND voter_id = v_user_id) THEN
+    RAISE EXCEPTION 'You have already voted in this duel'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO public.duel_votes (duel_id, voter_id, choice)
+  VALUES (p_duel_id, v_user_id, p_choice);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cast_duel_vote(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cast_duel_vote(uuid, text) TO authenticated;
+
+-- Close duels that are due. Returns the number of duels resolved.
+-- p_now lets tests run the resolver at an arbitrary point in time.
+CREATE OR REPLACE FUNCTION public.resolve_duels(p_now timestamptz DEFAULT now())
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_duel public.duels;
+  v_rules public.scoring_rules;
+  v_defender_votes integer;
+  v_challenger_votes integer;
+  v_winner text;
+  v_resolved integer := 0;
+BEGIN
+  FOR v_duel IN
+    SELECT * FROM public.duels
+    WHERE resolved_at IS NULL AND closes_at <= p_now
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT
+      count(*) FILTER (WHERE choice = 'defender'),
+      count(*) FILTER (WHERE choice = 'challenger')
+    INTO v_defender_votes, v_challenger_votes
+    FROM public.duel_votes
+    WHERE duel_id = v_duel.id;
+
+    v_winner := CASE
+      WHEN v_defender_votes > v_challenger_votes THEN 'defender'
+      WHEN v_challenger_votes > v_defender_votes THEN 'challenger'
+      ELSE 'draw'
+    END;
+
+    UPDATE public.duels
+    SET defender_votes = v_defender_votes,
+        challenger_votes = v_challenger_votes,
+        winner = v_winner,
+        resolved_at = p_now
+    WHERE id = v_duel.id;
+
+    IF v_winner <> 'draw' THEN
+      v_rules := public.get_scoring_rules(v_duel.event_id);
+      PERFORM public.record_point_event(
+        CASE v_winner WHEN 'defender' THEN v_duel.defender_id ELSE v_duel.challenger_id END,
+        v_duel.event_id, 'duel_won', 'attack', v_rules.duel_win_points, 'duels', v_duel.id
+      );
+    END IF;
+
+    v_resolved := v_resolved + 1;
+  END LOOP;
+
+  RETURN v_resolved;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_duels(timestamptz) FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    EXECUTE $cron$
+      SELECT cron.schedule(
+        'resolve-duels',
+        '* * * * *',
+        'SELECT public.resolve_duels();'
+      )
+    $cron$;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.compute_event_scores(p_event_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  artwork_points integer,
+  like_points integer,
+  attack_points integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rules public.scoring_rules;
+BEGIN
+  v_rules := public.get_scoring_rules(p_event_id);
+
+  RETURN QUERY
+  WITH event_artworks AS (
+    SELECT a.id, a.user_id, a.theme_phase
+    FROM public.artworks a
+    WHERE a.event_id = p_event_id
+  ),
+  event_attacks AS (
+    SELECT t.attacker_id, t.image_url, t.depth, COALESCE(p.attacker_id, ea.user_id) AS target_user_id
+    FROM public.attacks t
+    JOIN event_artworks ea ON ea.id = t.target_artwork_id
+    LEFT JOIN public.attacks p ON p.id = t.parent_attack_id
+  ),
+  entries AS (
+    -- Submissions and midway theme bonuses
+    SELECT ea.user_id, 'artwork' AS category,
+      v_rules.submission_points
+      + CASE WHEN ea.theme_phase = 'midway' THEN v_rules.midway_bonus_points ELSE 0 END AS amount
+    FROM event_artworks ea
+
+    UNION ALL
+    -- Likes received
+    SELECT ea.user_id, 'like', v_rules.like_received_points
+    FROM public.artwork_interactions ai
+    JOIN event_artworks ea ON ea.id = ai.artwork_id
+    WHERE ai.interaction_type = 'like'
+
+    UNION ALL
+    -- Attacks launched, with or without a counter-artwork, and their chain bonus
+    SELECT t.attacker_id, 'attack',
+      CASE WHEN t.image_url IS NOT NULL THEN v_rules.fight_back_points ELSE v_rules.attack_launched_points END
+      + t.depth * v_rules.chain_depth_bonus_points
+    FROM event_attacks t
+
+    UNION ALL
+    -- Attacks received, by the artist or the countered attacker
+    SELECT t.target_user_id, 'attack', v_rules.attack_received_points
+    FROM event_attacks t
+
+    UNION ALL
+    -- Duels won
+    SELECT CASE d.winner WHEN 'defender' THEN d.defender_id ELSE d.challenger_id END, 'attack', v_rules.duel_win_points
+    FROM public.duels d
+    WHERE d.event_id = p_event_id
+      AND d.winner IN ('defender', 'challenger')
+  )
+  SELECT
+    e.user_id,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.category = 'artwork'), 0)::integer,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.category = 'like'), 0)::integer,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.category = 'attack'), 0)::integer
+  FROM entries e
+  GROUP BY e.user_id;
+END;
+$$;
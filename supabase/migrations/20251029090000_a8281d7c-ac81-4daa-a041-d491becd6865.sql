@@ -0,0 +1,226 @@
+-- Judged events.
+-- A judged event has a rubric of judging_criteria. Users with the judge role
+-- score each artwork against every criterion through score_artwork(); scores
+-- stay private to the judge who gave them until the event ends.
+-- An artwork's judge points are its total rubric score averaged over the
+-- judges who scored it. get_event_standings() blends each artist's judge
+-- points with their community points (user_points) using the event's
+-- judge_weight_percent; for unjudged or unfinished events it returns the
+-- community points unchanged.
+
+ALTER TABLE public.events
+ADD COLUMN judged BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.scoring_rules
+ADD COLUMN judge_weight_percent INTEGER NOT NULL DEFAULT 50 CHECK (judge_weight_percent BETWEEN 0 AND 100);
+
+ALTER TABLE public.artworks
+ADD CONSTRAINT artworks_id_event_id_key UNIQUE (id, event_id);
+
+-- Create judging_criteria table
+CREATE TABLE public.judging_criteria (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position >= 1),
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) > 0),
+  max_score INTEGER NOT NULL DEFAULT 10 CHECK (max_score BETWEEN 1 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(event_id, position),
+  UNIQUE(id, event_id)
+);
+
+-- Create judge_scores table
+CREATE TABLE public.judge_scores (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  artwork_id UUID NOT NULL,
+  criterion_id UUID NOT NULL,
+  judge_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  score INTEGER NOT NULL CHECK (score >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(artwork_id, criterion_id, judge_id),
+  FOREIGN KEY (artwork_id, event_id) REFERENCES public.artworks(id, event_id) ON DELETE CASCADE,
+  FOREIGN KEY (criterion_id, event_id) REFERENCES public.judging_criteria(id, event_id) ON DELETE CASCADE
+);
+
+CREATE INDEX judge_scores_event_idx ON public.judge_scores (event_id);
+
+-- Enable RLS on judging_criteria and judge_scores
+ALTER TABLE public.judging_criteria ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.judge_scores ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for judging_criteria
+CREATE POLICY "Judging criteria are viewable by everyone"
+ON public.judging_criteria
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can create judging criteria"
+ON public.judging_criteria
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update judging criteria"
+ON public.judging_criteria
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete judging criteria"
+ON public.judging_criteria
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Scores are written by score_artwork(), so there are no write policies
+CREATE POLICY "Judge scores are viewable by their judge, or by everyone once the event ends"
+ON public.judge_scores
+FOR SELECT
+USING (
+  auth.uid() = judge_id
+  OR public.has_role(auth.uid(), 'admin')
+  OR EXISTS (
+    SELECT 1 FROM public.events
+    WHERE id = judge_scores.event_id AND status = 'ended'
+  )
+);
+
+CREATE TRIGGER update_judge_scores_updated_at
+  BEFORE UPDATE ON public.judge_scores
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Score an artwork as the current judge. p_scores maps criterion ids to
+-- scores and must cover the event's whole rubric; scoring again replaces the
+-- judge's earlier scores.
+CREATE OR REPLACE FUNCTION public.score_artwork(p_artwork_id uuid, p_scores jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_artwork public.artworks;
+  v_event public.events;
+  v_criterion public.judging_criteria;
+  v_score integer;
+BEGIN
+  IF NOT public.has_role(v_user_id, 'judge') THEN
+    RAISE EXCEPTION 'Only judges can score artworks'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_artwork FROM public.artworks WHERE id = p_artwork_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Artwork not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_artwork.user_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot judge your own artwork'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_event FROM public.events WHERE id = v_artwork.event_id;
+  IF NOT v_event.judged THEN
+    RAISE EXCEPTION 'This event is not judged'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_criterion IN
+    SELECT * FROM public.judging_criteria WHERE event_id = v_event.id
+  LOOP
+    v_score := (p_scores ->> v_criterion.id::text)::integer;
+
+    IF v_score IS NULL THEN
+      RAISE EXCEPTION 'Score every criterion, including "%"', v_criterion.name
+        USING ERRCODE = 'null_value_not_allowed';
+    END IF;
+
+    IF v_score NOT BETWEEN 0 AND v_criterion.max_score THEN
+      RAISE EXCEPTION '"%" is scored from 0 to %', v_criterion.name, v_criterion.max_score
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.judge_scores (event_id, artwork_id, criterion_id, judge_id, score)
+    VALUES (v_event.id, p_artwork_id, v_criterion.id, v_user_id, v_score)
+    ON CONFLICT (artwork_id, criterion_id, judge_id)
+    DO UPDATE SET score = EXCLUDED.score;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.score_artwork(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.score_artwork(uuid, jsonb) TO authenticated;
+
+-- Final standings of an event's artists. judge_points stay 0 until a judged
+-- event ends, so the blend can't leak scores early.
+CREATE OR REPLACE FUNCTION public.get_event_standings(p_event_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  community_points integer,
+  judge_points numeric,
+  total_points integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+  v_weight integer := 0;
+BEGIN
+  SELECT * INTO v_event FROM public.events WHERE id = p_event_id;
+
+  IF v_event.judged AND v_event.status = 'ended' THEN
+    -- Read rather than get_scoring_rules(), which may insert and so can't
+    -- run in a STABLE function; every event gets its rules when created
+    SELECT sr.judge_weight_percent INTO v_weight
+    FROM public.scoring_rules sr
+    WHERE sr.event_id = p_event_id;
+    v_weight := COALESCE(v_weight, 0);
+  END IF;
+
+  RETURN QUERY
+  WITH judge_totals AS (
+    -- Each judge's total for each artwork
+    SELECT js.artwork_id, js.judge_id, SUM(js.score) AS total
+    FROM public.judge_scores js
+    WHERE js.event_id = p_event_id
+    GROUP BY js.artwork_id, js.judge_id
+  ),
+  artist_judge_points AS (
+    SELECT a.user_id, SUM(jt.avg_total) AS points
+    FROM (
+      SELECT artwork_id, AVG(total) AS avg_total
+      FROM judge_totals
+      GROUP BY artwork_id
+    ) jt
+    JOIN public.artworks a ON a.id = jt.artwork_id
+    GROUP BY a.user_id
+  ),
+  artists AS (
+    SELECT up.user_id FROM public.user_points up WHERE up.event_id = p_event_id
+    UNION
+    SELECT ajp.user_id FROM artist_judge_points ajp
+  )
+  SELECT
+    ar.user_id,
+    COALESCE(up.points_total, 0),
+    CASE WHEN v_weight > 0 THEN round(COALESCE(ajp.points, 0), 1) ELSE 0 END,
+    round(
+      COALESCE(up.points_total, 0) * (100 - v_weight) / 100.0
+      + CASE WHEN v_weight > 0 THEN COALESCE(ajp.points, 0) * v_weight / 100.0 ELSE 0 END
+    )::integer
+  FROM artists ar
+  LEFT JOIN public.user_points up ON up.user_id = ar.user_id AND up.event_id = p_event_id
+  LEFT JOIN artist_judge_points ajp ON ajp.user_id = ar.user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_event_standings(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_event_standings(uuid) TO authenticated;
@@ -0,0 +1,243 @@
+-- Final results.
+-- When an event ends, snapshot_event_results() freezes its outcome in
+-- event_results: team standings, the winning team, the top artists, the MVP
+-- and the most liked and most attacked artworks. Totals come from
+-- get_event_standings(), so judged events include their judge points.
+-- Teams are ranked by points, then by artworks submitted, then by likes
+-- received; decided_by records which of these settled the win. Teams still
+-- level after all three draw, and the event has no winning team.
+-- Judging closes when the event ends so the snapshot stays final.
+
+-- Create event_results table
+CREATE TABLE public.event_results (
+  event_id UUID NOT NULL PRIMARY KEY REFERENCES public.events(id) ON DELETE CASCADE,
+  winning_team_id UUID,
+  decided_by TEXT NOT NULL CHECK (decided_by IN ('points', 'artworks', 'likes', 'draw')),
+  team_standings JSONB NOT NULL DEFAULT '[]',
+  top_artists JSONB NOT NULL DEFAULT '[]',
+  mvp JSONB,
+  most_liked_artwork JSONB,
+  most_attacked_artwork JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  FOREIGN KEY (winning_team_id, event_id) REFERENCES public.event_teams(id, event_id),
+  CHECK ((winning_team_id IS NULL) = (decided_by = 'draw'))
+);
+
+-- Enable RLS on event_results
+ALTER TABLE public.event_results ENABLE ROW LEVEL SECURITY;
+
+-- Results are written by snapshot_event_results(), so there are no write policies
+CREATE POLICY "Event results are viewable by everyone"
+ON public.event_results
+FOR SELECT
+USING (true);
+
+-- Every participant's final total, with their team
+CREATE OR REPLACE FUNCTION public.event_artist_standings(p_event_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  team_id uuid,
+  points integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.user_id, p.display_name, ep.team_id, s.total_points
+  FROM public.get_event_standings(p_event_id) s
+  JOIN public.event_participants ep ON ep.event_id = p_event_id AND ep.user_id = s.user_id
+  JOIN public.profiles p ON p.user_id = s.user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.event_artist_standings(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.snapshot_event_results(p_event_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_teams jsonb;
+  v_first jsonb;
+  v_second jsonb;
+  v_decided_by text := 'draw';
+  v_winning_team_id uuid;
+  v_top_artists jsonb;
+  v_mvp jsonb;
+  v_most_liked jsonb;
+  v_most_attacked jsonb;
+BEGIN
+  -- Duels that closed with the event still count
+  PERFORM public.resolve_duels(now());
+
+  SELECT jsonb_agg(to_jsonb(t) ORDER BY t.points DESC, t.artworks DESC, t.likes DESC, t.position)
+  INTO v_teams
+  FROM (
+    SELECT
+      et.id AS team_id,
+      et.name,
+      et.position,
+      (SELECT COALESCE(SUM(eas.points), 0) FROM public.event_artist_standings(p_event_id) eas WHERE eas.team_id = et.id)::integer AS points,
+      (SELECT count(*) FROM public.event_participants ep WHERE ep.event_id = p_event_id AND ep.team_id = et.id)::integer AS members,
+      count(a.id)::integer AS artworks,
+      COALESCE(SUM(a.likes_count), 0)::integer AS likes
+    FROM public.event_teams et
+    LEFT JOIN public.event_participants ep ON ep.event_id = p_event_id AND ep.team_id = et.id
+    LEFT JOIN public.artworks a ON a.event_id = p_event_id AND a.user_id = ep.user_id
+    WHERE et.event_id = p_event_id
+    GROUP BY et.id
+  ) t;
+
+  v_first := v_teams -> 0;
+  v_second := v_teams -> 1;
+
+  IF v_second IS NULL THEN
+    v_decided_by := 'points';
+  ELSIF (v_first ->> 'points')::integer > (v_second ->> 'points')::integer THEN
+    v_decided_by := 'points';
+  ELSIF (v_first ->> 'artworks')::integer > (v_second ->> 'artworks')::integer THEN
+    v_decided_by := 'artworks';
+  ELSIF (v_first ->> 'likes')::integer > (v_second ->> 'likes')::integer THEN
+    v_decided_by := 'likes';
+  END IF;
+
+  IF v_first IS NOT NULL AND v_decided_by <> 'draw' THEN
+    v_winning_team_id := (v_first ->> 'team_id')::uuid;
+  ELSE
+    v_decided_by := 'draw';
+  END IF;
+
+  SELECT jsonb_agg(to_jsonb(ta) ORDER BY ta.points DESC, ta.display_name)
+  INTO v_top_artists
+  FROM (
+    SELECT *
+    FROM public.event_artist_standings(p_event_id)
+    ORDER BY points DESC, display_name
+    LIMIT 10
+  ) ta;
+
+  -- The MVP is the top scorer of the winning team, or of the whole event
+  -- after a draw
+  SELECT to_jsonb(eas)
+  INTO v_mvp
+  FROM public.event_artist_standings(p_event_id) eas
+  WHERE (v_winning_team_id IS NULL OR eas.team_id = v_winning_team_id)
+    AND eas.points > 0
+  ORDER BY eas.points DESC, eas.display_name
+  LIMIT 1;
+
+  SELECT jsonb_build_object('id', a.id, 'title', a.title, 'image_url', a.image_url, 'user_id', a.user_id, 'display_name', p.display_name, 'count', a.likes_count)
+  INTO v_most_liked
+  FROM public.artworks a
+  JOIN public.profiles p ON p.user_id = a.user_id
+  WHERE a.event_id = p_event_id AND a.likes_count > 0
+  ORDER BY a.likes_count DESC, a.created_at
+  LIMIT 1;
+
+  SELECT jsonb_build_object('id', a.id, 'title', a.title, 'image_url', a.image_url, 'user_id', a.user_id, 'display_name', p.display_name, 'count', a.attacks_count)
+  INTO v_most_attacked
+  FROM public.artworks a
+  JOIN public.profiles p ON p.user_id = a.user_id
+  WHERE a.event_id = p_event_id AND a.attacks_count > 0
+  ORDER BY a.attacks_count DESC, a.created_at
+  LIMIT 1;
+
+  INSERT INTO public.event_results (
+    event_id, winning_team_id, decided_by, team_standings, top_artists, mvp, most_liked_artwork, most_attacked_artwork
+  )
+  VALUES (
+    p_event_id, v_winning_team_id, v_decided_by, COALESCE(v_teams, '[]'), COALESCE(v_top_artists, '[]'), v_mvp, v_most_liked, v_most_attacked
+  )
+  ON CONFLICT (event_id) DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.snapshot_event_results(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Freeze the results as soon as an event ends, by the scheduler or by hand
+CREATE OR REPLACE FUNCTION public.handle_event_ended()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.snapshot_event_results(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_event_ended_snapshot_results
+  AFTER UPDATE OF status ON public.events
+  FOR EACH ROW
+  WHEN (NEW.status = 'ended' AND OLD.status IS DISTINCT FROM 'ended')
+  EXECUTE FUNCTION public.handle_event_ended();
+
+CREATE OR REPLACE FUNCTION public.score_artwork(p_artwork_id uuid, p_scores jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_artwork public.artworks;
+  v_event public.events;
+  v_criterion public.judging_criteria;
+  v_score integer;
+BEGIN
+  IF NOT public.has_role(v_user_id, 'judge') THEN
+    RAISE EXCEPTION 'Only judges can score artworks'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_artwork FROM public.artworks WHERE id = p_artwork_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Artwork not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_artwork.user_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot judge your own artwork'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_event FROM public.events WHERE id = v_artwork.event_id;
+  IF NOT v_event.judged THEN
+    RAISE EXCEPTION 'This event is not judged'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_event.status = 'ended' THEN
+    RAISE EXCEPTION 'Judging for this event has closed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_criterion IN
+    SELECT * FROM public.judging_criteria WHERE event_id = v_event.id
+  LOOP
+    v_score := (p_scores ->> v_criterion.id::text)::integer;
+
+    IF v_score IS NULL THEN
+      RAISE EXCEPTION 'Score every criterion, including "%"', v_criterion.name
+        USING ERRCODE = 'null_value_not_allowed';
+    END IF;
+
+    IF v_score NOT BETWEEN 0 AND v_criterion.max_score THEN
+      RAISE EXCEPTION '"%" is scored from 0 to %', v_criterion.name, v_criterion.max_score
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.judge_scores (event_id, artwork_id, criterion_id, judge_id, score)
+    VALUES (v_event.id, p_artwork_id, v_criterion.id, v_user_id, v_score)
+    ON CONFLICT (artwork_id, criterion_id, judge_id)
+    DO UPDATE SET score = EXCLUDED.score;
+  END LOOP;
+END;
+$$;
+
+-- Events that have already ended get their results now
+SELECT public.snapshot_event_results(id) FROM public.events WHERE status = 'ended';
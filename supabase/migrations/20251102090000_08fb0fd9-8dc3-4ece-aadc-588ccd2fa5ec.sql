@@ -0,0 +1,142 @@
+-- Leaderboards.
+-- Ranked views, so judged events count their judge points once they end and
+-- pages read ranks instead of summing user_points in the browser:
+--   leaderboard_event_artists / leaderboard_event_teams rank one event from
+--                                its live get_event_standings(),
+--   leaderboard_artists / leaderboard_teams rank across every ended event
+--                                from its final results.
+-- event_artist_results keeps every artist's final total, written when the
+-- event's results are snapshotted, so the all-time boards never recompute
+-- past events. Teams only exist within an event, so each all-time team row
+-- is one event's team, told apart by id.
+
+CREATE VIEW public.leaderboard_event_artists
+WITH (security_invoker = true)
+AS
+SELECT
+  e.id AS event_id,
+  s.user_id,
+  p.display_name,
+  p.username,
+  ep.team_id,
+  s.total_points AS points,
+  rank() OVER (PARTITION BY e.id ORDER BY s.total_points DESC)::integer AS rank
+FROM public.events e
+CROSS JOIN LATERAL public.get_event_standings(e.id) s
+JOIN public.profiles p ON p.user_id = s.user_id
+LEFT JOIN public.event_participants ep ON ep.event_id = e.id AND ep.user_id = s.user_id;
+
+CREATE VIEW public.leaderboard_event_teams
+WITH (security_invoker = true)
+AS
+SELECT
+  t.event_id,
+  t.team_id,
+  t.name,
+  t.color,
+  t.position,
+  t.members,
+  t.points,
+  rank() OVER (PARTITION BY t.event_id ORDER BY t.points DESC)::integer AS rank
+FROM (
+  SELECT
+    et.event_id,
+    et.id AS team_id,
+    et.name,
+    et.color,
+    et.position,
+    (SELECT count(*) FROM public.event_participants ep WHERE ep.team_id = et.id)::integer AS members,
+    COALESCE((
+      SELECT SUM(la.points)
+      FROM public.leaderboard_event_artists la
+      WHERE la.event_id = et.event_id AND la.team_id = et.id
+    ), 0)::integer AS points
+  FROM public.event_teams et
+) t;
+
+-- Create event_artist_results table
+CREATE TABLE public.event_artist_results (
+  event_id UUID NOT NULL REFERENCES public.event_results(event_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  team_id UUID,
+  points INTEGER NOT NULL,
+  PRIMARY KEY (event_id, user_id)
+);
+
+CREATE INDEX event_artist_results_user_idx ON public.event_artist_results (user_id);
+
+-- Enable RLS on event_artist_results
+ALTER TABLE public.event_artist_results ENABLE ROW LEVEL SECURITY;
+
+-- Written alongside event_results, so there are no write policies
+CREATE POLICY "Event artist results are viewable by everyone"
+ON public.event_artist_results
+FOR SELECT
+USING (true);
+
+CREATE OR REPLACE FUNCTION public.snapshot_event_artist_results()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.event_artist_results (event_id, user_id, team_id, points)
+  SELECT NEW.event_id, eas.user_id, eas.team_id, eas.points
+  FROM public.event_artist_standings(NEW.event_id) eas;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_event_results_snapshot_artists
+  AFTER INSERT ON public.event_results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_event_artist_results();
+
+-- Events that have already ended
+INSERT INTO public.event_artist_results (event_id, user_id, team_id, points)
+SELECT r.event_id, eas.user_id, eas.team_id, eas.points
+FROM public.event_results r
+CROSS JOIN LATERAL public.event_artist_standings(r.event_id) eas;
+
+CREATE VIEW public.leaderboard_artists
+WITH (security_invoker = true)
+AS
+SELECT
+  r.user_id,
+  p.display_name,
+  p.username,
+  count(*)::integer AS events_played,
+  SUM(r.points)::integer AS points,
+  rank() OVER (ORDER BY SUM(r.points) DESC)::integer AS rank
+FROM public.event_artist_results r
+JOIN public.profiles p ON p.user_id = r.user_id
+GROUP BY r.user_id, p.display_name, p.username;
+
+-- Winners first, then by points
+CREATE VIEW public.leaderboard_teams
+WITH (security_invoker = true)
+AS
+SELECT
+  t.team_id,
+  t.event_id,
+  t.event_title,
+  t.name,
+  t.won,
+  t.points,
+  rank() OVER (ORDER BY t.won DESC, t.points DESC)::integer AS rank
+FROM (
+  SELECT
+    ts.team_id,
+    r.event_id,
+    e.title AS event_title,
+    ts.name,
+    COALESCE(ts.team_id = r.winning_team_id, false) AS won,
+    ts.points
+  FROM public.event_results r
+  JOIN public.events e ON e.id = r.event_id
+  CROSS JOIN LATERAL jsonb_to_recordset(r.team_standings) AS ts(team_id uuid, name text, points integer)
+) t;
+
+GRANT SELECT ON public.leaderboard_event_artists, public.leaderboard_event_teams, public.leaderboard_artists, public.leaderboard_teams TO authenticated;
@@ -0,0 +1,130 @@
+-- Seasons.
+-- A season groups the events of an arc, such as a month, under a start and
+-- end date. Season standings add up every event of the season either by
+-- points or by placement, depending on the season's standings_mode.
+-- Placement points reward finishing positions rather than volume: 10 for
+-- first place in an event down to 1 for tenth, for artists and teams alike.
+-- Like the all-time board, season team rows group teams by name.
+
+-- Create seasons table
+CREATE TABLE public.seasons (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) > 0),
+  description TEXT,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  standings_mode TEXT NOT NULL DEFAULT 'points' CHECK (standings_mode IN ('points', 'placements')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+-- Enable RLS on seasons
+ALTER TABLE public.seasons ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for seasons
+CREATE POLICY "Seasons are viewable by everyone"
+ON public.seasons
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can create seasons"
+ON public.seasons
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update seasons"
+ON public.seasons
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete seasons"
+ON public.seasons
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_seasons_updated_at
+  BEFORE UPDATE ON public.seasons
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Deleting a season leaves its events standing on their own
+ALTER TABLE public.events
+ADD COLUMN season_id UUID REFERENCES public.seasons(id) ON DELETE SET NULL;
+
+CREATE INDEX events_season_idx ON public.events (season_id);
+
+-- Points for finishing an event at the given rank
+CREATE OR REPLACE FUNCTION public.placement_points(p_rank integer)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT GREATEST(0, 11 - p_rank);
+$$;
+
+CREATE VIEW public.leaderboard_season_artists
+WITH (security_invoker = true)
+AS
+SELECT
+  s.season_id,
+  s.user_id,
+  s.display_name,
+  s.username,
+  s.events_played,
+  s.points,
+  s.placement_points,
+  rank() OVER (
+    PARTITION BY s.season_id
+    ORDER BY CASE WHEN s.standings_mode = 'placements' THEN s.placement_points ELSE s.points END DESC
+  )::integer AS rank
+FROM (
+  SELECT
+    e.season_id,
+    se.standings_mode,
+    la.user_id,
+    la.display_name,
+    la.username,
+    count(*)::integer AS events_played,
+    SUM(la.points)::integer AS points,
+    SUM(public.placement_points(la.rank))::integer AS placement_points
+  FROM public.leaderboard_event_artists la
+  JOIN public.events e ON e.id = la.event_id
+  JOIN public.seasons se ON se.id = e.season_id
+  GROUP BY e.season_id, se.standings_mode, la.user_id, la.display_name, la.username
+) s;
+
+CREATE VIEW public.leaderboard_season_teams
+WITH (security_invoker = true)
+AS
+SELECT
+  s.season_id,
+  s.name,
+  s.events_played,
+  s.wins,
+  s.points,
+  s.placement_points,
+  rank() OVER (
+    PARTITION BY s.season_id
+    ORDER BY CASE WHEN s.standings_mode = 'placements' THEN s.placement_points ELSE s.points END DESC, s.wins DESC
+  )::integer AS rank
+FROM (
+  SELECT
+    e.season_id,
+    se.standings_mode,
+    min(lt.name) AS name,
+    count(*)::integer AS events_played,
+    count(r.event_id)::integer AS wins,
+    SUM(lt.points)::integer AS points,
+    SUM(public.placement_points(lt.rank))::integer AS placement_points
+  FROM public.leaderboard_event_teams lt
+  JOIN public.events e ON e.id = lt.event_id
+  JOIN public.seasons se ON se.id = e.season_id
+  LEFT JOIN public.event_results r ON r.event_id = lt.event_id AND r.winning_team_id = lt.team_id
+  GROUP BY e.season_id, se.standings_mode, lower(btrim(lt.name))
+) s;
+
+GRANT SELECT ON public.leaderboard_season_artists, public.leaderboard_season_teams TO authenticated;
@@ -0,0 +1,431 @@
+-- Tournaments.
+-- A tournament runs a single- or double-elimination bracket of teams where
+-- every match is an ordinary two-team event. create_tournament() seeds the
+-- bracket and opens the first-round events; when a match event ends its
+-- winner (and in double elimination its loser) moves on, and each match
+-- whose two feeder events have both ended gets its own event, starting
+-- round_break_minutes later with the advancing teams' rosters carried over.
+--   single_elimination - a loss knocks a team out; the final crowns the champion
+--   double_elimination - a team is out after two losses; the winners bracket
+--                        champion meets the losers bracket champion in a
+--                        single grand final (no bracket reset)
+-- Brackets take a power-of-two number of teams, seeded 1 v N, 2 v N-1 and
+-- so on so the top seeds meet last. A drawn match goes to the better seed.
+
+-- Create tournaments table
+CREATE TABLE public.tournaments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) > 0),
+  description TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('single_elimination', 'double_elimination')),
+  theme TEXT NOT NULL,
+  join_policy TEXT NOT NULL DEFAULT 'user_choice'
+    CHECK (join_policy IN ('auto_balance', 'user_choice', 'invite_only', 'admin_assign')),
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  round_duration_minutes INTEGER NOT NULL DEFAULT 1440 CHECK (round_duration_minutes > 0),
+  round_break_minutes INTEGER NOT NULL DEFAULT 60 CHECK (round_break_minutes >= 0),
+  season_id UUID REFERENCES public.seasons(id) ON DELETE SET NULL,
+  champion_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create tournament_teams table
+CREATE TABLE public.tournament_teams (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  seed INTEGER NOT NULL CHECK (seed > 0),
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) > 0),
+  color TEXT,
+  avatar_url TEXT,
+  UNIQUE (tournament_id, seed),
+  UNIQUE (id, tournament_id)
+);
+
+ALTER TABLE public.tournaments
+ADD CONSTRAINT tournaments_champion_id_fkey
+FOREIGN KEY (champion_id, id) REFERENCES public.tournament_teams(id, tournament_id);
+
+-- Create tournament_matches table
+-- A slot without a team is filled by the winner or loser of the match it
+-- comes from
+CREATE TABLE public.tournament_matches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  bracket TEXT NOT NULL CHECK (bracket IN ('winners', 'losers', 'grand_final')),
+  round INTEGER NOT NULL CHECK (round > 0),
+  position INTEGER NOT NULL CHECK (position > 0),
+  label TEXT NOT NULL,
+  team_a_id UUID,
+  team_b_id UUID,
+  team_a_from_match_id UUID REFERENCES public.tournament_matches(id) ON DELETE CASCADE,
+  team_a_from TEXT CHECK (team_a_from IN ('winner', 'loser')),
+  team_b_from_match_id UUID REFERENCES public.tournament_matches(id) ON DELETE CASCADE,
+  team_b_from TEXT CHECK (team_b_from IN ('winner', 'loser')),
+  event_id UUID UNIQUE REFERENCES public.events(id) ON DELETE SET NULL,
+  winner_id UUID,
+  loser_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (tournament_id, bracket, round, position),
+  FOREIGN KEY (team_a_id, tournament_id) REFERENCES public.tournament_teams(id, tournament_id),
+  FOREIGN KEY (team_b_id, tournament_id) REFERENCES public.tournament_teams(id, tournament_id),
+  FOREIGN KEY (winner_id, tournament_id) REFERENCES public.tournament_teams(id, tournament_id),
+  FOREIGN KEY (loser_id, tournament_id) REFERENCES public.tournament_teams(id, tournament_id)
+);
+
+CREATE INDEX tournament_matches_team_a_from_idx ON public.tournament_matches (team_a_from_match_id);
+CREATE INDEX tournament_matches_team_b_from_idx ON public.tournament_matches (team_b_from_match_id);
+
+-- Enable RLS on tournament tables
+ALTER TABLE public.tournaments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tournament_teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tournament_matches ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for tournament tables
+-- Brackets are only written by create_tournament() and the advance trigger
+CREATE POLICY "Tournaments are viewable by everyone"
+ON public.tournaments
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can delete tournaments"
+ON public.tournaments
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Tournament teams are viewable by everyone"
+ON public.tournament_teams
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Tournament matches are viewable by everyone"
+ON public.tournament_matches
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_tournaments_updated_at
+  BEFORE UPDATE ON public.tournaments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.tournament_match_at(p_tournament_id uuid, p_bracket text, p_round integer, p_position integer)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT id
+  FROM public.tournament_matches
+  WHERE tournament_id = p_tournament_id AND bracket = p_bracket AND round = p_round AND position = p_position;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.tournament_match_at(uuid, text, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Open the event for a match whose two teams are known
+CREATE OR REPLACE FUNCTION public.start_tournament_match(p_match_id uuid, p_start_time timestamptz)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match public.tournament_matches;
+  v_tournament public.tournaments;
+  v_event_id uuid;
+BEGIN
+  SELECT * INTO v_match FROM public.tournament_matches WHERE id = p_match_id FOR UPDATE;
+
+  IF v_match.event_id IS NOT NULL OR v_match.team_a_id IS NULL OR v_match.team_b_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_tournament FROM public.tournaments WHERE id = v_match.tournament_id;
+
+  -- First-round teams are filled through the tournament's join policy; later
+  -- rounds keep the rosters of the matches their teams come from
+  INSERT INTO public.events (title, description, theme, start_time, end_time, join_policy, season_id, status)
+  VALUES (
+    v_tournament.name || ': ' || v_match.label,
+    v_tournament.description,
+    v_tournament.theme,
+    p_start_time,
+    p_start_time + make_interval(mins => v_tournament.round_duration_minutes),
+    CASE WHEN v_match.team_a_from_match_id IS NULL THEN v_tournament.join_policy ELSE 'admin_assign' END,
+    v_tournament.season_id,
+    'upcoming'
+  )
+  RETURNING id INTO v_event_id;
+
+  INSERT INTO public.event_teams (event_id, position, name, color, avatar_url)
+  SELECT v_event_id, slot.position, t.name, t.color, t.avatar_url
+  FROM (VALUES (1, v_match.team_a_id), (2, v_match.team_b_id)) AS slot (position, team_id)
+  JOIN public.tournament_teams t ON t.id = slot.team_id;
+
+  UPDATE public.tournament_matches SET event_id = v_event_id WHERE id = p_match_id;
+
+  INSERT INTO public.event_participants (event_id, user_id, team_id)
+  SELECT v_event_id, ep.user_id, nt.id
+  FROM (
+    VALUES (1, v_match.team_a_id, v_match.team_a_from_match_id), (2, v_match.team_b_id, v_match.team_b_from_match_id)
+  ) AS slot (position, team_id, from_match_id)
+  JOIN public.tournament_matches f ON f.id = slot.from_match_id
+  JOIN public.event_teams ft
+    ON ft.event_id = f.event_id
+   AND ft.position = CASE WHEN f.team_a_id = slot.team_id THEN 1 ELSE 2 END
+  JOIN public.event_participants ep ON ep.team_id = ft.id
+  JOIN public.event_teams nt ON nt.event_id = v_event_id AND nt.position = slot.position
+  ON CONFLICT (event_id, user_id) DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_tournament_match(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+
+-- Create a tournament, seed its bracket and open the first-round events.
+-- p_teams lists the teams in seed order as {name, color, avatar_url}.
+CREATE OR REPLACE FUNCTION public.create_tournament(
+  p_name text,
+  p_description text,
+  p_format text,
+  p_theme text,
+  p_join_policy text,
+  p_start_time timestamptz,
+  p_round_duration_minutes integer,
+  p_round_break_minutes integer,
+  p_season_id uuid,
+  p_teams jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tournament_id uuid;
+  v_team_count integer := COALESCE(jsonb_array_length(p_teams), 0);
+  v_rounds integer := 0;
+  v_losers_rounds integer;
+  v_seed_ids uuid[] := '{}';
+  v_order integer[] := ARRAY[1];
+  v_next_order integer[];
+  v_seed integer;
+  v_team jsonb;
+  v_team_id uuid;
+  v_matches integer;
+  v_round_name text;
+  v_half integer;
+  v_round integer;
+  v_position integer;
+  v_match_id uuid;
+BEGIN
+  PERFORM public.require_role('admin');
+
+  IF v_team_count < 2 OR v_team_count > 32 OR (v_team_count & (v_team_count - 1)) <> 0 THEN
+    RAISE EXCEPTION 'A tournament needs 2, 4, 8, 16 or 32 teams'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_format = 'double_elimination' AND v_team_count < 4 THEN
+    RAISE EXCEPTION 'A double-elimination tournament needs at least 4 teams'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  WHILE (1 << v_rounds) < v_team_count LOOP
+    v_rounds := v_rounds + 1;
+  END LOOP;
+  v_losers_rounds := 2 * (v_rounds - 1);
+
+  INSERT INTO public.tournaments (
+    name, description, format, theme, join_policy, start_time, round_duration_minutes, round_break_minutes, season_id
+  )
+  VALUES (
+    p_name, p_description, p_format, p_theme, p_join_policy, p_start_time, p_round_duration_minutes, p_round_break_minutes, p_season_id
+  )
+  RETURNING id INTO v_tournament_id;
+
+  FOR v_seed IN 1..v_team_count LOOP
+    v_team := p_teams -> (v_seed - 1);
+
+    INSERT INTO public.tournament_teams (tournament_id, seed, name, color, avatar_url)
+    VALUES (v_tournament_id, v_seed, v_team ->> 'name', NULLIF(v_team ->> 'color', ''), NULLIF(v_team ->> 'avatar_url', ''))
+    RETURNING id INTO v_team_id;
+
+    v_seed_ids := v_seed_ids || v_team_id;
+  END LOOP;
+
+  -- Standard bracket order: 1 v 8, 4 v 5, 2 v 7, 3 v 6 for eight teams
+  WHILE array_length(v_order, 1) < v_team_count LOOP
+    v_next_order := '{}';
+    FOREACH v_seed IN ARRAY v_order LOOP
+      v_next_order := v_next_order || v_seed || (2 * array_length(v_order, 1) + 1 - v_seed);
+    END LOOP;
+    v_order := v_next_order;
+  END LOOP;
+
+  -- Winners bracket
+  FOR v_round IN 1..v_rounds LOOP
+    v_matches := v_team_count >> v_round;
+    v_round_name := CASE v_rounds - v_round
+      WHEN 0 THEN 'Final'
+      WHEN 1 THEN 'Semifinal'
+      WHEN 2 THEN 'Quarterfinal'
+      ELSE 'Round ' || v_round
+    END;
+    IF p_format = 'double_elimination' THEN
+      v_round_name := 'Winners ' || v_round_name;
+    END IF;
+
+    FOR v_position IN 1..v_matches LOOP
+      INSERT INTO public.tournament_matches (
+        tournament_id, bracket, round, position, label,
+        team_a_id, team_b_id, team_a_from_match_id, team_a_from, team_b_from_match_id, team_b_from
+      )
+      VALUES (
+        v_tournament_id, 'winners', v_round, v_position,
+        v_round_name || CASE WHEN v_matches > 1 THEN ' Match ' || v_position ELSE '' END,
+        CASE WHEN v_round = 1 THEN v_seed_ids[v_order[2 * v_position - 1]] END,
+        CASE WHEN v_round = 1 THEN v_seed_ids[v_order[2 * v_position]] END,
+        public.tournament_match_at(v_tournament_id, 'winners', v_round - 1, 2 * v_position - 1),
+        CASE WHEN v_round > 1 THEN 'winner' END,
+        public.tournament_match_at(v_tournament_id, 'winners', v_round - 1, 2 * v_position),
+        CASE WHEN v_round > 1 THEN 'winner' END
+      );
+    END LOOP;
+  END LOOP;
+
+  -- Losers bracket: odd rounds pair up the survivors, even rounds bring in
+  -- the losers of the next winners round, crossed over to avoid rematches
+  IF p_format = 'double_elimination' THEN
+    FOR v_round IN 1..v_losers_rounds LOOP
+      v_half := (v_round + 1) / 2;
+      v_matches := v_team_count >> (v_half + 1);
+
+      FOR v_position IN 1..v_matches LOOP
+        INSERT INTO public.tournament_matches (
+          tournament_id, bracket, round, position, label,
+          team_a_from_match_id, team_a_from, team_b_from_match_id, team_b_from
+        )
+        VALUES (
+          v_tournament_id, 'losers', v_round, v_position,
+          CASE WHEN v_round = v_losers_rounds THEN 'Losers Final' ELSE 'Losers Round ' || v_round END
+            || CASE WHEN v_matches > 1 THEN ' Match ' || v_position ELSE '' END,
+          CASE
+            WHEN v_round = 1 THEN public.tournament_match_at(v_tournament_id, 'winners', 1, 2 * v_position - 1)
+            WHEN v_round % 2 = 0 THEN public.tournament_match_at(v_tournament_id, 'losers', v_round - 1, v_position)
+            ELSE public.tournament_match_at(v_tournament_id, 'losers', v_round - 1, 2 * v_position - 1)
+          END,
+          CASE WHEN v_round = 1 THEN 'loser' ELSE 'winner' END,
+          CASE
+            WHEN v_round = 1 THEN public.tournament_match_at(v_tournament_id, 'winners', 1, 2 * v_position)
+            WHEN v_round % 2 = 0 THEN public.tournament_match_at(v_tournament_id, 'winners', v_round / 2 + 1, v_matches + 1 - v_position)
+            ELSE public.tournament_match_at(v_tournament_id, 'losers', v_round - 1, 2 * v_position)
+          END,
+          CASE WHEN v_round = 1 OR v_round % 2 = 0 THEN 'loser' ELSE 'winner' END
+        );
+      END LOOP;
+    END LOOP;
+
+    INSERT INTO public.tournament_matches (
+      tournament_id, bracket, round, position, label,
+      team_a_from_match_id, team_a_from, team_b_from_match_id, team_b_from
+    )
+    VALUES (
+      v_tournament_id, 'grand_final', 1, 1, 'Grand Final',
+      public.tournament_match_at(v_tournament_id, 'winners', v_rounds, 1), 'winner',
+      public.tournament_match_at(v_tournament_id, 'losers', v_losers_rounds, 1), 'winner'
+    );
+  END IF;
+
+  FOR v_match_id IN
+    SELECT id FROM public.tournament_matches
+    WHERE tournament_id = v_tournament_id AND bracket = 'winners' AND round = 1
+    ORDER BY position
+  LOOP
+    PERFORM public.start_tournament_match(v_match_id, p_start_time);
+  END LOOP;
+
+  RETURN v_tournament_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_tournament(text, text, text, text, text, timestamptz, integer, integer, uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_tournament(text, text, text, text, text, timestamptz, integer, integer, uuid, jsonb) TO authenticated;
+
+-- Move the teams of an ended match event on through the bracket
+CREATE OR REPLACE FUNCTION public.advance_tournament_match()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match public.tournament_matches;
+  v_tournament public.tournaments;
+  v_position integer;
+  v_winner_id uuid;
+  v_loser_id uuid;
+  v_next_id uuid;
+BEGIN
+  SELECT * INTO v_match FROM public.tournament_matches WHERE event_id = NEW.event_id FOR UPDATE;
+
+  IF NOT FOUND OR v_match.winner_id IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT position INTO v_position FROM public.event_teams WHERE id = NEW.winning_team_id;
+
+  IF v_position = 1 THEN
+    v_winner_id := v_match.team_a_id;
+  ELSIF v_position = 2 THEN
+    v_winner_id := v_match.team_b_id;
+  ELSE
+    SELECT id INTO v_winner_id
+    FROM public.tournament_teams
+    WHERE id IN (v_match.team_a_id, v_match.team_b_id)
+    ORDER BY seed
+    LIMIT 1;
+  END IF;
+
+  v_loser_id := CASE WHEN v_winner_id = v_match.team_a_id THEN v_match.team_b_id ELSE v_match.team_a_id END;
+
+  UPDATE public.tournament_matches
+  SET winner_id = v_winner_id, loser_id = v_loser_id
+  WHERE id = v_match.id;
+
+  -- The last match of the bracket feeds nothing and crowns the champion
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tournament_matches
+    WHERE team_a_from_match_id = v_match.id OR team_b_from_match_id = v_match.id
+  ) THEN
+    UPDATE public.tournaments SET champion_id = v_winner_id WHERE id = v_match.tournament_id;
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.tournament_matches
+  SET team_a_id = CASE team_a_from WHEN 'winner' THEN v_winner_id ELSE v_loser_id END
+  WHERE team_a_from_match_id = v_match.id;
+
+  UPDATE public.tournament_matches
+  SET team_b_id = CASE team_b_from WHEN 'winner' THEN v_winner_id ELSE v_loser_id END
+  WHERE team_b_from_match_id = v_match.id;
+
+  SELECT * INTO v_tournament FROM public.tournaments WHERE id = v_match.tournament_id;
+
+  FOR v_next_id IN
+    SELECT id FROM public.tournament_matches
+    WHERE (team_a_from_match_id = v_match.id OR team_b_from_match_id = v_match.id)
+      AND team_a_id IS NOT NULL
+      AND team_b_id IS NOT NULL
+      AND event_id IS NULL
+  LOOP
+    PERFORM public.start_tournament_match(v_next_id, now() + make_interval(mins => v_tournament.round_break_minutes));
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_event_results_advance_tournament
+  AFTER INSERT ON public.event_results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.advance_tournament_match();
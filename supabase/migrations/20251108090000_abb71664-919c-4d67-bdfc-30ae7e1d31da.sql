@@ -0,0 +1,245 @@
+-- Achievements.
+-- Each achievement is a rule: reach `threshold` on one of the metrics below
+-- and it unlocks for good.
+--   artworks_submitted - artworks submitted
+--   midway_artworks    - artworks submitted for a midway theme
+--   attacks_launched   - attacks launched, counter-artworks included
+--   attacks_survived   - attacks on your artworks that you didn't lose:
+--                        plain attacks, and counter-artworks whose duel
+--                        closed without the challenger winning
+--   events_won         - events won by your team
+-- Rules are checked by the triggers on the inserts and updates that score
+-- those actions, so new unlocks land in user_achievements with the points.
+-- Unlocks stay unseen until the owner's client has announced them.
+
+-- Create achievements table
+CREATE TABLE public.achievements (
+  id TEXT NOT NULL PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL,
+  icon TEXT NOT NULL,
+  metric TEXT NOT NULL
+    CHECK (metric IN ('artworks_submitted', 'midway_artworks', 'attacks_launched', 'attacks_survived', 'events_won')),
+  threshold INTEGER NOT NULL CHECK (threshold > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create user_achievements table
+CREATE TABLE public.user_achievements (
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  achievement_id TEXT NOT NULL REFERENCES public.achievements(id) ON DELETE CASCADE,
+  event_id UUID REFERENCES public.events(id) ON DELETE SET NULL,
+  unlocked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  seen_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (user_id, achievement_id)
+);
+
+-- Enable RLS on achievement tables
+ALTER TABLE public.achievements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_achievements ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for achievement tables
+CREATE POLICY "Achievements are viewable by everyone"
+ON public.achievements
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can create achievements"
+ON public.achievements
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update achievements"
+ON public.achievements
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete achievements"
+ON public.achievements
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Badges are public; unlocks are only written by evaluate_achievements()
+CREATE POLICY "Unlocked achievements are viewable by everyone"
+ON public.user_achievements
+FOR SELECT
+USING (true);
+
+INSERT INTO public.achievements (id, name, description, icon, metric, threshold, position) VALUES
+  ('first_submission', 'First Strokes', 'Submit your first artwork', 'palette', 'artworks_submitted', 1, 1),
+  ('attacks_launched_10', 'Brawler', 'Launch 10 attacks', 'swords', 'attacks_launched', 10, 2),
+  ('event_winner', 'Champion', 'Win an event with your team', 'trophy', 'events_won', 1, 3),
+  ('attacks_survived_5', 'Survivor', 'Survive 5 attacks on your artworks', 'shield', 'attacks_survived', 5, 4),
+  ('midway_submitter', 'Plot Twist', 'Submit an artwork for a midway theme', 'shuffle', 'midway_artworks', 1, 5);
+
+CREATE OR REPLACE FUNCTION public.achievement_progress(p_user_id uuid, p_metric text)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN CASE p_metric
+    WHEN 'artworks_submitted' THEN
+      (SELECT count(*) FROM public.artworks WHERE user_id = p_user_id)
+    WHEN 'midway_artworks' THEN
+      (SELECT count(*) FROM public.artworks WHERE user_id = p_user_id AND theme_phase = 'midway')
+    WHEN 'attacks_launched' THEN
+      (SELECT count(*) FROM public.attacks WHERE attacker_id = p_user_id)
+    WHEN 'attacks_survived' THEN
+      (SELECT count(*)
+       FROM public.attacks t
+       JOIN public.artworks a ON a.id = t.target_artwork_id
+       WHERE a.user_id = p_user_id
+         AND t.parent_attack_id IS NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM public.duels d
+           WHERE d.attack_id = t.id AND (d.resolved_at IS NULL OR d.winner = 'challenger')
+         ))
+    WHEN 'events_won' THEN
+      (SELECT count(*)
+       FROM public.event_results r
+       JOIN public.event_participants ep ON ep.event_id = r.event_id AND ep.team_id = r.winning_team_id
+       WHERE ep.user_id = p_user_id)
+    ELSE 0
+  END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.achievement_progress(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Unlock every achievement the user now qualifies for, crediting the event
+-- whose action unlocked it
+CREATE OR REPLACE FUNCTION public.evaluate_achievements(p_user_id uuid, p_event_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_achievements (user_id, achievement_id, event_id)
+  SELECT p_user_id, a.id, p_event_id
+  FROM public.achievements a
+  WHERE NOT EXISTS (
+      SELECT 1 FROM public.user_achievements ua
+      WHERE ua.user_id = p_user_id AND ua.achievement_id = a.id
+    )
+    AND public.achievement_progress(p_user_id, a.metric) >= a.threshold
+  ON CONFLICT (user_id, achievement_id) DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_achievements(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_achievement_action()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'artworks' THEN
+    PERFORM public.evaluate_achievements(NEW.user_id, NEW.event_id);
+  ELSIF TG_TABLE_NAME = 'attacks' THEN
+    PERFORM public.evaluate_achievements(NEW.attacker_id, NEW.event_id);
+    -- Its artist has survived a plain attack as soon as it lands; a
+    -- counter-artwork's duel isn't open yet here and is judged on resolving
+    IF NEW.parent_attack_id IS NULL AND NEW.image_url IS NULL THEN
+      SELECT user_id INTO v_user_id FROM public.artworks WHERE id = NEW.target_artwork_id;
+      PERFORM public.evaluate_achievements(v_user_id, NEW.event_id);
+    END IF;
+  ELSIF TG_TABLE_NAME = 'duels' THEN
+    PERFORM public.evaluate_achievements(NEW.defender_id, NEW.event_id);
+  ELSIF TG_TABLE_NAME = 'event_results' THEN
+    FOR v_user_id IN
+      SELECT user_id FROM public.event_participants
+      WHERE event_id = NEW.event_id AND team_id = NEW.winning_team_id
+    LOOP
+      PERFORM public.evaluate_achievements(v_user_id, NEW.event_id);
+    END LOOP;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_artwork_created_evaluate_achievements
+  AFTER INSERT ON public.artworks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_achievement_action();
+
+CREATE TRIGGER on_attack_created_evaluate_achievements
+  AFTER INSERT ON public.attacks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_achievement_action();
+
+CREATE TRIGGER on_duel_resolved_evaluate_achievements
+  AFTER UPDATE OF resolved_at ON public.duels
+  FOR EACH ROW
+  WHEN (OLD.resolved_at IS NULL AND NEW.resolved_at IS NOT NULL)
+  EXECUTE FUNCTION public.handle_achievement_action();
+
+CREATE TRIGGER on_event_results_evaluate_achievements
+  AFTER INSERT ON public.event_results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_achievement_action();
+
+-- Progress towards every achievement, for profile pages
+CREATE OR REPLACE FUNCTION public.get_achievement_progress(p_user_id uuid)
+RETURNS TABLE (
+  achievement_id text,
+  progress integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT a.id, LEAST(public.achievement_progress(p_user_id, a.metric), a.threshold)
+  FROM public.achievements a;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_achievement_progress(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_achievement_progress(uuid) TO authenticated;
+
+-- Called once the client has shown the toasts for these unlocks
+CREATE OR REPLACE FUNCTION public.mark_achievements_seen(p_achievement_ids text[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.user_achievements
+  SET seen_at = now()
+  WHERE user_id = auth.uid() AND achievement_id = ANY (p_achievement_ids) AND seen_at IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_achievements_seen(text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_achievements_seen(text[]) TO authenticated;
+
+-- Award what existing activity has already earned, without announcing it
+INSERT INTO public.user_achievements (user_id, achievement_id, seen_at)
+SELECT p.user_id, a.id, now()
+FROM public.profiles p
+CROSS JOIN public.achievements a
+WHERE public.achievement_progress(p.user_id, a.metric) >= a.threshold;
+
+-- Stream unlocks so clients can announce them as they happen
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.user_achievements;
+  END IF;
+END $$;
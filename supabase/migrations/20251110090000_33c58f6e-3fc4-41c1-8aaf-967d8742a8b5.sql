@@ -0,0 +1,68 @@
+-- Responsive images.
+-- Uploads are resized in the browser into three variants before they reach
+-- storage: a thumbnail, a medium size and a full size capped at 2048px. The
+-- full variant stays in image_url; thumbnail_url and medium_url hold the
+-- smaller ones, image_width and image_height the full variant's size, and
+-- blurhash a tiny placeholder to paint while the image loads.
+-- Images uploaded before this have none of these and are shown as-is.
+
+ALTER TABLE public.artworks
+ADD COLUMN thumbnail_url TEXT,
+ADD COLUMN medium_url TEXT,
+ADD COLUMN image_width INTEGER CHECK (image_width > 0),
+ADD COLUMN image_height INTEGER CHECK (image_height > 0),
+ADD COLUMN blurhash TEXT;
+
+ALTER TABLE public.attacks
+ADD COLUMN thumbnail_url TEXT,
+ADD COLUMN medium_url TEXT,
+ADD COLUMN image_width INTEGER CHECK (image_width > 0),
+ADD COLUMN image_height INTEGER CHECK (image_height > 0),
+ADD COLUMN blurhash TEXT;
+
+DROP FUNCTION IF EXISTS public.launch_attack(uuid, text, text, text, uuid);
+
+-- Attack an artwork, or with p_parent_attack_id counter one of the attacks on
+-- it, as the current user. p_title and p_image_url describe an optional
+-- counter-artwork, with its variants and placeholder in the p_thumbnail_url
+-- to p_blurhash arguments; the images are uploaded to storage beforehand.
+-- Returns the new attack's id.
+CREATE OR REPLACE FUNCTION public.launch_attack(
+  p_artwork_id uuid,
+  p_message text DEFAULT NULL,
+  p_title text DEFAULT NULL,
+  p_image_url text DEFAULT NULL,
+  p_parent_attack_id uuid DEFAULT NULL,
+  p_thumbnail_url text DEFAULT NULL,
+  p_medium_url text DEFAULT NULL,
+  p_image_width integer DEFAULT NULL,
+  p_image_height integer DEFAULT NULL,
+  p_blurhash text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attack public.attacks;
+BEGIN
+  v_attack.target_artwork_id := p_artwork_id;
+  v_attack.parent_attack_id := p_parent_attack_id;
+  v_attack.message := p_message;
+  v_attack.title := p_title;
+  v_attack.image_url := p_image_url;
+
+  IF p_image_url IS NOT NULL THEN
+    v_attack.thumbnail_url := p_thumbnail_url;
+    v_attack.medium_url := p_medium_url;
+    v_attack.image_width := p_image_width;
+    v_attack.image_height := p_image_height;
+    v_attack.blurhash := p_blurhash;
+  END IF;
+
+  RETURN public.create_attack(v_attack);
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.launch_attack(uuid, text, text, text, uuid, text, text, integer, integer, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.launch_attack(uuid, text, text, text, uuid, text, text, integer, integer, text) TO authenticated;
@@ -0,0 +1,110 @@
+-- Upload limits and orphaned upload sweep.
+-- The artwork buckets only take the variants the browser produces (see
+-- src/lib/uploads.ts), at most 5MB each.
+-- Objects can outlive their upload when the row insert fails and the
+-- client goes away before cleaning up. orphaned_uploads() lists objects in
+-- the artwork buckets that no artwork or attack references, and the
+-- sweep-orphaned-uploads edge function deletes them through the storage API
+-- once a day. Scheduling it needs pg_cron and pg_net plus the project_url
+-- and service_role_key secrets in Vault.
+-- Uploaders can delete their own files only while nothing references them,
+-- so a failed save can be cleaned up but a saved artwork keeps its images.
+
+UPDATE storage.buckets
+SET file_size_limit = 5242880,
+  allowed_mime_types = ARRAY['image/avif', 'image/webp', 'image/jpeg']
+WHERE id IN ('artworks', 'fight-artworks');
+
+-- Whether an artwork or attack row uses the object. Security definer so
+-- storage policies can see rows the deleting user can't.
+CREATE OR REPLACE FUNCTION public.is_upload_referenced(p_bucket_id text, p_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.artworks a
+    CROSS JOIN LATERAL (VALUES (a.image_url), (a.thumbnail_url), (a.medium_url)) AS v(url)
+    WHERE substring(v.url FROM '/storage/v1/object/public/(.*)$') = p_bucket_id || '/' || p_name
+    UNION ALL
+    SELECT 1
+    FROM public.attacks t
+    CROSS JOIN LATERAL (VALUES (t.image_url), (t.thumbnail_url), (t.medium_url)) AS v(url)
+    WHERE substring(v.url FROM '/storage/v1/object/public/(.*)$') = p_bucket_id || '/' || p_name
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_upload_referenced(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_upload_referenced(text, text) TO authenticated;
+
+-- Lets uploaders remove their files when saving the row fails, rather than
+-- leaving them for the sweep. Files a saved artwork or attack uses stay put:
+-- they go with the row.
+CREATE POLICY "Users can delete their own unused artworks"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'artworks'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+  AND NOT public.is_upload_referenced(bucket_id, name)
+);
+
+CREATE POLICY "Users can delete their own unused fight artworks"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'fight-artworks'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+  AND NOT public.is_upload_referenced(bucket_id, name)
+);
+
+-- Objects younger than p_older_than are skipped so uploads whose row is
+-- still being saved aren't swept
+CREATE OR REPLACE FUNCTION public.orphaned_uploads(p_older_than interval DEFAULT interval '1 day')
+RETURNS TABLE (
+  bucket_id text,
+  name text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT o.bucket_id, o.name
+  FROM storage.objects o
+  WHERE o.bucket_id IN ('artworks', 'fight-artworks')
+    AND o.created_at < now() - p_older_than
+    AND NOT public.is_upload_referenced(o.bucket_id, o.name)
+  ORDER BY o.bucket_id, o.name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.orphaned_uploads(interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.orphaned_uploads(interval) TO service_role;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_net') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_net;
+    EXECUTE $cron$
+      SELECT cron.schedule(
+        'sweep-orphaned-uploads',
+        '30 4 * * *',
+        $job$
+          SELECT net.http_post(
+            url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sweep-orphaned-uploads',
+            headers := jsonb_build_object(
+              'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+            )
+          );
+        $job$
+      )
+    $cron$;
+  END IF;
+END $$;
@@ -0,0 +1,273 @@
+-- Duplicate image detection.
+-- Every upload carries a 64-bit perceptual hash (a difference hash, as 16
+-- hex digits). Hashes that differ in few bits come from visually similar
+-- images, so each new artwork or counter-artwork is compared against every
+-- earlier one:
+--   identical hash         - rejected as a duplicate
+--   up to 10 bits apart    - accepted, and flagged for moderators to review
+-- The browser's hash is only trusted for that first check. After each
+-- insert the verify-image-hash edge function hashes the stored thumbnail
+-- and replaces it, which flags the upload again, and an upload whose
+-- server hash is identical to an earlier image's is deleted. Only the
+-- service role can change a hash. The call goes out through pg_net and
+-- needs the project_url and service_role_key secrets in Vault, as for the
+-- orphaned upload sweep.
+-- Images uploaded before this have no hash and are never matched.
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+ALTER TABLE public.artworks
+ADD COLUMN perceptual_hash TEXT CHECK (perceptual_hash ~ '^[0-9a-f]{16}$');
+
+ALTER TABLE public.attacks
+ADD COLUMN perceptual_hash TEXT CHECK (perceptual_hash ~ '^[0-9a-f]{16}$');
+
+-- Create duplicate_flags table
+CREATE TABLE public.duplicate_flags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  artwork_id UUID REFERENCES public.artworks(id) ON DELETE CASCADE,
+  attack_id UUID REFERENCES public.attacks(id) ON DELETE CASCADE,
+  matched_artwork_id UUID REFERENCES public.artworks(id) ON DELETE CASCADE,
+  matched_attack_id UUID REFERENCES public.attacks(id) ON DELETE CASCADE,
+  distance INTEGER NOT NULL CHECK (distance BETWEEN 0 AND 64),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+  reviewed_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT duplicate_flags_upload_check CHECK ((artwork_id IS NULL) <> (attack_id IS NULL)),
+  CONSTRAINT duplicate_flags_match_check CHECK ((matched_artwork_id IS NULL) <> (matched_attack_id IS NULL))
+);
+
+CREATE INDEX duplicate_flags_status_idx ON public.duplicate_flags (status, created_at);
+
+-- Enable RLS on duplicate_flags
+ALTER TABLE public.duplicate_flags ENABLE ROW LEVEL SECURITY;
+
+-- Flags are only written by flag_duplicate_images(); moderators review them
+CREATE POLICY "Moderators can view duplicate flags"
+ON public.duplicate_flags
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'moderator') OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Moderators can update duplicate flags"
+ON public.duplicate_flags
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'moderator') OR public.has_role(auth.uid(), 'admin'));
+
+-- Number of bits two perceptual hashes differ in
+CREATE OR REPLACE FUNCTION public.image_hash_distance(p_hash_a text, p_hash_b text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT bit_count(('x' || p_hash_a)::bit(64) # ('x' || p_hash_b)::bit(64))::integer;
+$$;
+
+CREATE OR REPLACE FUNCTION public.flag_duplicate_images()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_near_distance constant integer := 10;
+  v_closest integer;
+BEGIN
+  -- A replaced hash replaces the flags raised for the old one
+  IF TG_OP = 'UPDATE' THEN
+    DELETE FROM public.duplicate_flags
+    WHERE status = 'pending'
+      AND CASE WHEN TG_TABLE_NAME = 'artworks' THEN artwork_id ELSE attack_id END = NEW.id;
+  END IF;
+
+  IF NEW.perceptual_hash IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- An identical image aborts the insert, and the flags with it
+  WITH matches AS (
+    SELECT a.id AS artwork_id, NULL::uuid AS attack_id, public.image_hash_distance(a.perceptual_hash, NEW.perceptual_hash) AS distance
+    FROM public.artworks a
+    WHERE a.perceptual_hash IS NOT NULL
+      AND NOT (TG_TABLE_NAME = 'artworks' AND a.id = NEW.id)
+    UNION ALL
+    SELECT NULL, t.id, public.image_hash_distance(t.perceptual_hash, NEW.perceptual_hash)
+    FROM public.attacks t
+    WHERE t.perceptual_hash IS NOT NULL
+      AND NOT (TG_TABLE_NAME = 'attacks' AND t.id = NEW.id)
+  ),
+  flagged AS (
+    INSERT INTO public.duplicate_flags (event_id, artwork_id, attack_id, matched_artwork_id, matched_attack_id, distance)
+    SELECT
+      NEW.event_id,
+      CASE WHEN TG_TABLE_NAME = 'artworks' THEN NEW.id END,
+      CASE WHEN TG_TABLE_NAME = 'attacks' THEN NEW.id END,
+      m.artwork_id,
+      m.attack_id,
+      m.distance
+    FROM matches m
+    WHERE m.distance <= v_near_distance
+    RETURNING distance
+  )
+  SELECT min(distance) INTO v_closest FROM flagged;
+
+  IF v_closest = 0 AND TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'This image has already been uploaded'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  -- The row is already stored by the time the server's hash arrives, so a
+  -- copy of an earlier image found then is deleted, points and flags with it
+  IF TG_OP = 'UPDATE' AND (
+    EXISTS (
+      SELECT 1 FROM public.artworks a
+      WHERE a.perceptual_hash = NEW.perceptual_hash AND a.id <> NEW.id AND a.created_at < NEW.created_at
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.attacks t
+      WHERE t.perceptual_hash = NEW.perceptual_hash AND t.id <> NEW.id AND t.created_at < NEW.created_at
+    )
+  ) THEN
+    IF TG_TABLE_NAME = 'artworks' THEN
+      DELETE FROM public.artworks WHERE id = NEW.id;
+    ELSE
+      DELETE FROM public.attacks WHERE id = NEW.id;
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_artwork_created_flag_duplicates
+  AFTER INSERT ON public.artworks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.flag_duplicate_images();
+
+CREATE TRIGGER on_attack_created_flag_duplicates
+  AFTER INSERT ON public.attacks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.flag_duplicate_images();
+
+CREATE TRIGGER on_artwork_rehashed_flag_duplicates
+  AFTER UPDATE OF perceptual_hash ON public.artworks
+  FOR EACH ROW
+  WHEN (OLD.perceptual_hash IS DISTINCT FROM NEW.perceptual_hash)
+  EXECUTE FUNCTION public.flag_duplicate_images();
+
+CREATE TRIGGER on_attack_rehashed_flag_duplicates
+  AFTER UPDATE OF perceptual_hash ON public.attacks
+  FOR EACH ROW
+  WHEN (OLD.perceptual_hash IS DISTINCT FROM NEW.perceptual_hash)
+  EXECUTE FUNCTION public.flag_duplicate_images();
+
+-- Users editing their uploads keep the hash they have; reads the role the
+-- request runs as, so it is not SECURITY DEFINER
+CREATE OR REPLACE FUNCTION public.keep_perceptual_hash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.perceptual_hash := OLD.perceptual_hash;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER keep_artwork_perceptual_hash
+  BEFORE UPDATE ON public.artworks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.keep_perceptual_hash();
+
+CREATE TRIGGER keep_attack_perceptual_hash
+  BEFORE UPDATE ON public.attacks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.keep_perceptual_hash();
+
+-- Queues the verify-image-hash call; pg_net sends it once the insert commits
+CREATE OR REPLACE FUNCTION public.request_image_hash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/verify-image-hash',
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'),
+      'Content-Type', 'application/json'
+    ),
+    body := jsonb_build_object('table', TG_TABLE_NAME, 'id', NEW.id)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_artwork_created_request_image_hash
+  AFTER INSERT ON public.artworks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.request_image_hash();
+
+CREATE TRIGGER on_attack_created_request_image_hash
+  AFTER INSERT ON public.attacks
+  FOR EACH ROW
+  WHEN (NEW.image_url IS NOT NULL)
+  EXECUTE FUNCTION public.request_image_hash();
+
+DROP FUNCTION IF EXISTS public.launch_attack(uuid, text, text, text, uuid, text, text, integer, integer, text);
+
+-- Attack an artwork, or with p_parent_attack_id counter one of the attacks on
+-- it, as the current user. p_title and p_image_url describe an optional
+-- counter-artwork, with its variants, placeholder and perceptual hash in the
+-- p_thumbnail_url to p_perceptual_hash arguments; the images are uploaded to
+-- storage beforehand.
+-- Returns the new attack's id.
+CREATE OR REPLACE FUNCTION public.launch_attack(
+  p_artwork_id uuid,
+  p_message text DEFAULT NULL,
+  p_title text DEFAULT NULL,
+  p_image_url text DEFAULT NULL,
+  p_parent_attack_id uuid DEFAULT NULL,
+  p_thumbnail_url text DEFAULT NULL,
+  p_medium_url text DEFAULT NULL,
+  p_image_width integer DEFAULT NULL,
+  p_image_height integer DEFAULT NULL,
+  p_blurhash text DEFAULT NULL,
+  p_perceptual_hash text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attack public.attacks;
+BEGIN
+  v_attack.target_artwork_id := p_artwork_id;
+  v_attack.parent_attack_id := p_parent_attack_id;
+  v_attack.message := p_message;
+  v_attack.title := p_title;
+  v_attack.image_url := p_image_url;
+
+  IF p_image_url IS NOT NULL THEN
+    v_attack.thumbnail_url := p_thumbnail_url;
+    v_attack.medium_url := p_medium_url;
+    v_attack.image_width := p_image_width;
+    v_attack.image_height := p_image_height;
+    v_attack.blurhash := p_blurhash;
+    v_attack.perceptual_hash := p_perceptual_hash;
+  END IF;
+
+  RETURN public.create_attack(v_attack);
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.launch_attack(uuid, text, text, text, uuid, text, text, integer, integer, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.launch_attack(uuid, text, text, text, uuid, text, text, integer, integer, text, text) TO authenticated;
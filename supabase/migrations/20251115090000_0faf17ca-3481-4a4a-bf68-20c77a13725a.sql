@@ -0,0 +1,34 @@
+-- Metadata backfill for legacy uploads.
+-- Before uploads were re-encoded into variants, the artwork buckets stored
+-- the file the artist picked byte for byte, EXIF and GPS included, and
+-- those objects are still public. legacy_uploads() lists them a page at a
+-- time and the strip-upload-metadata edge function removes their EXIF, XMP
+-- and IPTC blocks in place, keeping only the EXIF orientation so photos
+-- still display upright. It only needs running until it reports no next
+-- page; uploads made since are variants and are never listed.
+
+-- Objects are paged by 'bucket/name', starting after p_after
+CREATE OR REPLACE FUNCTION public.legacy_uploads(p_after text DEFAULT '', p_limit integer DEFAULT 100)
+RETURNS TABLE (
+  bucket_id text,
+  name text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT o.bucket_id, o.name
+  FROM storage.objects o
+  WHERE o.bucket_id IN ('artworks', 'fight-artworks')
+    AND o.name !~ '/(thumbnail|medium|full)\.(avif|webp|jpg)$'
+    AND o.bucket_id || '/' || o.name > p_after
+  ORDER BY o.bucket_id || '/' || o.name
+  LIMIT p_limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.legacy_uploads(text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.legacy_uploads(text, integer) TO service_role;
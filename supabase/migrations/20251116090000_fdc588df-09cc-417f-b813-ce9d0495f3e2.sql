@@ -0,0 +1,398 @@
+-- Process media.
+-- Artworks can carry attachments showing how they were made:
+--   wip       - work-in-progress stages, up to 6 images
+--   timelapse - one short video or GIF
+--   source    - one layered source file (PSD, Krita, Procreate, ...)
+-- Files live under the uploader's id, at most 50MB each. WIP stages go in
+-- the public artwork-attachments bucket once the browser has re-encoded
+-- them. Timelapses are stored as uploaded, so they wait in the private
+-- pending-timelapses bucket until the scan-timelapse edge function, called
+-- through pg_net when their row is saved, has checked them for a location
+-- or XMP: clean ones move to artwork-attachments, tagged ones are deleted
+-- along with their row. Source files can't be checked at all, so they go in
+-- the private artwork-source-files bucket, which only their artist and
+-- moderators can read. Events with require_process_media only accept artworks
+-- submitted with at least one attachment, so artworks for them go through
+-- submit_artwork(), which stores the artwork and its attachments together.
+
+ALTER TABLE public.events
+ADD COLUMN require_process_media BOOLEAN NOT NULL DEFAULT false;
+
+-- Create artwork_attachments table
+CREATE TABLE public.artwork_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  artwork_id UUID NOT NULL REFERENCES public.artworks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('wip', 'timelapse', 'source')),
+  position INTEGER NOT NULL DEFAULT 0,
+  file_url TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes BETWEEN 1 AND 52428800),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX artwork_attachments_artwork_idx ON public.artwork_attachments (artwork_id, position);
+
+-- One timelapse and one source file per artwork
+CREATE UNIQUE INDEX artwork_attachments_single_kind_idx
+ON public.artwork_attachments (artwork_id, kind)
+WHERE kind IN ('timelapse', 'source');
+
+-- Enable RLS on artwork_attachments
+ALTER TABLE public.artwork_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Artwork attachments are viewable by everyone"
+ON public.artwork_attachments
+FOR SELECT
+USING (true);
+
+-- Attachments can only point at files in the uploader's own folder
+CREATE POLICY "Users can attach media to their own artworks"
+ON public.artwork_attachments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.artworks a WHERE a.id = artwork_id AND a.user_id = auth.uid())
+  AND file_url ~ (
+    '^https://[^/]+/storage/v1/object/'
+    || CASE kind
+      WHEN 'source' THEN 'authenticated/artwork-source-files/'
+      WHEN 'timelapse' THEN 'authenticated/pending-timelapses/'
+      ELSE 'public/artwork-attachments/'
+    END
+    || auth.uid() || '/'
+  )
+);
+
+CREATE POLICY "Users and moderators can delete artwork attachments"
+ON public.artwork_attachments
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'moderator') OR public.has_role(auth.uid(), 'admin'));
+
+-- The type and size of an attachment come from the object its file_url
+-- points at rather than from the client, and a row can't point at a file
+-- that was never uploaded
+CREATE OR REPLACE FUNCTION public.set_attachment_file_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bucket text := CASE NEW.kind
+    WHEN 'source' THEN 'artwork-source-files'
+    WHEN 'timelapse' THEN 'pending-timelapses'
+    ELSE 'artwork-attachments'
+  END;
+  v_access text := CASE WHEN NEW.kind = 'wip' THEN 'public' ELSE 'authenticated' END;
+  v_metadata jsonb;
+BEGIN
+  SELECT o.metadata INTO v_metadata
+  FROM storage.objects o
+  WHERE o.bucket_id = v_bucket
+    AND o.name = substring(NEW.file_url FROM '/storage/v1/object/' || v_access || '/' || v_bucket || '/(.*)$')
+    AND (storage.foldername(o.name))[1] = NEW.user_id::text;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Could not find the uploaded file for %', NEW.file_name
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  NEW.content_type := v_metadata->>'mimetype';
+  NEW.size_bytes := (v_metadata->>'size')::integer;
+
+  IF NEW.kind = 'wip' AND NEW.content_type NOT IN ('image/avif', 'image/webp', 'image/jpeg')
+    OR NEW.kind = 'timelapse' AND NEW.content_type NOT IN ('video/mp4', 'video/webm', 'image/gif') THEN
+    RAISE EXCEPTION '% is not a valid % attachment', NEW.file_name, NEW.kind
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_attachment_file_details
+  BEFORE INSERT ON public.artwork_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_attachment_file_details();
+
+CREATE OR REPLACE FUNCTION public.enforce_wip_stage_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.kind = 'wip' AND (
+    SELECT count(*) FROM public.artwork_attachments
+    WHERE artwork_id = NEW.artwork_id AND kind = 'wip'
+  ) >= 6 THEN
+    RAISE EXCEPTION 'An artwork can have at most 6 work-in-progress stages'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_wip_stage_limit
+  BEFORE INSERT ON public.artwork_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_wip_stage_limit();
+
+-- Queues the scan-timelapse call; pg_net sends it once the insert commits
+CREATE OR REPLACE FUNCTION public.request_timelapse_scan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/scan-timelapse',
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'),
+      'Content-Type', 'application/json'
+    ),
+    body := jsonb_build_object('id', NEW.id)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_attachment_created_request_timelapse_scan
+  AFTER INSERT ON public.artwork_attachments
+  FOR EACH ROW
+  WHEN (NEW.kind = 'timelapse')
+  EXECUTE FUNCTION public.request_timelapse_scan();
+
+-- Checked at commit, once submit_artwork() has stored the attachments
+CREATE OR REPLACE FUNCTION public.enforce_required_process_media()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.events WHERE id = NEW.event_id AND require_process_media)
+    AND EXISTS (SELECT 1 FROM public.artworks WHERE id = NEW.id)
+    AND NOT EXISTS (SELECT 1 FROM public.artwork_attachments WHERE artwork_id = NEW.id) THEN
+    RAISE EXCEPTION 'This event requires work-in-progress stages, a timelapse or a source file with every artwork'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER enforce_required_process_media
+  AFTER INSERT ON public.artworks
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_required_process_media();
+
+-- Submit an artwork as the current user along with its attachments, in one
+-- transaction. p_image holds the uploaded image's columns and
+-- p_attachments an array of attachment rows, in display order; their
+-- content_type and size_bytes are ignored and read from storage instead.
+-- Runs with the caller's rights, so the usual insert policies apply.
+-- Returns the new artwork's id.
+CREATE OR REPLACE FUNCTION public.submit_artwork(
+  p_event_id uuid,
+  p_title text,
+  p_description text,
+  p_image jsonb,
+  p_attachments jsonb DEFAULT '[]'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_artwork_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to upload artwork'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.artworks (
+    event_id, user_id, title, description,
+    image_url, thumbnail_url, medium_url, image_width, image_height, blurhash, perceptual_hash
+  )
+  VALUES (
+    p_event_id,
+    v_user_id,
+    btrim(p_title),
+    nullif(btrim(p_description), ''),
+    p_image->>'image_url',
+    p_image->>'thumbnail_url',
+    p_image->>'medium_url',
+    (p_image->>'image_width')::integer,
+    (p_image->>'image_height')::integer,
+    p_image->>'blurhash',
+    p_image->>'perceptual_hash'
+  )
+  RETURNING id INTO v_artwork_id;
+
+  INSERT INTO public.artwork_attachments (artwork_id, user_id, kind, position, file_url, file_name)
+  SELECT
+    v_artwork_id,
+    v_user_id,
+    a.value->>'kind',
+    a.position::integer,
+    a.value->>'file_url',
+    a.value->>'file_name'
+  FROM jsonb_array_elements(p_attachments) WITH ORDINALITY AS a(value, position);
+
+  RETURN v_artwork_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_artwork(uuid, text, text, jsonb, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_artwork(uuid, text, text, jsonb, jsonb) TO authenticated;
+
+-- Create storage bucket for artwork attachments
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'artwork-attachments',
+  'artwork-attachments',
+  true,
+  52428800,
+  ARRAY['image/avif', 'image/webp', 'image/jpeg', 'image/gif', 'video/mp4', 'video/webm']
+);
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'pending-timelapses',
+  'pending-timelapses',
+  false,
+  52428800,
+  ARRAY['image/gif', 'video/mp4', 'video/webm']
+);
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'artwork-source-files',
+  'artwork-source-files',
+  false,
+  52428800,
+  ARRAY['application/octet-stream']
+);
+
+-- Attachments count as references too, source files and pending
+-- timelapses by their authenticated URL
+CREATE OR REPLACE FUNCTION public.is_upload_referenced(p_bucket_id text, p_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.artworks a
+    CROSS JOIN LATERAL (VALUES (a.image_url), (a.thumbnail_url), (a.medium_url)) AS v(url)
+    WHERE substring(v.url FROM '/storage/v1/object/public/(.*)$') = p_bucket_id || '/' || p_name
+    UNION ALL
+    SELECT 1
+    FROM public.attacks t
+    CROSS JOIN LATERAL (VALUES (t.image_url), (t.thumbnail_url), (t.medium_url)) AS v(url)
+    WHERE substring(v.url FROM '/storage/v1/object/public/(.*)$') = p_bucket_id || '/' || p_name
+    UNION ALL
+    SELECT 1
+    FROM public.artwork_attachments aa
+    WHERE substring(aa.file_url FROM '/storage/v1/object/(?:public|authenticated)/(.*)$') = p_bucket_id || '/' || p_name
+  );
+$$;
+
+-- Create storage policies for artwork attachments
+CREATE POLICY "Users can upload their own artwork attachments"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'artwork-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Artwork attachments are publicly accessible"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'artwork-attachments');
+
+-- Lets uploaders clean up after a failed submission
+CREATE POLICY "Users can delete their own unused artwork attachments"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'artwork-attachments'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+  AND NOT public.is_upload_referenced(bucket_id, name)
+);
+
+-- Nobody but the scan reads a timelapse before it's public
+CREATE POLICY "Users can upload their own pending timelapses"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'pending-timelapses' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own unused pending timelapses"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'pending-timelapses'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+  AND NOT public.is_upload_referenced(bucket_id, name)
+);
+
+CREATE POLICY "Users can upload their own source files"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'artwork-source-files' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Source files are viewable by their artist and moderators"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'artwork-source-files'
+  AND (
+    auth.uid()::text = (storage.foldername(name))[1]
+    OR public.has_role(auth.uid(), 'moderator')
+    OR public.has_role(auth.uid(), 'admin')
+  )
+);
+
+CREATE POLICY "Users can delete their own unused source files"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'artwork-source-files'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+  AND NOT public.is_upload_referenced(bucket_id, name)
+);
+
+-- Sweep attachments no artwork references along with artwork images,
+-- including pending copies the scan couldn't remove after publishing a
+-- timelapse.
+CREATE OR REPLACE FUNCTION public.orphaned_uploads(p_older_than interval DEFAULT interval '1 day')
+RETURNS TABLE (
+  bucket_id text,
+  name text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT o.bucket_id, o.name
+  FROM storage.objects o
+  WHERE o.bucket_id IN ('artworks', 'fight-artworks', 'artwork-attachments', 'pending-timelapses', 'artwork-source-files')
+    AND o.created_at < now() - p_older_than
+    AND NOT public.is_upload_referenced(o.bucket_id, o.name)
+  ORDER BY o.bucket_id, o.name;
+END;
+$$;
@@ -0,0 +1,94 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { TestDatabase, createTestDatabase, createUser, queryRows, signInAs } from './database';
+
+let db: TestDatabase;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+}, 120_000);
+
+afterAll(() => db.close());
+
+// Every test runs in a transaction that is thrown away afterwards
+beforeEach(() => db.exec('BEGIN'));
+afterEach(() => db.exec('ROLLBACK'));
+
+// An ongoing event with an artist on Red, an attacker on Blue and a voter on
+// Green, who may vote in duels between the other two
+async function seedEvent() {
+  const artist = await createUser(db, 'artist');
+  const attacker = await createUser(db, 'attacker');
+  const voter = await createUser(db, 'voter');
+
+  const [event] = await queryRows<{ id: string }>(db, `
+    INSERT INTO public.events (title, description, theme, start_time, end_time)
+    VALUES ('Battle', 'A test event', 'Dragons', now() - interval '1 hour', now() + interval '1 day')
+    RETURNING id
+  `);
+  await db.query('SELECT public.update_event_status()');
+
+  const teams = await queryRows<{ id: string }>(db, `
+    INSERT INTO public.event_teams (event_id, position, name)
+    VALUES ($1, 1, 'Red'), ($1, 2, 'Blue'), ($1, 3, 'Green')
+    RETURNING id
+  `, [event.id]);
+  await db.query(`
+    INSERT INTO public.event_participants (event_id, user_id, team_id)
+    VALUES ($1, $2, $3), ($1, $4, $5), ($1, $6, $7)
+  `, [event.id, artist, teams[0].id, attacker, teams[1].id, voter, teams[2].id]);
+
+  return { event: event.id, artist, attacker, voter };
+}
+
+async function submitArtwork(eventId: string, userId: string, title: string) {
+  await signInAs(db, userId);
+  const [artwork] = await queryRows<{ id: string }>(db, `
+    INSERT INTO public.artworks (event_id, user_id, title, image_url)
+    VALUES ($1, $2, $3, 'https://project.test/storage/v1/object/public/artworks/' || $3 || '.webp')
+    RETURNING id
+  `, [eventId, userId, title]);
+  await signInAs(db, null);
+  return artwork.id;
+}
+
+// A plain attack, or one bringing a counter-artwork when given an image
+async function attack(artworkId: string, userId: string, imageUrl: string | null = null) {
+  await signInAs(db, userId);
+  const [{ launch_attack }] = await queryRows<{ launch_attack: string }>(db, `
+    SELECT public.launch_attack(p_artwork_id => $1, p_title => 'Strike', p_image_url => $2)
+  `, [artworkId, imageUrl]);
+  await signInAs(db, null);
+  return launch_attack;
+}
+
+async function survived(userId: string) {
+  const [{ achievement_progress }] = await queryRows<{ achievement_progress: number }>(
+    db, `SELECT public.achievement_progress($1, 'attacks_survived')`, [userId]
+  );
+  return Number(achievement_progress);
+}
+
+describe('attacks_survived', () => {
+  it('counts attacks on your artworks that you did not lose', async () => {
+    const { event, artist, attacker, voter } = await seedEvent();
+    const dragon = await submitArtwork(event, artist, 'dragon');
+    const knight = await submitArtwork(event, artist, 'knight');
+    const squire = await submitArtwork(event, artist, 'squire');
+
+    // A plain attack can't be lost; counter-artworks wait on their duel
+    await attack(dragon, attacker);
+    await attack(knight, attacker, 'https://project.test/storage/v1/object/public/attacks/drawn.webp');
+    const lost = await attack(squire, attacker, 'https://project.test/storage/v1/object/public/attacks/won.webp');
+    expect(await survived(artist)).toBe(1);
+    expect(await survived(attacker)).toBe(0);
+
+    const [duel] = await queryRows<{ id: string }>(db, 'SELECT id FROM public.duels WHERE attack_id = $1', [lost]);
+    await signInAs(db, voter);
+    await db.query(`SELECT public.cast_duel_vote($1, 'challenger')`, [duel.id]);
+    await signInAs(db, null);
+    await db.query(`SELECT public.resolve_duels(now() + interval '2 days')`);
+
+    // The drawn duel is survived, the one the challenger won isn't
+    expect(await survived(artist)).toBe(2);
+  });
+});
@@ -0,0 +1,118 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { PGlite } from '@electric-sql/pglite';
+
+// Stand-ins for what a Supabase project provides before any migration runs:
+// the API roles and their default grants, the auth and storage schemas, and
+// the pg_cron, pg_net and Vault functions migrations schedule work with.
+const PLATFORM = `
+CREATE ROLE anon;
+CREATE ROLE authenticated;
+CREATE ROLE service_role BYPASSRLS;
+
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT EXECUTE ON FUNCTIONS TO anon, authenticated, service_role;
+GRANT USAGE ON SCHEMA public TO anon, authenticated, service_role;
+
+CREATE SCHEMA auth;
+CREATE TABLE auth.users (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text,
+  raw_user_meta_data jsonb
+);
+CREATE FUNCTION auth.uid() RETURNS uuid LANGUAGE sql STABLE AS $$
+  SELECT nullif(current_setting('request.jwt.claim.sub', true), '')::uuid
+$$;
+GRANT USAGE ON SCHEMA auth TO anon, authenticated, service_role;
+
+CREATE SCHEMA storage;
+CREATE TABLE storage.buckets (
+  id text PRIMARY KEY,
+  name text,
+  public boolean,
+  file_size_limit bigint,
+  allowed_mime_types text[]
+);
+CREATE TABLE storage.objects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bucket_id text REFERENCES storage.buckets(id),
+  name text,
+  owner uuid,
+  metadata jsonb,
+  created_at timestamptz DEFAULT now()
+);
+ALTER TABLE storage.objects ENABLE ROW LEVEL SECURITY;
+CREATE FUNCTION storage.foldername(name text) RETURNS text[] LANGUAGE sql IMMUTABLE AS $$
+  SELECT (string_to_array(name, '/'))[1:array_length(string_to_array(name, '/'), 1) - 1]
+$$;
+GRANT USAGE ON SCHEMA storage TO anon, authenticated, service_role;
+GRANT ALL ON storage.objects TO anon, authenticated, service_role;
+
+CREATE SCHEMA cron;
+CREATE FUNCTION cron.schedule(job_name text, schedule text, command text) RETURNS bigint LANGUAGE sql AS $$ SELECT 1::bigint $$;
+CREATE FUNCTION cron.unschedule(job_name text) RETURNS boolean LANGUAGE sql AS $$ SELECT true $$;
+
+-- Requests are recorded rather than sent
+CREATE SCHEMA net;
+CREATE TABLE net.requests (id bigserial PRIMARY KEY, url text, headers jsonb, body jsonb);
+CREATE FUNCTION net.http_post(url text, body jsonb DEFAULT '{}', params jsonb DEFAULT '{}', headers jsonb DEFAULT '{}', timeout_milliseconds integer DEFAULT 5000)
+RETURNS bigint LANGUAGE sql AS $$
+  INSERT INTO net.requests (url, headers, body) VALUES (url, headers, body) RETURNING id
+$$;
+
+CREATE SCHEMA vault;
+CREATE TABLE vault.decrypted_secrets (name text PRIMARY KEY, decrypted_secret text);
+INSERT INTO vault.decrypted_secrets VALUES ('project_url', 'https://project.test'), ('service_role_key', 'service-role-key');
+`;
+
+export type TestDatabase = PGlite;
+
+// A fresh database with every migration applied, in order
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const db = new PGlite();
+  await db.exec(PLATFORM);
+
+  const migrations = new URL('../migrations/', import.meta.url);
+  for (const file of (await readdir(migrations)).sort()) {
+    const sql = await readFile(new URL(file, migrations), 'utf8');
+    // The extensions themselves are stood in for above
+    await db.exec(sql.replace(/CREATE EXTENSION[^;]*;/gi, ''));
+  }
+
+  return db;
+}
+
+// Runs the rest of the transaction as a signed-in user, the way the API
+// does for requests carrying their token; null signs out
+export async function signInAs(db: TestDatabase, userId: string | null) {
+  await db.exec('RESET ROLE');
+  await db.query(`SELECT set_config('request.jwt.claim.sub', $1, true)`, [userId ?? '']);
+  if (userId) await db.exec('SET LOCAL ROLE authenticated');
+}
+
+// Creates a user, whose profile the signup trigger fills in
+export async function createUser(db: TestDatabase, name: string) {
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO auth.users (email, raw_user_meta_data) VALUES ($1, $2) RETURNING id`,
+    [`${name}@example.com`, { username: name, display_name: name }]
+  );
+  return rows[0].id;
+}
+
+export async function queryRows<T>(db: TestDatabase, sql: string, params: unknown[] = []) {
+  return (await db.query<T>(sql, params)).rows;
+}
+
+// The error a statement fails with, or null if it succeeds. A savepoint
+// keeps the failure from aborting the test's transaction.
+export async function queryError(db: TestDatabase, sql: string, params: unknown[] = []) {
+  await db.exec('SAVEPOINT query_error');
+  try {
+    await db.query(sql, params);
+    await db.exec('RELEASE SAVEPOINT query_error');
+    return null;
+  } catch (error) {
+    await db.exec('ROLLBACK TO SAVEPOINT query_error');
+    return (error as Error).message;
+  }
+}
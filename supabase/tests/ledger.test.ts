@@ -0,0 +1,123 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { TestDatabase, createTestDatabase, createUser, queryError, queryRows, signInAs } from './database';
+
+let db: TestDatabase;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+}, 120_000);
+
+afterAll(() => db.close());
+
+// Every test runs in a transaction that is thrown away afterwards
+beforeEach(() => db.exec('BEGIN'));
+afterEach(() => db.exec('ROLLBACK'));
+
+// An ongoing event with two teams, an artist on one and a fan on the other,
+// and one artwork by the artist
+async function seedEvent() {
+  const artist = await createUser(db, 'artist');
+  const fan = await createUser(db, 'fan');
+
+  const [event] = await queryRows<{ id: string }>(db, `
+    INSERT INTO public.events (title, description, theme, start_time, end_time)
+    VALUES ('Battle', 'A test event', 'Dragons', now() - interval '1 hour', now() + interval '1 day')
+    RETURNING id
+  `);
+  await db.query('SELECT public.update_event_status()');
+
+  const teams = await queryRows<{ id: string }>(db, `
+    INSERT INTO public.event_teams (event_id, position, name)
+    VALUES ($1, 1, 'Red'), ($1, 2, 'Blue')
+    RETURNING id
+  `, [event.id]);
+  await db.query(`
+    INSERT INTO public.event_participants (event_id, user_id, team_id)
+    VALUES ($1, $2, $3), ($1, $4, $5)
+  `, [event.id, artist, teams[0].id, fan, teams[1].id]);
+
+  await signInAs(db, artist);
+  const [artwork] = await queryRows<{ id: string }>(db, `
+    INSERT INTO public.artworks (event_id, user_id, title, image_url)
+    VALUES ($1, $2, 'Wyrm', 'https://project.test/storage/v1/object/public/artworks/wyrm.webp')
+    RETURNING id
+  `, [event.id, artist]);
+  await signInAs(db, null);
+
+  return { event: event.id, artist, fan, artwork: artwork.id };
+}
+
+async function ledger(userId: string) {
+  return queryRows<{ reason: string; amount: number }>(db, `
+    SELECT reason, amount FROM public.point_events WHERE user_id = $1 ORDER BY created_at, reason
+  `, [userId]);
+}
+
+async function totals(eventId: string, userId: string) {
+  const [row] = await queryRows<{ points_total: number; like_points: number; ledger_total: number }>(db, `
+    SELECT up.points_total, up.like_points,
+      (SELECT sum(amount) FROM public.point_events pe WHERE pe.event_id = up.event_id AND pe.user_id = up.user_id)::integer AS ledger_total
+    FROM public.user_points up
+    WHERE up.event_id = $1 AND up.user_id = $2
+  `, [eventId, userId]);
+  return row;
+}
+
+describe('point_events ledger', () => {
+  it('awards an artwork submission to the artist', async () => {
+    const { event, artist } = await seedEvent();
+
+    expect(await ledger(artist)).toEqual([{ reason: 'artwork_submitted', amount: 5 }]);
+    expect(await totals(event, artist)).toMatchObject({ points_total: 5, ledger_total: 5 });
+  });
+
+  it('revokes a like when the fan takes it back', async () => {
+    const { event, artist, fan, artwork } = await seedEvent();
+
+    await signInAs(db, fan);
+    await db.query(`
+      INSERT INTO public.artwork_interactions (artwork_id, user_id, interaction_type) VALUES ($1, $2, 'like')
+    `, [artwork, fan]);
+    const { affectedRows } = await db.query(`
+      DELETE FROM public.artwork_interactions WHERE artwork_id = $1 AND user_id = $2 AND interaction_type = 'like'
+    `, [artwork, fan]);
+    await signInAs(db, null);
+
+    expect(affectedRows).toBe(1);
+    expect(await ledger(artist)).toEqual([
+      { reason: 'artwork_submitted', amount: 5 },
+      { reason: 'like_received', amount: 1 },
+      { reason: 'like_revoked', amount: -1 },
+    ]);
+    expect(await totals(event, artist)).toMatchObject({ points_total: 5, like_points: 0, ledger_total: 5 });
+    expect(await queryRows(db, 'SELECT likes_count FROM public.artworks WHERE id = $1', [artwork]))
+      .toEqual([{ likes_count: 0 }]);
+  });
+
+  it("doesn't let anyone else remove a fan's like", async () => {
+    const { artist, fan, artwork } = await seedEvent();
+
+    await signInAs(db, fan);
+    await db.query(`
+      INSERT INTO public.artwork_interactions (artwork_id, user_id, interaction_type) VALUES ($1, $2, 'like')
+    `, [artwork, fan]);
+    await signInAs(db, artist);
+    const { affectedRows } = await db.query('DELETE FROM public.artwork_interactions WHERE artwork_id = $1', [artwork]);
+    await signInAs(db, null);
+
+    expect(affectedRows).toBe(0);
+    expect(await queryRows(db, 'SELECT likes_count FROM public.artworks WHERE id = $1', [artwork]))
+      .toEqual([{ likes_count: 1 }]);
+  });
+
+  it("keeps ledger rows and totals out of clients' reach", async () => {
+    const { event, artist } = await seedEvent();
+
+    expect(await queryError(db, 'UPDATE public.point_events SET amount = 100 WHERE user_id = $1', [artist]))
+      .toBe('point_events is append-only');
+
+    await signInAs(db, artist);
+    expect(await queryError(db, 'UPDATE public.user_points SET points_total = 100 WHERE event_id = $1', [event]))
+      .toMatch(/permission denied/);
+  });
+});
@@ -0,0 +1,149 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { TestDatabase, createTestDatabase, createUser, queryRows, signInAs } from './database';
+
+let db: TestDatabase;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+}, 120_000);
+
+afterAll(() => db.close());
+
+// Every test runs in a transaction that is thrown away afterwards
+beforeEach(() => db.exec('BEGIN'));
+afterEach(() => db.exec('ROLLBACK'));
+
+// An ongoing event with a Red and a Blue team of one artist each. Points for
+// submissions and likes are set per test so teams can be made to tie.
+async function seedEvent(rules: { submission_points: number; like_received_points: number }) {
+  const red = await createUser(db, 'red');
+  const blue = await createUser(db, 'blue');
+
+  const [event] = await queryRows<{ id: string }>(db, `
+    INSERT INTO public.events (title, description, theme, start_time, end_time)
+    VALUES ('Battle', 'A test event', 'Dragons', now() - interval '1 hour', now() + interval '1 day')
+    RETURNING id
+  `);
+  await db.query('SELECT public.update_event_status()');
+  await db.query(`
+    UPDATE public.scoring_rules SET submission_points = $2, like_received_points = $3 WHERE event_id = $1
+  `, [event.id, rules.submission_points, rules.like_received_points]);
+
+  const [redTeam, blueTeam] = await queryRows<{ id: string }>(db, `
+    INSERT INTO public.event_teams (event_id, position, name)
+    VALUES ($1, 1, 'Red'), ($1, 2, 'Blue')
+    RETURNING id
+  `, [event.id]);
+  await db.query(`
+    INSERT INTO public.event_participants (event_id, user_id, team_id)
+    VALUES ($1, $2, $3), ($1, $4, $5)
+  `, [event.id, red, redTeam.id, blue, blueTeam.id]);
+
+  return { event: event.id, red, blue, redTeam: redTeam.id, blueTeam: blueTeam.id };
+}
+
+async function submitArtwork(eventId: string, userId: string, title: string) {
+  await signInAs(db, userId);
+  const [artwork] = await queryRows<{ id: string }>(db, `
+    INSERT INTO public.artworks (event_id, user_id, title, image_url)
+    VALUES ($1, $2, $3, 'https://project.test/storage/v1/object/public/artworks/' || $3 || '.webp')
+    RETURNING id
+  `, [eventId, userId, title]);
+  await signInAs(db, null);
+  return artwork.id;
+}
+
+async function like(artworkId: string, userId: string) {
+  await signInAs(db, userId);
+  await db.query(`
+    INSERT INTO public.artwork_interactions (artwork_id, user_id, interaction_type) VALUES ($1, $2, 'like')
+  `, [artworkId, userId]);
+  await signInAs(db, null);
+}
+
+async function endEvent(eventId: string) {
+  await db.query(`UPDATE public.events SET status = 'ended' WHERE id = $1`, [eventId]);
+
+  const [results] = await queryRows<{
+    winning_team_id: string | null;
+    decided_by: string;
+    team_standings: { name: string; points: number; artworks: number; likes: number }[];
+    mvp: { user_id: string } | null;
+  }>(db, 'SELECT winning_team_id, decided_by, team_standings, mvp FROM public.event_results WHERE event_id = $1', [eventId]);
+  return results;
+}
+
+describe('snapshot_event_results', () => {
+  it('gives the win to the team with the most points', async () => {
+    const { event, red, blue, redTeam } = await seedEvent({ submission_points: 5, like_received_points: 1 });
+    const dragon = await submitArtwork(event, red, 'dragon');
+    await submitArtwork(event, blue, 'knight');
+    await like(dragon, blue);
+
+    const results = await endEvent(event);
+
+    expect(results).toMatchObject({ winning_team_id: redTeam, decided_by: 'points', mvp: { user_id: red } });
+    expect(results.team_standings.map(({ name, points }) => [name, points])).toEqual([['Red', 6], ['Blue', 5]]);
+  });
+
+  it('breaks a tie on points by artworks submitted', async () => {
+    const { event, red, blue, blueTeam } = await seedEvent({ submission_points: 0, like_received_points: 0 });
+    await submitArtwork(event, red, 'dragon');
+    await submitArtwork(event, blue, 'knight');
+    await submitArtwork(event, blue, 'squire');
+
+    expect(await endEvent(event)).toMatchObject({ winning_team_id: blueTeam, decided_by: 'artworks' });
+  });
+
+  it('breaks a tie on points and artworks by likes received', async () => {
+    const { event, red, blue, blueTeam } = await seedEvent({ submission_points: 0, like_received_points: 0 });
+    await submitArtwork(event, red, 'dragon');
+    const knight = await submitArtwork(event, blue, 'knight');
+    await like(knight, red);
+
+    const results = await endEvent(event);
+
+    expect(results).toMatchObject({ winning_team_id: blueTeam, decided_by: 'likes' });
+    expect(results.team_standings.map(({ name, likes }) => [name, likes])).toEqual([['Blue', 1], ['Red', 0]]);
+  });
+
+  it('calls a draw when the teams are level on everything', async () => {
+    const { event, red, blue } = await seedEvent({ submission_points: 5, like_received_points: 1 });
+    await submitArtwork(event, red, 'dragon');
+    await submitArtwork(event, blue, 'knight');
+
+    const results = await endEvent(event);
+
+    expect(results).toMatchObject({ winning_team_id: null, decided_by: 'draw' });
+    // The MVP of a draw is the event's top scorer, whichever team they are on
+    expect([red, blue]).toContain(results.mvp?.user_id);
+  });
+});
+
+describe('all-time leaderboards', () => {
+  it('rank the final results of ended events, each team apart', async () => {
+    const { event, red, blue, redTeam, blueTeam } = await seedEvent({ submission_points: 5, like_received_points: 1 });
+    const dragon = await submitArtwork(event, red, 'dragon');
+    await submitArtwork(event, blue, 'knight');
+    await like(dragon, blue);
+    await endEvent(event);
+
+    // A later, still running event with teams of the same names doesn't count
+    const [rematch] = await queryRows<{ id: string }>(db, `
+      INSERT INTO public.events (title, description, theme, start_time, end_time)
+      VALUES ('Rematch', 'A test event', 'Dragons', now() - interval '1 hour', now() + interval '1 day')
+      RETURNING id
+    `);
+    await db.query(`INSERT INTO public.event_teams (event_id, position, name) VALUES ($1, 1, 'Red'), ($1, 2, 'Blue')`, [rematch.id]);
+
+    await signInAs(db, blue);
+    expect(await queryRows(db, 'SELECT team_id, name, won, points, rank FROM public.leaderboard_teams ORDER BY rank')).toEqual([
+      { team_id: redTeam, name: 'Red', won: true, points: 6, rank: 1 },
+      { team_id: blueTeam, name: 'Blue', won: false, points: 5, rank: 2 },
+    ]);
+    expect(await queryRows(db, 'SELECT user_id, events_played, points, rank FROM public.leaderboard_artists ORDER BY rank')).toEqual([
+      { user_id: red, events_played: 1, points: 6, rank: 1 },
+      { user_id: blue, events_played: 1, points: 5, rank: 2 },
+    ]);
+  });
+});
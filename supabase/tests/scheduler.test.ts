@@ -0,0 +1,111 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { TestDatabase, createTestDatabase, queryRows } from './database';
+
+let db: TestDatabase;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+}, 120_000);
+
+afterAll(() => db.close());
+
+// Every test runs in a transaction that is thrown away afterwards
+beforeEach(() => db.exec('BEGIN'));
+afterEach(() => db.exec('ROLLBACK'));
+
+// An event that starts at 10:00, turns midway at 11:00 and ends at 12:00,
+// unless it has no midway
+async function createEvent({ midway = true } = {}) {
+  const [event] = await queryRows<{ id: string }>(db, `
+    INSERT INTO public.events (title, description, theme, midway_theme, start_time, midway_time, end_time)
+    VALUES ('Battle', 'A test event', 'Dragons', $1, '2030-01-01 10:00Z', $2, '2030-01-01 12:00Z')
+    RETURNING id
+  `, midway ? ['Knights', '2030-01-01 11:00Z'] : [null, null]);
+  return event.id;
+}
+
+async function runSchedulerAt(now: string) {
+  const [{ update_event_status }] = await queryRows<{ update_event_status: number }>(
+    db, 'SELECT public.update_event_status($1)', [now]
+  );
+  return update_event_status;
+}
+
+async function status(eventId: string) {
+  const [event] = await queryRows<{ status: string }>(db, 'SELECT status FROM public.events WHERE id = $1', [eventId]);
+  return event.status;
+}
+
+async function transitions(eventId: string) {
+  return queryRows<{ from_status: string; to_status: string; scheduled_for: Date | null; source: string }>(db, `
+    SELECT from_status, to_status, scheduled_for, source
+    FROM public.event_status_transitions
+    WHERE event_id = $1
+    ORDER BY public.event_phase_rank(to_status)
+  `, [eventId]);
+}
+
+describe('update_event_status', () => {
+  it('moves an event through each phase as its boundaries pass', async () => {
+    const event = await createEvent();
+
+    expect(await runSchedulerAt('2030-01-01 09:59Z')).toBe(0);
+    expect(await status(event)).toBe('upcoming');
+
+    expect(await runSchedulerAt('2030-01-01 10:00Z')).toBe(1);
+    expect(await status(event)).toBe('ongoing');
+
+    expect(await runSchedulerAt('2030-01-01 10:30Z')).toBe(0);
+    expect(await runSchedulerAt('2030-01-01 11:00Z')).toBe(1);
+    expect(await status(event)).toBe('midway');
+
+    expect(await runSchedulerAt('2030-01-01 12:00Z')).toBe(1);
+    expect(await status(event)).toBe('ended');
+
+    expect(await transitions(event)).toEqual([
+      { from_status: 'upcoming', to_status: 'ongoing', scheduled_for: new Date('2030-01-01T10:00Z'), source: 'scheduler' },
+      { from_status: 'ongoing', to_status: 'midway', scheduled_for: new Date('2030-01-01T11:00Z'), source: 'scheduler' },
+      { from_status: 'midway', to_status: 'ended', scheduled_for: new Date('2030-01-01T12:00Z'), source: 'scheduler' },
+    ]);
+  });
+
+  it('records every missed phase when it catches up', async () => {
+    const event = await createEvent();
+
+    expect(await runSchedulerAt('2030-01-02 00:00Z')).toBe(3);
+
+    expect((await transitions(event)).map(({ from_status, to_status }) => `${from_status} -> ${to_status}`)).toEqual([
+      'upcoming -> ongoing',
+      'ongoing -> midway',
+      'midway -> ended',
+    ]);
+  });
+
+  it('skips midway for events without one', async () => {
+    const event = await createEvent({ midway: false });
+
+    await runSchedulerAt('2030-01-01 11:30Z');
+    expect(await status(event)).toBe('ongoing');
+
+    await runSchedulerAt('2030-01-01 12:00Z');
+    expect((await transitions(event)).map(({ to_status }) => to_status)).toEqual(['ongoing', 'ended']);
+  });
+
+  it('never moves an event backwards', async () => {
+    const event = await createEvent();
+    await runSchedulerAt('2030-01-01 12:00Z');
+
+    expect(await runSchedulerAt('2030-01-01 10:30Z')).toBe(0);
+    expect(await status(event)).toBe('ended');
+  });
+
+  it('records changes made by hand as manual', async () => {
+    const event = await createEvent();
+
+    await db.query(`UPDATE public.events SET status = 'ongoing' WHERE id = $1`, [event]);
+
+    expect(await transitions(event)).toEqual([
+      { from_status: 'upcoming', to_status: 'ongoing', scheduled_for: new Date('2030-01-01T10:00Z'), source: 'manual' },
+    ]);
+  });
+});
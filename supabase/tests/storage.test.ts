@@ -0,0 +1,130 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { TestDatabase, createTestDatabase, createUser, queryError, queryRows, signInAs } from './database';
+
+let db: TestDatabase;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+}, 120_000);
+
+afterAll(() => db.close());
+
+// Every test runs in a transaction that is thrown away afterwards
+beforeEach(() => db.exec('BEGIN'));
+afterEach(() => db.exec('ROLLBACK'));
+
+// An ongoing event with an artist on one of its teams, and the variants the
+// artist's browser uploaded for an artwork
+async function seedUpload() {
+  const artist = await createUser(db, 'artist');
+
+  const [event] = await queryRows<{ id: string }>(db, `
+    INSERT INTO public.events (title, description, theme, start_time, end_time)
+    VALUES ('Battle', 'A test event', 'Dragons', now() - interval '1 hour', now() + interval '1 day')
+    RETURNING id
+  `);
+  await db.query('SELECT public.update_event_status()');
+  const [team] = await queryRows<{ id: string }>(db, `
+    INSERT INTO public.event_teams (event_id, position, name)
+    VALUES ($1, 1, 'Red'), ($1, 2, 'Blue')
+    RETURNING id
+  `, [event.id]);
+  await db.query(`
+    INSERT INTO public.event_participants (event_id, user_id, team_id) VALUES ($1, $2, $3)
+  `, [event.id, artist, team.id]);
+
+  const folder = `${artist}/wyrm`;
+  await db.query(`
+    INSERT INTO storage.objects (bucket_id, name, owner)
+    SELECT 'artworks', $1 || '/' || variant, $2
+    FROM unnest(ARRAY['thumbnail.webp', 'medium.webp', 'full.webp']) AS variant
+  `, [folder, artist]);
+
+  return { event: event.id, artist, folder };
+}
+
+async function deleteObjects(userId: string, folder: string) {
+  await signInAs(db, userId);
+  const { affectedRows } = await db.query(`DELETE FROM storage.objects WHERE bucket_id = 'artworks' AND name LIKE $1 || '/%'`, [folder]);
+  await signInAs(db, null);
+  return affectedRows;
+}
+
+describe('artwork storage', () => {
+  it('lets uploaders delete files no artwork was saved with', async () => {
+    const { artist, folder } = await seedUpload();
+
+    expect(await deleteObjects(artist, folder)).toBe(3);
+  });
+
+  it("keeps a saved artwork's files from being deleted", async () => {
+    const { event, artist, folder } = await seedUpload();
+    const url = (variant: string) => `https://project.test/storage/v1/object/public/artworks/${folder}/${variant}.webp`;
+
+    await signInAs(db, artist);
+    await db.query(`
+      INSERT INTO public.artworks (event_id, user_id, title, image_url, thumbnail_url, medium_url)
+      VALUES ($1, $2, 'Wyrm', $3, $4, $5)
+    `, [event, artist, url('full'), url('thumbnail'), url('medium')]);
+
+    expect(await deleteObjects(artist, folder)).toBe(0);
+  });
+
+  it("keeps a saved artwork's attachments from being deleted", async () => {
+    const { event, artist, folder } = await seedUpload();
+    const url = (path: string) => `https://project.test/storage/v1/object/public/${path}`;
+    await db.query(`
+      INSERT INTO storage.objects (bucket_id, name, owner, metadata)
+      VALUES ('artwork-attachments', $1 || '/wip-1.webp', $2, '{"mimetype": "image/webp", "size": 2048}')
+    `, [folder, artist]);
+
+    await signInAs(db, artist);
+    const [artwork] = await queryRows<{ id: string }>(db, `
+      INSERT INTO public.artworks (event_id, user_id, title, image_url) VALUES ($1, $2, 'Wyrm', $3) RETURNING id
+    `, [event, artist, url(`artworks/${folder}/full.webp`)]);
+    await db.query(`
+      INSERT INTO public.artwork_attachments (artwork_id, user_id, kind, file_url, file_name)
+      VALUES ($1, $2, 'wip', $3, 'sketch.webp')
+    `, [artwork.id, artist, url(`artwork-attachments/${folder}/wip-1.webp`)]);
+    const { affectedRows } = await db.query(`DELETE FROM storage.objects WHERE bucket_id = 'artwork-attachments'`);
+    await signInAs(db, null);
+
+    expect(affectedRows).toBe(0);
+  });
+});
+
+describe('timelapse attachments', () => {
+  it('wait in the private bucket until the scan has run', async () => {
+    const { event, artist, folder } = await seedUpload();
+    const url = (path: string) => `https://project.test/storage/v1/object/${path}`;
+    await db.query(`
+      INSERT INTO storage.objects (bucket_id, name, owner, metadata)
+      VALUES ('pending-timelapses', $1 || '/timelapse-1.mp4', $2, '{"mimetype": "video/mp4", "size": 2048}'),
+        ('artwork-attachments', $1 || '/timelapse-1.mp4', $2, '{"mimetype": "video/mp4", "size": 2048}')
+    `, [folder, artist]);
+
+    await signInAs(db, artist);
+    const [artwork] = await queryRows<{ id: string }>(db, `
+      INSERT INTO public.artworks (event_id, user_id, title, image_url)
+      VALUES ($1, $2, 'Wyrm', $3)
+      RETURNING id
+    `, [event, artist, url(`public/artworks/${folder}/full.webp`)]);
+    const attach = (fileUrl: string) => queryError(db, `
+      INSERT INTO public.artwork_attachments (artwork_id, user_id, kind, file_url, file_name)
+      VALUES ($1, $2, 'timelapse', $3, 'process.mp4')
+    `, [artwork.id, artist, fileUrl]);
+
+    expect(await attach(url(`public/artwork-attachments/${folder}/timelapse-1.mp4`)))
+      .toBe('Could not find the uploaded file for process.mp4');
+    expect(await attach(url(`authenticated/pending-timelapses/${folder}/timelapse-1.mp4`))).toBeNull();
+    await signInAs(db, null);
+
+    const [attachment] = await queryRows<{ id: string; content_type: string }>(
+      db, 'SELECT id, content_type FROM public.artwork_attachments WHERE artwork_id = $1', [artwork.id]
+    );
+    expect(attachment.content_type).toBe('video/mp4');
+    expect(await queryRows(db, 'SELECT url, body FROM net.requests WHERE url LIKE $1', ['%/scan-timelapse'])).toEqual([
+      { url: 'https://project.test/functions/v1/scan-timelapse', body: { id: attachment.id } },
+    ]);
+  });
+});